@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fetchStationDetails } from '../traffic-stats/common/common';
+import { addDays, isValidDate } from '../traffic-stats/common/time';
+import {
+  DEFAULT_LAM_RAW_UTC_OFFSET_HOURS,
+  LAM_RAW_URL,
+  aggregateHourly,
+  getLamRawFileName,
+  parseLamRawCsv,
+} from '../traffic-stats/backend/src/common/lamRaw';
+import { RetryError, withRetry } from '../traffic-stats/backend/src/common/retry';
+import { storeSensorValues } from '../traffic-stats/backend/src/common/sensorValues';
+
+/**
+ * Imports historical Digitraffic LAM raw data into the traffic data table as
+ * hourly sensor values and rollups, the same records the processor writes.
+ *
+ *   npm run backfill -- --stations 23001:1,23002 --from 2024-01-01 --to 2024-01-31
+ *
+ * Options:
+ *   --stations        station IDs, optionally with LAM number as stationId:tmsNumber.
+ *                     LAM numbers that are not given are read from Digitraffic.
+ *   --from, --to      local dates YYYY-MM-DD
+ *   --source-dir      read raw files from a directory instead of Digitraffic
+ *   --state-file      progress file used to resume, defaults to .backfill-state.json
+ *   --utc-offset      UTC offset of raw data times in hours, defaults to 2
+ *   --retention-days  set TTL of the stored raw values, by default they do not expire
+ *   --dry-run         print the values instead of storing them, needs no AWS access
+ *   --force           import days that are already marked done in the state file
+ *
+ * Stored values are keyed by station, time and sensor, so running the
+ * backfill again overwrites the same items and does not count rollups twice.
+ */
+
+interface BackfillOptions {
+  stations: { stationId: number; tmsNumber?: number }[];
+  from: string;
+  to: string;
+  sourceDir?: string;
+  stateFile: string;
+  utcOffsetHours: number;
+  retentionDays?: number;
+  dryRun: boolean;
+  force: boolean;
+}
+
+interface BackfillState {
+  // Local dates imported per station
+  completed: { [stationId: string]: string[] };
+}
+
+const usage = (message: string): never => {
+  console.error(message);
+  console.error('Usage: npm run backfill -- --stations 23001[:tmsNumber],... --from YYYY-MM-DD --to YYYY-MM-DD [--source-dir DIR] [--dry-run]');
+  process.exit(1);
+};
+
+const parseArgs = (args: string[]): BackfillOptions => {
+  const values: { [name: string]: string } = {};
+  const flags = new Set<string>();
+
+  for (let i = 0; i < args.length; i++) {
+    const name = args[i].replace(/^--/, '');
+    if (name === 'dry-run' || name === 'force') {
+      flags.add(name);
+    } else if (args[i].startsWith('--') && i + 1 < args.length) {
+      values[name] = args[++i];
+    } else {
+      usage(`Unknown argument ${args[i]}`);
+    }
+  }
+
+  if (!values.stations) usage('Missing --stations');
+  if (!isValidDate(values.from) || !isValidDate(values.to)) usage('Parameters --from and --to must be dates in format YYYY-MM-DD');
+  if (values.from > values.to) usage('Parameter --from must not be after --to');
+
+  const stations = values.stations.split(',').map(station => {
+    const [stationId, tmsNumber] = station.trim().split(':').map(value => parseInt(value, 10));
+    if (isNaN(stationId) || (tmsNumber !== undefined && isNaN(tmsNumber))) usage(`Invalid station ${station}`);
+    return { stationId, tmsNumber };
+  });
+
+  return {
+    stations,
+    from: values.from,
+    to: values.to,
+    sourceDir: values['source-dir'],
+    stateFile: values['state-file'] || '.backfill-state.json',
+    utcOffsetHours: values['utc-offset'] !== undefined ? parseFloat(values['utc-offset']) : DEFAULT_LAM_RAW_UTC_OFFSET_HOURS,
+    retentionDays: values['retention-days'] !== undefined ? parseInt(values['retention-days'], 10) : undefined,
+    dryRun: flags.has('dry-run'),
+    force: flags.has('force'),
+  };
+};
+
+const loadState = (stateFile: string): BackfillState => {
+  if (!fs.existsSync(stateFile)) {
+    return { completed: {} };
+  }
+  return JSON.parse(fs.readFileSync(stateFile, 'utf8')) as BackfillState;
+};
+
+// Written through a temporary file so an interrupted run does not corrupt the state
+const saveState = (stateFile: string, state: BackfillState): void => {
+  fs.writeFileSync(`${stateFile}.tmp`, JSON.stringify(state, null, 2));
+  fs.renameSync(`${stateFile}.tmp`, stateFile);
+};
+
+/**
+ * Reads a raw data file, returns undefined when there is no file for the day
+ */
+const readRawFile = async (fileName: string, sourceDir?: string): Promise<string | undefined> => {
+  if (sourceDir) {
+    const filePath = path.join(sourceDir, fileName);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+  }
+
+  try {
+    const response = await withRetry(() => axios.get<string>(`${LAM_RAW_URL}/${fileName}`, {
+      responseType: 'text',
+      timeout: 60000,
+    }));
+    return response.data;
+  } catch (error) {
+    if (error instanceof RetryError && axios.isAxiosError(error.lastError) && error.lastError.response?.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+const resolveTmsNumber = async (stationId: number, tmsNumber?: number): Promise<number> => {
+  if (tmsNumber !== undefined) {
+    return tmsNumber;
+  }
+  const details = await fetchStationDetails(String(stationId));
+  if (details?.tmsNumber === undefined) {
+    throw new Error(`LAM number of station ${stationId} not found, give it as ${stationId}:tmsNumber`);
+  }
+  return details.tmsNumber;
+};
+
+const backfill = async (options: BackfillOptions): Promise<void> => {
+  const state = loadState(options.stateFile);
+  let failedDays = 0;
+
+  for (const station of options.stations) {
+    const tmsNumber = await resolveTmsNumber(station.stationId, station.tmsNumber);
+    const completed = new Set(state.completed[station.stationId] || []);
+    console.log(`Backfilling station ${station.stationId} (LAM ${tmsNumber}) from ${options.from} to ${options.to}`);
+
+    for (let date = options.from; date <= options.to; date = addDays(date, 1)) {
+      if (completed.has(date) && !options.force) {
+        console.log(`${station.stationId} ${date}: already done`);
+        continue;
+      }
+
+      try {
+        const fileName = getLamRawFileName(tmsNumber, date);
+        const csv = await readRawFile(fileName, options.sourceDir);
+        if (csv === undefined) {
+          console.log(`${station.stationId} ${date}: no raw data file ${fileName}`);
+          continue;
+        }
+
+        const vehicles = parseLamRawCsv(csv, options.utcOffsetHours);
+        const sensorValues = aggregateHourly(station.stationId, date, vehicles, options.utcOffsetHours);
+
+        if (options.dryRun) {
+          sensorValues.forEach(sensorValue => console.log(JSON.stringify(sensorValue)));
+          console.log(`${station.stationId} ${date}: ${vehicles.length} vehicles, ${sensorValues.length} values (dry run)`);
+          continue;
+        }
+
+        const result = await storeSensorValues(sensorValues, { retentionDays: options.retentionDays });
+        if (result.failed > 0 || result.rollupsFailed > 0) {
+          throw new Error(`${result.failed} values and ${result.rollupsFailed} rollup updates could not be stored`);
+        }
+        console.log(`${station.stationId} ${date}: ${vehicles.length} vehicles, stored ${result.stored} values`);
+
+        completed.add(date);
+        state.completed[station.stationId] = Array.from(completed).sort();
+        saveState(options.stateFile, state);
+      } catch (error) {
+        // Day is not marked done, so the next run retries it
+        console.error(`${station.stationId} ${date}: failed:`, error);
+        failedDays++;
+      }
+    }
+  }
+
+  if (failedDays > 0) {
+    throw new Error(`${failedDays} days failed, run the backfill again to retry them`);
+  }
+};
+
+backfill(parseArgs(process.argv.slice(2))).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
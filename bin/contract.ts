@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContractResponse, checkResponse, getExampleParameters } from '../traffic-stats/common/api/contract';
+import { OpenApiDocument, Operation, getOperations } from '../traffic-stats/common/api/spec';
+import { applyLocalEnvironment } from '../traffic-stats/backend/src/local/env';
+import type { invokeApi } from '../traffic-stats/backend/src/local';
+
+/**
+ * Checks the API lambdas against the OpenAPI document
+ * traffic-stats/common/api/openapi.json. Every GET operation is called with
+ * the example values of its parameters and the status and JSON body of the
+ * response are validated against the documented response schema.
+ *
+ *   npm run contract
+ *   npm run contract -- --local
+ *   npm run contract -- --api-url https://<api-id>.execute-api.eu-north-1.amazonaws.com/api
+ *
+ * Options:
+ *   --api-url    call a deployed API instead of invoking the handlers in-process.
+ *                In-process handlers read the tables named by the same environment
+ *                variables as in the Lambda functions.
+ *   --local      invoke the handlers in the local environment of npm run dev: tables
+ *                in DynamoDB Local hold the fixture data collected from the Digitraffic mock
+ *   --operation  check only the operation with this operationId
+ *
+ * Operations that change data are not called, but every operation must have a
+ * handler, so a route added to the document without a lambda fails the check.
+ */
+
+interface ContractOptions {
+  apiUrl?: string;
+  operationId?: string;
+  local: boolean;
+}
+
+const usage = (message: string): never => {
+  console.error(message);
+  console.error('Usage: npm run contract -- [--api-url URL | --local] [--operation operationId]');
+  process.exit(1);
+};
+
+const parseArgs = (args: string[]): ContractOptions => {
+  const values: { [name: string]: string } = {};
+  const flags = new Set<string>();
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--local') {
+      flags.add('local');
+    } else if (args[i].startsWith('--') && i + 1 < args.length) {
+      values[args[i].replace(/^--/, '')] = args[++i];
+    } else {
+      usage(`Unknown argument ${args[i]}`);
+    }
+  }
+
+  if (values['api-url'] && flags.has('local')) usage('Use either --api-url or --local');
+
+  return {
+    apiUrl: values['api-url']?.replace(/\/$/, ''),
+    operationId: values.operation,
+    local: flags.has('local'),
+  };
+};
+
+const invokeHandler = async (
+  invoke: typeof invokeApi,
+  { path: routePath }: Operation,
+  pathParameters: { [name: string]: string },
+  queryParameters: { [name: string]: string }
+): Promise<ContractResponse> => {
+  const result = await invoke({
+    method: 'GET',
+    path: routePath.replace(/\{(\w+)\}/g, (_, name) => pathParameters[name]),
+    query: queryParameters,
+  });
+  return {
+    statusCode: result.statusCode,
+    contentType: result.headers?.['Content-Type'] as string | undefined,
+    body: result.body,
+  };
+};
+
+const callApi = async (
+  apiUrl: string,
+  { path: routePath }: Operation,
+  pathParameters: { [name: string]: string },
+  queryParameters: { [name: string]: string }
+): Promise<ContractResponse> => {
+  const response = await axios.get<string>(`${apiUrl}${routePath.replace(/\{(\w+)\}/g, (_, name) => encodeURIComponent(pathParameters[name]))}`, {
+    params: queryParameters,
+    responseType: 'text',
+    transformResponse: data => data,
+    validateStatus: () => true,
+    maxRedirects: 0,
+    timeout: 60000,
+  });
+  return {
+    statusCode: response.status,
+    contentType: response.headers['content-type'] as string | undefined,
+    body: response.data,
+  };
+};
+
+const checkContract = async (options: ContractOptions) => {
+  const document: OpenApiDocument = JSON.parse(fs.readFileSync(path.join(__dirname, '../traffic-stats/common/api/openapi.json'), 'utf8'));
+  const operations = getOperations(document)
+    .filter(({ operation }) => !options.operationId || operation.operationId === options.operationId);
+  if (operations.length === 0) {
+    usage(`Unknown operation ${options.operationId}`);
+  }
+
+  if (options.local) {
+    applyLocalEnvironment();
+  }
+  // Lambdas read the environment when they are loaded
+  const { API_HANDLERS, invokeApi: invoke, startLocalEnvironment } = await import('../traffic-stats/backend/src/local');
+  const environment = options.local ? await startLocalEnvironment({}) : undefined;
+
+  let failed = 0;
+  for (const entry of operations) {
+    const { method, path: routePath, operation } = entry;
+    const name = `${operation.operationId} (${method.toUpperCase()} ${routePath})`;
+
+    if (!API_HANDLERS[operation.operationId]) {
+      console.error(`${name}: no handler`);
+      failed++;
+      continue;
+    }
+    if (method !== 'get') {
+      console.log(`${name}: skipped, changes data`);
+      continue;
+    }
+    const parameters = getExampleParameters(entry);
+    if (!parameters) {
+      console.log(`${name}: skipped, no example for a required parameter`);
+      continue;
+    }
+
+    try {
+      const response = options.apiUrl
+        ? await callApi(options.apiUrl, entry, parameters.pathParameters, parameters.queryParameters)
+        : await invokeHandler(invoke, entry, parameters.pathParameters, parameters.queryParameters);
+      const errors = checkResponse(document, entry, response);
+      if (errors.length > 0) {
+        console.error(`${name}: ${errors.length} errors`);
+        errors.slice(0, 20).forEach(error => console.error(`  ${error}`));
+        failed++;
+      } else {
+        console.log(`${name}: ok`);
+      }
+    } catch (error) {
+      console.error(`${name}: failed:`, error);
+      failed++;
+    }
+  }
+
+  await environment?.close();
+
+  const unknown = Object.keys(API_HANDLERS).filter(operationId => !getOperations(document).some(({ operation }) => operation.operationId === operationId));
+  if (unknown.length > 0) {
+    console.error(`Handlers of operations missing from openapi.json: ${unknown.join(', ')}`);
+    failed += unknown.length;
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} operations do not match the contract`);
+  }
+};
+
+checkContract(parseArgs(process.argv.slice(2))).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
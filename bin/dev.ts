@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+import { ChildProcess, spawn } from 'child_process';
+import * as path from 'path';
+import { LOCAL_API_PORT, applyLocalEnvironment } from '../traffic-stats/backend/src/local/env';
+
+/**
+ * Runs the whole pipeline locally without AWS or Digitraffic: the collector
+ * reads a Digitraffic mock server that replays fixture responses, its
+ * messages go through an in-memory queue to the processor, values are stored
+ * in DynamoDB Local and the API lambdas are served by a Node HTTP server.
+ * The frontend dev server is started against the local API.
+ *
+ *   docker compose up -d dynamodb-local
+ *   npm run dev
+ *
+ * Options:
+ *   --port             port of the API server, defaults to 3000
+ *   --collect-minutes  minutes between hourly collections, defaults to 60, 0 collects only at start
+ *   --record           fetch Digitraffic responses and save them as fixtures before replaying them
+ *   --no-frontend      do not start the frontend dev server
+ *
+ * Environment variables that are already set are kept, e.g. DYNAMODB_ENDPOINT.
+ */
+
+interface DevOptions {
+  port: number;
+  collectMinutes: number;
+  record: boolean;
+  frontend: boolean;
+}
+
+const FRONTEND_DIR = path.join(__dirname, '../traffic-stats/frontend');
+
+const usage = (message: string): never => {
+  console.error(message);
+  console.error('Usage: npm run dev -- [--port 3000] [--collect-minutes 60] [--record] [--no-frontend]');
+  process.exit(1);
+};
+
+const parseArgs = (args: string[]): DevOptions => {
+  const values: { [name: string]: string } = {};
+  const flags = new Set<string>();
+
+  for (let i = 0; i < args.length; i++) {
+    const name = args[i].replace(/^--/, '');
+    if (name === 'record' || name === 'no-frontend') {
+      flags.add(name);
+    } else if (args[i].startsWith('--') && i + 1 < args.length) {
+      values[name] = args[++i];
+    } else {
+      usage(`Unknown argument ${args[i]}`);
+    }
+  }
+
+  const port = values.port ? parseInt(values.port, 10) : LOCAL_API_PORT;
+  const collectMinutes = values['collect-minutes'] ? parseInt(values['collect-minutes'], 10) : 60;
+  if (isNaN(port) || port <= 0) usage('Parameter --port must be a port number');
+  if (isNaN(collectMinutes) || collectMinutes < 0) usage('Parameter --collect-minutes must be a non-negative number');
+
+  return {
+    port,
+    collectMinutes,
+    record: flags.has('record'),
+    frontend: !flags.has('no-frontend'),
+  };
+};
+
+const startFrontend = (apiPort: number): ChildProcess => {
+  return spawn('npm', ['run', 'dev'], {
+    cwd: FRONTEND_DIR,
+    stdio: 'inherit',
+    env: { ...process.env, VITE_API_URL: `http://localhost:${apiPort}/` },
+  });
+};
+
+const dev = async (options: DevOptions) => {
+  applyLocalEnvironment();
+  // Lambdas read the environment when they are loaded
+  const { runCollection, startLocalEnvironment } = await import('../traffic-stats/backend/src/local');
+
+  const environment = await startLocalEnvironment({ apiPort: options.port, record: options.record });
+  const frontend = options.frontend ? startFrontend(options.port) : undefined;
+
+  let collecting = false;
+  const collect = async () => {
+    if (collecting) {
+      return;
+    }
+    collecting = true;
+    try {
+      await runCollection('hourly');
+    } catch (error) {
+      console.error('Collection failed:', error);
+    } finally {
+      collecting = false;
+    }
+  };
+  const timer = options.collectMinutes > 0 ? setInterval(collect, options.collectMinutes * 60 * 1000) : undefined;
+
+  const stop = async () => {
+    clearInterval(timer);
+    frontend?.kill();
+    await environment.close();
+    process.exit(0);
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+};
+
+dev(parseArgs(process.argv.slice(2))).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
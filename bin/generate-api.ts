@@ -0,0 +1,210 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { OpenApiDocument, OperationObject, SchemaObject, getJsonSchema, getOperations } from '../traffic-stats/common/api/spec';
+
+/**
+ * Generates the API types and client from the OpenAPI document
+ * traffic-stats/common/api/openapi.json, the single source of the API contract.
+ *
+ *   npm run generate-api             writes types.ts and client.ts next to the document
+ *   npm run generate-api -- --check  fails if the generated files are not up to date
+ */
+
+const API_DIR = path.join(__dirname, '../traffic-stats/common/api');
+const HEADER = '// Generated from openapi.json by bin/generate-api.ts, do not edit.\n';
+
+const getRefName = (ref: string): string => ref.replace('#/components/schemas/', '');
+
+const toPascalCase = (name: string): string => name.charAt(0).toUpperCase() + name.slice(1);
+
+const comment = (description: string | undefined, indent: string): string => {
+  return description ? `${indent}/** ${description} */\n` : '';
+};
+
+const formatType = (schema: SchemaObject, indent: string): string => {
+  const type = formatNonNullType(schema, indent);
+  return schema.nullable ? `${type} | null` : type;
+};
+
+const formatNonNullType = (schema: SchemaObject, indent: string): string => {
+  if (schema.$ref) {
+    return getRefName(schema.$ref);
+  }
+  if (schema.oneOf) {
+    return schema.oneOf.map(option => formatType(option, indent)).join(' | ');
+  }
+  if (schema.enum) {
+    return schema.enum.map(value => `'${value}'`).join(' | ');
+  }
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const items = schema.items as SchemaObject;
+      const itemType = formatType(items, indent);
+      const isUnion = items.nullable || items.oneOf || (items.enum && items.enum.length > 1);
+      return isUnion ? `(${itemType})[]` : `${itemType}[]`;
+    }
+    case 'object':
+      if (schema.properties) {
+        return `{\n${formatProperties(schema, `${indent}  `)}${indent}}`;
+      }
+      if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        return `{ [key: string]: ${formatType(schema.additionalProperties, indent)} }`;
+      }
+      return '{ [key: string]: unknown }';
+    default:
+      return 'unknown';
+  }
+};
+
+const formatProperties = (schema: SchemaObject, indent: string): string => {
+  const required = schema.required || [];
+  return Object.entries(schema.properties || {})
+    .map(([name, property]) => {
+      const optional = required.includes(name) ? '' : '?';
+      return `${comment(property.description, indent)}${indent}${name}${optional}: ${formatType(property, indent)};\n`;
+    })
+    .join('');
+};
+
+const generateSchemaTypes = (document: OpenApiDocument): string => {
+  return Object.entries(document.components.schemas)
+    .map(([name, schema]) => {
+      if (schema.type === 'object' && schema.properties) {
+        return `${comment(schema.description, '')}export interface ${name} {\n${formatProperties(schema, '  ')}}\n`;
+      }
+      return `${comment(schema.description, '')}export type ${name} = ${formatType(schema, '')};\n`;
+    })
+    .join('\n');
+};
+
+// File exports are downloaded with links, so the format of JSON operations is not a client parameter
+const getClientParameters = (operation: OperationObject) => {
+  const parameters = operation.parameters || [];
+  return getJsonSchema(operation) ? parameters.filter(parameter => parameter.name !== 'format') : parameters;
+};
+
+const getResponseType = (operation: OperationObject): string => {
+  const schema = getJsonSchema(operation);
+  return schema ? formatType(schema, '') : 'string';
+};
+
+// Large files are redirected to S3, the caller's request function has to follow the redirect
+const getSummary = (operation: OperationObject): string | undefined => {
+  return operation.responses['303'] && !getJsonSchema(operation)
+    ? `${operation.summary}. Large files respond with 303 and a Location header, the request function must follow the redirect`
+    : operation.summary;
+};
+
+const generateParameterTypes = (document: OpenApiDocument): string => {
+  return getOperations(document)
+    .filter(({ operation }) => getClientParameters(operation).length > 0)
+    .map(({ operation }) => {
+      const properties = getClientParameters(operation)
+        .map(parameter => `${comment(parameter.description, '  ')}  ${parameter.name}${parameter.required ? '' : '?'}: ${formatType(parameter.schema, '  ')};\n`)
+        .join('');
+      return `export interface ${toPascalCase(operation.operationId)}Params {\n${properties}}\n`;
+    })
+    .join('\n');
+};
+
+const generateClient = (document: OpenApiDocument): string => {
+  const operations = getOperations(document);
+  const imports = new Set<string>();
+
+  const methods = operations.map(({ path: routePath, method, operation }) => {
+    const parameters = getClientParameters(operation);
+    const responseType = getResponseType(operation);
+    const bodyType = operation.requestBody ? getRefName(operation.requestBody.content['application/json'].schema.$ref as string) : undefined;
+    const paramsType = `${toPascalCase(operation.operationId)}Params`;
+    const hasRequired = parameters.some(parameter => parameter.required);
+
+    for (const name of `${responseType} ${bodyType || ''}`.match(/\b[A-Z]\w*/g) || []) {
+      imports.add(name);
+    }
+    if (parameters.length > 0) {
+      imports.add(paramsType);
+    }
+
+    const args = [
+      parameters.length > 0 ? `params: ${paramsType}${hasRequired ? '' : ' = {}'}` : undefined,
+      bodyType ? `body: ${bodyType}` : undefined,
+    ].filter(arg => arg).join(', ');
+    const pathTemplate = routePath.includes('{')
+      ? `\`${routePath.replace(/\{(\w+)\}/g, (_, name) => `\${encodeURIComponent(params.${name})}`)}\``
+      : `'${routePath}'`;
+    const query = parameters.filter(parameter => parameter.in === 'query');
+    const request = [
+      `method: '${method.toUpperCase()}'`,
+      `path: ${pathTemplate}`,
+      query.length > 0 ? `query: { ${query.map(parameter => `${parameter.name}: params.${parameter.name}`).join(', ')} }` : undefined,
+      bodyType ? 'body' : undefined,
+    ].filter(part => part).join(', ');
+
+    return `${comment(getSummary(operation), '  ')}  ${operation.operationId}: (${args}) => request<${responseType}>({ ${request} }),\n`;
+  });
+
+  return `${HEADER}import type {
+${Array.from(imports).sort().map(name => `  ${name},\n`).join('')}} from './types';
+
+export interface ApiRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // Path relative to the API root, e.g. /traffic/regions
+  path: string;
+  query?: { [name: string]: string | number | undefined };
+  body?: unknown;
+}
+
+/**
+ * Sends a request and resolves with the parsed response body. Requests
+ * are sent by the caller, so the client works with any HTTP library.
+ */
+export type RequestFunction = <T>(request: ApiRequest) => Promise<T>;
+
+/**
+ * Typed client with a method for each operation of the API
+ */
+export const createApiClient = (request: RequestFunction) => ({
+${methods.join('')}});
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`;
+};
+
+const main = () => {
+  const check = process.argv.includes('--check');
+  const document: OpenApiDocument = JSON.parse(fs.readFileSync(path.join(API_DIR, 'openapi.json'), 'utf8'));
+
+  const files: { [name: string]: string } = {
+    'types.ts': `${HEADER}\n${generateSchemaTypes(document)}\n${generateParameterTypes(document)}`,
+    'client.ts': generateClient(document),
+  };
+
+  let stale = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const file = path.join(API_DIR, name);
+    const current = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined;
+    if (current === content) {
+      console.log(`${name} is up to date`);
+    } else if (check) {
+      console.error(`${name} is not up to date, run npm run generate-api`);
+      stale++;
+    } else {
+      fs.writeFileSync(file, content);
+      console.log(`Wrote ${name}`);
+    }
+  }
+
+  if (stale > 0) {
+    process.exit(1);
+  }
+};
+
+main();
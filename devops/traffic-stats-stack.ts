@@ -5,6 +5,7 @@ import * as lambdaNodejs from 'aws-cdk-lib/aws-lambda-nodejs';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as sqs from 'aws-cdk-lib/aws-sqs';
+import * as sns from 'aws-cdk-lib/aws-sns';
 import * as events from 'aws-cdk-lib/aws-events';
 import * as targets from 'aws-cdk-lib/aws-events-targets';
 import * as iam from 'aws-cdk-lib/aws-iam';
@@ -15,9 +16,32 @@ import * as s3deploy from 'aws-cdk-lib/aws-s3-deployment';
 import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
 import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
 import * as fs from 'fs';
+import { Corridor } from '../traffic-stats/common/interfaces';
 
 const DEVELOPMENT_ENV = false;
 
+// Monitoring regions collected and served by the API, see traffic-stats/common/regions.ts
+const ACTIVE_REGIONS = ['tampere', 'helsinki', 'turku'];
+
+// Raw values expire from DynamoDB after the retention period, hourly rollups are kept.
+// Values are archived to S3 a few days after measuring, well before they expire.
+const RAW_RETENTION_DAYS = 90;
+const ARCHIVE_AFTER_DAYS = 2;
+
+// High-frequency mode collects the 5 minute sliding window sensors every five minutes.
+// Their values are kept for a shorter time than the other raw values.
+const FIVE_MINUTE_COLLECTION = false;
+const SLIDING_RETENTION_DAYS = 14;
+
+// Hosts that alert rules may post webhook notifications to, e.g. 'hooks.slack.com'.
+// Webhook rules are rejected while the list is empty.
+const ALERT_WEBHOOK_HOSTS: string[] = [];
+
+// Corridors served by the API, stations in driving order with the sensor direction
+// along the corridor and the distance to the next station measured along the road.
+// See traffic-stats/common/corridors.ts, no corridors are served while the list is empty.
+const CORRIDORS: Corridor[] = [];
+
 export class TrafficStatsStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props?: cdk.StackProps) {
     super(scope, id, props);
@@ -28,6 +52,7 @@ export class TrafficStatsStack extends cdk.Stack {
       sortKey: { name: 'compositeKey', type: dynamodb.AttributeType.STRING },
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       removalPolicy: DEVELOPMENT_ENV ? cdk.RemovalPolicy.DESTROY : cdk.RemovalPolicy.RETAIN,
+      timeToLiveAttribute: 'expiresAt',
     });
 
     // Add Global Secondary Index (GSI) for querying by date
@@ -38,6 +63,53 @@ export class TrafficStatsStack extends cdk.Stack {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // Create DynamoDB table for the station registry maintained by the collector
+    const stationRegistryTable = new dynamodb.Table(this, `StationRegistryTable-${id}`, {
+      partitionKey: { name: 'stationId', type: dynamodb.AttributeType.NUMBER },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: DEVELOPMENT_ENV ? cdk.RemovalPolicy.DESTROY : cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Create DynamoDB table for anomalies found by the anomaly detector
+    const anomalyTable = new dynamodb.Table(this, `AnomalyTable-${id}`, {
+      partitionKey: { name: 'date', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'anomalyKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: DEVELOPMENT_ENV ? cdk.RemovalPolicy.DESTROY : cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Create DynamoDB table for alert rules evaluated by the processor
+    const alertRulesTable = new dynamodb.Table(this, `AlertRulesTable-${id}`, {
+      partitionKey: { name: 'ruleId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: DEVELOPMENT_ENV ? cdk.RemovalPolicy.DESTROY : cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Create SNS topic for alert notifications, subscribe e.g. an email address to it
+    const alertTopic = new sns.Topic(this, `AlertTopic-${id}`, {
+      displayName: 'Traffic alerts',
+    });
+
+    // Create S3 bucket for raw values archived from DynamoDB, also holds large exports under exports/
+    const archiveBucket = new s3.Bucket(this, `ArchiveBucket-${id}`, {
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      removalPolicy: DEVELOPMENT_ENV ? cdk.RemovalPolicy.DESTROY : cdk.RemovalPolicy.RETAIN,
+      autoDeleteObjects: DEVELOPMENT_ENV,
+      lifecycleRules: [{
+        // Archived days are rarely read, move them to cheaper storage classes
+        transitions: [
+          { storageClass: s3.StorageClass.INFREQUENT_ACCESS, transitionAfter: cdk.Duration.days(30) },
+          { storageClass: s3.StorageClass.GLACIER_INSTANT_RETRIEVAL, transitionAfter: cdk.Duration.days(180) },
+        ],
+      }, {
+        // Exports are only downloaded through short-lived presigned URLs
+        prefix: 'exports/',
+        expiration: cdk.Duration.days(1),
+      }],
+    });
+
     // Create SQS queue for traffic data collection
     const trafficDataQueue = new sqs.Queue(this, `TrafficDataQueue-${id}`, {
       visibilityTimeout: cdk.Duration.seconds(300),
@@ -49,9 +121,13 @@ export class TrafficStatsStack extends cdk.Stack {
       runtime: lambda.Runtime.NODEJS_20_X,
       entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/collector/index.ts'),
       handler: 'handler',
-      timeout: cdk.Duration.seconds(60),
+      timeout: cdk.Duration.seconds(180), // leaves room for retries of failing stations
       environment: {
         SQS_QUEUE_URL: trafficDataQueue.queueUrl,
+        STATION_REGISTRY_TABLE_NAME: stationRegistryTable.tableName,
+        ACTIVE_REGIONS: ACTIVE_REGIONS.join(','),
+        FETCH_CONCURRENCY: '5',
+        REQUEST_TIMEOUT_MS: '10000',
       },
       bundling: {
         externalModules: ['aws-sdk'],
@@ -61,12 +137,24 @@ export class TrafficStatsStack extends cdk.Stack {
     // Allow collector Lambda to send messages to SQS
     trafficDataQueue.grantSendMessages(collectorLambda);
 
+    // Allow collector Lambda to maintain the station registry
+    stationRegistryTable.grantReadWriteData(collectorLambda);
+
     // Schedule the collector Lambda to run every hour
     const rule = new events.Rule(this, `HourlyRule-${id}`, {
       schedule: events.Schedule.cron({ minute: '5' }),
     });
     rule.addTarget(new targets.LambdaFunction(collectorLambda));
 
+    // Schedule the high-frequency collection, disabled unless FIVE_MINUTE_COLLECTION is set
+    const fiveMinuteRule = new events.Rule(this, `FiveMinuteRule-${id}`, {
+      schedule: events.Schedule.cron({ minute: '*/5' }),
+      enabled: FIVE_MINUTE_COLLECTION,
+    });
+    fiveMinuteRule.addTarget(new targets.LambdaFunction(collectorLambda, {
+      event: events.RuleTargetInput.fromObject({ mode: 'fiveMinute' }),
+    }));
+
     // Create Lambda function for processing traffic data from SQS
     const processorLambda = new lambdaNodejs.NodejsFunction(this, `TrafficProcessorLambda-${id}`, {
       runtime: lambda.Runtime.NODEJS_20_X,
@@ -75,6 +163,11 @@ export class TrafficStatsStack extends cdk.Stack {
       timeout: cdk.Duration.seconds(60),
       environment: {
         DYNAMODB_TABLE_NAME: trafficDataTable.tableName,
+        RAW_RETENTION_DAYS: String(RAW_RETENTION_DAYS),
+        SLIDING_RETENTION_DAYS: String(SLIDING_RETENTION_DAYS),
+        ALERT_RULES_TABLE_NAME: alertRulesTable.tableName,
+        ALERT_TOPIC_ARN: alertTopic.topicArn,
+        ALERT_WEBHOOK_HOSTS: ALERT_WEBHOOK_HOSTS.join(','),
       },
       bundling: {
         externalModules: ['aws-sdk'],
@@ -84,17 +177,81 @@ export class TrafficStatsStack extends cdk.Stack {
     // Allow processor Lambda to write to DynamoDB
     trafficDataTable.grantWriteData(processorLambda);
 
+    // Allow processor Lambda to evaluate alert rules and send notifications
+    alertRulesTable.grantReadWriteData(processorLambda);
+    alertTopic.grantPublish(processorLambda);
+
     // Grant permissions to the processor Lambda to receive messages from SQS
     processorLambda.addToRolePolicy(new iam.PolicyStatement({
       actions: ['sqs:ReceiveMessage', 'sqs:DeleteMessage', 'sqs:GetQueueAttributes'],
       resources: [trafficDataQueue.queueArn],
     }));
 
-    // Configure SQS as event source for processor Lambda
+    // Configure SQS as event source for processor Lambda, only the messages
+    // returned in batchItemFailures are retried
     processorLambda.addEventSource(new eventSources.SqsEventSource(trafficDataQueue, {
       batchSize: 10,
+      reportBatchItemFailures: true,
     }));
 
+    // Create Lambda function for archiving raw values to S3
+    const archiverLambda = new lambdaNodejs.NodejsFunction(this, `ArchiverLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/archiver/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.minutes(10),
+      memorySize: 512,
+      environment: {
+        DYNAMODB_TABLE_NAME: trafficDataTable.tableName,
+        STATION_REGISTRY_TABLE_NAME: stationRegistryTable.tableName,
+        ARCHIVE_BUCKET_NAME: archiveBucket.bucketName,
+        ARCHIVE_AFTER_DAYS: String(ARCHIVE_AFTER_DAYS),
+        RAW_RETENTION_DAYS: String(RAW_RETENTION_DAYS),
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    trafficDataTable.grantReadData(archiverLambda);
+    stationRegistryTable.grantReadData(archiverLambda);
+    archiveBucket.grantPut(archiverLambda);
+    // Missing days are found by listing the archive
+    archiveBucket.grantRead(archiverLambda);
+
+    // Schedule the archiver Lambda to run daily
+    const archiveRule = new events.Rule(this, `DailyArchiveRule-${id}`, {
+      schedule: events.Schedule.cron({ minute: '30', hour: '2' }),
+    });
+    archiveRule.addTarget(new targets.LambdaFunction(archiverLambda));
+
+    // Create Lambda function for detecting anomalies in the collected hours
+    const anomalyDetectorLambda = new lambdaNodejs.NodejsFunction(this, `AnomalyDetectorLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/anomaly-detector/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.minutes(5),
+      environment: {
+        DYNAMODB_TABLE_NAME: trafficDataTable.tableName,
+        STATION_REGISTRY_TABLE_NAME: stationRegistryTable.tableName,
+        ANOMALY_TABLE_NAME: anomalyTable.tableName,
+        BASELINE_DAYS: '56',
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    trafficDataTable.grantReadData(anomalyDetectorLambda);
+    stationRegistryTable.grantReadData(anomalyDetectorLambda);
+    anomalyTable.grantWriteData(anomalyDetectorLambda);
+
+    // Schedule the anomaly detector after the collected hour has been processed
+    const anomalyRule = new events.Rule(this, `HourlyAnomalyRule-${id}`, {
+      schedule: events.Schedule.cron({ minute: '20' }),
+    });
+    anomalyRule.addTarget(new targets.LambdaFunction(anomalyDetectorLambda));
+
     // Create Lambda functions for API endpoints
     const dailyDataLambda = new lambdaNodejs.NodejsFunction(this, `DailyDataLambda-${id}`, {
       runtime: lambda.Runtime.NODEJS_20_X,
@@ -116,15 +273,182 @@ export class TrafficStatsStack extends cdk.Stack {
       timeout: cdk.Duration.seconds(30),
       environment: {
         DYNAMODB_TABLE_NAME: trafficDataTable.tableName,
+        STATION_REGISTRY_TABLE_NAME: stationRegistryTable.tableName,
+        RAW_RETENTION_DAYS: String(RAW_RETENTION_DAYS),
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    const timeseriesLambda = new lambdaNodejs.NodejsFunction(this, `TimeseriesLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/timeseries/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: trafficDataTable.tableName,
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    const regionsLambda = new lambdaNodejs.NodejsFunction(this, `RegionsLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/regions/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(10),
+      environment: {
+        ACTIVE_REGIONS: ACTIVE_REGIONS.join(','),
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    const stationsLambda = new lambdaNodejs.NodejsFunction(this, `StationsLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/stations/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(10),
+      environment: {
+        STATION_REGISTRY_TABLE_NAME: stationRegistryTable.tableName,
+        ACTIVE_REGIONS: ACTIVE_REGIONS.join(','),
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    const coverageLambda = new lambdaNodejs.NodejsFunction(this, `CoverageLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/coverage/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: trafficDataTable.tableName,
+        STATION_REGISTRY_TABLE_NAME: stationRegistryTable.tableName,
+        ACTIVE_REGIONS: ACTIVE_REGIONS.join(','),
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    const compareLambda = new lambdaNodejs.NodejsFunction(this, `CompareLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/compare/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: trafficDataTable.tableName,
+        STATION_REGISTRY_TABLE_NAME: stationRegistryTable.tableName,
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    const corridorsLambda = new lambdaNodejs.NodejsFunction(this, `CorridorsLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/corridors/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: trafficDataTable.tableName,
+        STATION_REGISTRY_TABLE_NAME: stationRegistryTable.tableName,
+        ACTIVE_REGIONS: ACTIVE_REGIONS.join(','),
+        CORRIDORS: JSON.stringify(CORRIDORS),
       },
       bundling: {
         externalModules: ['aws-sdk'],
       },
     });
 
+    const anomaliesLambda = new lambdaNodejs.NodejsFunction(this, `AnomaliesLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/anomalies/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        ANOMALY_TABLE_NAME: anomalyTable.tableName,
+        ACTIVE_REGIONS: ACTIVE_REGIONS.join(','),
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    const alertRulesLambda = new lambdaNodejs.NodejsFunction(this, `AlertRulesLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/alert-rules/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(10),
+      environment: {
+        ALERT_RULES_TABLE_NAME: alertRulesTable.tableName,
+        ALERT_WEBHOOK_HOSTS: ALERT_WEBHOOK_HOSTS.join(','),
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    const archiveLambda = new lambdaNodejs.NodejsFunction(this, `ArchiveLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/archive/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        ARCHIVE_BUCKET_NAME: archiveBucket.bucketName,
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    const exportLambda = new lambdaNodejs.NodejsFunction(this, `ExportLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/export/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(60),
+      memorySize: 1024,
+      environment: {
+        DYNAMODB_TABLE_NAME: trafficDataTable.tableName,
+        EXPORT_BUCKET_NAME: archiveBucket.bucketName,
+      },
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
+    const sensorsLambda = new lambdaNodejs.NodejsFunction(this, `SensorsLambda-${id}`, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../traffic-stats/backend/src/lambdas/api/sensors/index.ts'),
+      handler: 'handler',
+      timeout: cdk.Duration.seconds(30),
+      bundling: {
+        externalModules: ['aws-sdk'],
+      },
+    });
+
     // Grant read access to DynamoDB for API Lambda functions
     trafficDataTable.grantReadData(dailyDataLambda);
     trafficDataTable.grantReadData(hourlyAverageLambda);
+    trafficDataTable.grantReadData(timeseriesLambda);
+    trafficDataTable.grantReadData(coverageLambda);
+    trafficDataTable.grantReadData(compareLambda);
+    trafficDataTable.grantReadData(corridorsLambda);
+    stationRegistryTable.grantReadData(stationsLambda);
+    stationRegistryTable.grantReadData(hourlyAverageLambda);
+    stationRegistryTable.grantReadData(coverageLambda);
+    stationRegistryTable.grantReadData(compareLambda);
+    stationRegistryTable.grantReadData(corridorsLambda);
+    archiveBucket.grantRead(archiveLambda);
+    trafficDataTable.grantReadData(exportLambda);
+    archiveBucket.grantReadWrite(exportLambda, 'exports/*');
+    anomalyTable.grantReadData(anomaliesLambda);
+    alertRulesTable.grantReadWriteData(alertRulesLambda);
 
     // Create API Gateway
     const api = new apigateway.RestApi(this, `TrafficDataApi-${id}`, {
@@ -154,12 +478,85 @@ export class TrafficStatsStack extends cdk.Stack {
     const hourlyAverageResource = stationIdResource.addResource('hourly-average');
     hourlyAverageResource.addMethod('GET', new apigateway.LambdaIntegration(hourlyAverageLambda));
 
+    // Time series endpoint
+    const timeseriesResource = stationIdResource.addResource('timeseries');
+    timeseriesResource.addMethod('GET', new apigateway.LambdaIntegration(timeseriesLambda));
+
+    // Data completeness endpoints for a station and a region
+    const coverageResource = stationIdResource.addResource('coverage');
+    coverageResource.addMethod('GET', new apigateway.LambdaIntegration(coverageLambda));
+
+    // Raw value export endpoint, hourly averages and stations are exported with ?format=
+    const exportResource = stationIdResource.addResource('export');
+    exportResource.addMethod('GET', new apigateway.LambdaIntegration(exportLambda));
+
+    // Archived raw values endpoint
+    const archiveResource = stationIdResource.addResource('archive');
+    archiveResource.addMethod('GET', new apigateway.LambdaIntegration(archiveLambda));
+
+    // Regions endpoint
+    const regionsResource = trafficResource.addResource('regions');
+    regionsResource.addMethod('GET', new apigateway.LambdaIntegration(regionsLambda));
+    const regionCoverageResource = regionsResource.addResource('{regionId}').addResource('coverage');
+    regionCoverageResource.addMethod('GET', new apigateway.LambdaIntegration(coverageLambda));
+
+    // Anomalies endpoint, filtered with ?region=
+    const anomaliesResource = trafficResource.addResource('anomalies');
+    anomaliesResource.addMethod('GET', new apigateway.LambdaIntegration(anomaliesLambda));
+
+    // Multi-station comparison endpoint
+    const compareResource = trafficResource.addResource('compare');
+    compareResource.addMethod('GET', new apigateway.LambdaIntegration(compareLambda));
+
+    // Corridor list and travel time endpoints
+    const corridorsResource = trafficResource.addResource('corridors');
+    corridorsResource.addMethod('GET', new apigateway.LambdaIntegration(corridorsLambda));
+    const corridorTravelTimeResource = corridorsResource.addResource('{corridorId}').addResource('travel-time');
+    corridorTravelTimeResource.addMethod('GET', new apigateway.LambdaIntegration(corridorsLambda));
+
+    // Sensor catalogue endpoint, filtered with ?quantity= and ?windowMinutes=
+    const sensorsResource = trafficResource.addResource('sensors');
+    sensorsResource.addMethod('GET', new apigateway.LambdaIntegration(sensorsLambda));
+
+    // Alert rule endpoints need the API key of the alert rules usage plan, rules include webhook URLs
+    const alertRulesIntegration = new apigateway.LambdaIntegration(alertRulesLambda);
+    const alertRulesResource = trafficResource.addResource('alerts').addResource('rules');
+    alertRulesResource.addMethod('GET', alertRulesIntegration, { apiKeyRequired: true });
+    alertRulesResource.addMethod('POST', alertRulesIntegration, { apiKeyRequired: true });
+    const alertRuleResource = alertRulesResource.addResource('{ruleId}');
+    alertRuleResource.addMethod('GET', alertRulesIntegration, { apiKeyRequired: true });
+    alertRuleResource.addMethod('PUT', alertRulesIntegration, { apiKeyRequired: true });
+    alertRuleResource.addMethod('DELETE', alertRulesIntegration, { apiKeyRequired: true });
+
+    const alertRulesApiKey = api.addApiKey(`AlertRulesApiKey-${id}`);
+    const alertRulesUsagePlan = api.addUsagePlan(`AlertRulesUsagePlan-${id}`, {
+      throttle: { rateLimit: 5, burstLimit: 10 },
+    });
+    alertRulesUsagePlan.addApiKey(alertRulesApiKey);
+    alertRulesUsagePlan.addApiStage({ stage: api.deploymentStage });
+
+    // Station registry endpoints, list filtered with ?region=
+    const stationsResource = trafficResource.addResource('stations');
+    stationsResource.addMethod('GET', new apigateway.LambdaIntegration(stationsLambda));
+    const registryStationResource = stationsResource.addResource('{stationId}');
+    registryStationResource.addMethod('GET', new apigateway.LambdaIntegration(stationsLambda));
+
     // Export the API URL for the frontend
     new cdk.CfnOutput(this, `ApiUrl-${id}`, {
       value: api.url,
       description: 'The URL of the API Gateway',
     });
 
+    new cdk.CfnOutput(this, `AlertTopicArn-${id}`, {
+      value: alertTopic.topicArn,
+      description: 'SNS topic of the traffic alert notifications',
+    });
+
+    new cdk.CfnOutput(this, `AlertRulesApiKeyId-${id}`, {
+      value: alertRulesApiKey.keyId,
+      description: 'API key for changing alert rules, read its value with aws apigateway get-api-key --include-value --api-key <id>',
+    });
+
     // Create S3 bucket for frontend
     const frontendBucket = new s3.Bucket(this, `FrontendBucket-${id}`, {
       websiteIndexDocument: 'index.html',
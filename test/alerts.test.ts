@@ -0,0 +1,136 @@
+import { Context, SQSEvent, SQSRecord } from 'aws-lambda';
+import { SensorValue, TrafficDataSQSMessage } from '../traffic-stats/common/interfaces';
+import { FakeDynamo } from './helpers/fakeDynamo';
+
+const RULE = {
+  ruleId: '5b7e2c1a-9f3d-4a8e-b6c2-1d0e4f7a9b31',
+  stationId: 23001,
+  sensor: 'KESKINOPEUS_60MIN',
+  operator: 'below' as const,
+  threshold: 50,
+  consecutiveHours: 1,
+  channel: { type: 'sns' as const },
+  enabled: true,
+  createdAt: '2025-03-01T00:00:00.000Z',
+  updatedAt: '2025-03-01T00:00:00.000Z',
+};
+
+const speed = (hour: string, value: number): SensorValue => ({
+  id: 5054,
+  stationId: 23001,
+  name: 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA1',
+  shortName: 'km/h1',
+  timeWindowStart: `${hour}:00:00Z`,
+  timeWindowEnd: `${hour}:59:59Z`,
+  measuredTime: `${hour}:59:59Z`,
+  unit: 'km/h',
+  value,
+});
+
+const toRecord = (messageId: string, sensorValues: SensorValue[]): SQSRecord => {
+  const message: TrafficDataSQSMessage = {
+    collected: sensorValues[0].measuredTime,
+    trafficData: [{ id: 23001, tmsNumber: 1401, dataUpdatedTime: sensorValues[0].measuredTime, sensorValues }],
+  } as TrafficDataSQSMessage;
+  return { messageId, body: JSON.stringify(message) } as SQSRecord;
+};
+
+describe('alert rules', () => {
+  let alerts: typeof import('../traffic-stats/backend/src/common/alerts');
+  let processor: typeof import('../traffic-stats/backend/src/lambdas/processor');
+  let localNotifier: typeof import('../traffic-stats/backend/src/common/notifiers').localNotifier;
+  let send: jest.SpyInstance;
+
+  beforeAll(async () => {
+    process.env.DYNAMODB_TABLE_NAME = 'TrafficData';
+    process.env.ALERT_RULES_TABLE_NAME = 'AlertRules';
+    process.env.ALERT_NOTIFIER = 'local';
+    process.env.ALERT_WEBHOOK_HOSTS = 'hooks.example.com, Alerts.Example.org';
+
+    const { docClient } = await import('../traffic-stats/backend/src/common/dynamo');
+    alerts = await import('../traffic-stats/backend/src/common/alerts');
+    processor = await import('../traffic-stats/backend/src/lambdas/processor');
+    ({ localNotifier } = await import('../traffic-stats/backend/src/common/notifiers'));
+
+    const dynamo = new FakeDynamo({ TrafficData: ['stationId', 'compositeKey'], AlertRules: ['ruleId'] });
+    send = jest.spyOn(docClient, 'send').mockImplementation(dynamo.send as any);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.mocked(console.log).mockRestore();
+  });
+
+  describe('parseAlertRuleInput', () => {
+    const body = { stationId: 23001, sensor: 'KESKINOPEUS_60MIN', operator: 'below', threshold: 50 };
+
+    it('rejects bodies that are not objects', () => {
+      expect(alerts.parseAlertRuleInput(null)).toBe('Request body must be a JSON object');
+      expect(alerts.parseAlertRuleInput([body])).toBe('Request body must be a JSON object');
+      expect(alerts.parseAlertRuleInput('rule')).toBe('Request body must be a JSON object');
+    });
+
+    it('accepts webhooks on the allowed hosts', () => {
+      expect(alerts.parseAlertRuleInput({ ...body, channel: { type: 'webhook', url: 'https://hooks.example.com/T1/B2' } }))
+        .toMatchObject({ channel: { type: 'webhook', url: 'https://hooks.example.com/T1/B2' } });
+      expect(alerts.parseAlertRuleInput({ ...body, channel: { type: 'webhook', url: 'https://alerts.example.org/traffic' } }))
+        .toMatchObject({ channel: { type: 'webhook' } });
+    });
+
+    it('rejects webhooks on other hosts', () => {
+      expect(alerts.parseAlertRuleInput({ ...body, channel: { type: 'webhook', url: 'https://169.254.169.254/latest' } }))
+        .toBe('Webhook host must be one of hooks.example.com, alerts.example.org');
+      expect(alerts.parseAlertRuleInput({ ...body, channel: { type: 'webhook', url: 'https://hooks.example.com.evil.test/' } }))
+        .toBe('Webhook host must be one of hooks.example.com, alerts.example.org');
+      expect(alerts.parseAlertRuleInput({ ...body, channel: { type: 'webhook', url: 'http://hooks.example.com/' } }))
+        .toBe('Webhook channel needs an https url');
+    });
+
+    it('rejects all webhooks when no hosts are allowed', () => {
+      const hosts = process.env.ALERT_WEBHOOK_HOSTS;
+      delete process.env.ALERT_WEBHOOK_HOSTS;
+      try {
+        expect(alerts.parseAlertRuleInput({ ...body, channel: { type: 'webhook', url: 'https://hooks.example.com/' } }))
+          .toBe('Webhook notifications are not enabled');
+      } finally {
+        process.env.ALERT_WEBHOOK_HOSTS = hosts;
+      }
+    });
+  });
+
+  it('reads the rules once per processor invocation and keeps their state between messages', async () => {
+    await alerts.saveAlertRule({ ...RULE, consecutiveHours: 2 });
+    send.mockClear();
+
+    const event: SQSEvent = {
+      Records: [
+        toRecord('message-1', [speed('2025-03-10T06', 42)]),
+        toRecord('message-2', [speed('2025-03-10T07', 38)]),
+      ],
+    };
+    const response = await processor.handler(event, {} as Context, () => undefined);
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(send.mock.calls.filter(([command]) => command.constructor.name === 'ScanCommand')).toHaveLength(1);
+    expect(localNotifier.notifications.map(notification => notification.ruleId)).toEqual([RULE.ruleId]);
+    expect((await alerts.getAlertRule(RULE.ruleId))?.state).toMatchObject({
+      KESKINOPEUS_60MIN_KIINTEA_SUUNTA1: { lastHour: '2025-03-10T07:00:00.000Z', breachedHours: 2 },
+    });
+  });
+
+  it('does not overwrite the state of a rule replaced during evaluation', async () => {
+    await alerts.saveAlertRule({ ...RULE, ruleId: 'c2a1f7d4-0b3e-4d6a-9e58-7f1b2c3d4e5f', consecutiveHours: 3 });
+    const [rule] = (await alerts.getAlertRules()).filter(({ ruleId }) => ruleId === 'c2a1f7d4-0b3e-4d6a-9e58-7f1b2c3d4e5f');
+    // The rule is replaced through the API after the processor has read it
+    await alerts.saveAlertRule({ ...rule, threshold: 40, updatedAt: '2025-03-10T08:30:00.000Z' });
+
+    await alerts.evaluateAlertRules([speed('2025-03-10T08', 30)], [rule]);
+
+    const saved = await alerts.getAlertRule(rule.ruleId);
+    expect(saved).toMatchObject({ threshold: 40, updatedAt: '2025-03-10T08:30:00.000Z' });
+    expect(saved?.state).toBeUndefined();
+  });
+});
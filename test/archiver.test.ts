@@ -0,0 +1,79 @@
+import { Context } from 'aws-lambda';
+import { Station } from '../traffic-stats/common/interfaces';
+import { addDays, toLocalTime } from '../traffic-stats/common/time';
+import { archiveStationDay, listCheckedDays } from '../traffic-stats/backend/src/common/archive';
+import { getRegistryStations } from '../traffic-stats/backend/src/common/stationRegistry';
+
+jest.mock('../traffic-stats/backend/src/common/archive');
+jest.mock('../traffic-stats/backend/src/common/stationRegistry');
+
+describe('archiver', () => {
+  let handler: typeof import('../traffic-stats/backend/src/lambdas/archiver').handler;
+  const today = toLocalTime(new Date()).date;
+  const invoke = (event: object) => handler(event, {} as Context, () => undefined);
+
+  beforeAll(async () => {
+    // The archiver reads the environment when it is loaded
+    process.env.ARCHIVE_AFTER_DAYS = '2';
+    process.env.RAW_RETENTION_DAYS = '5';
+    ({ handler } = await import('../traffic-stats/backend/src/lambdas/archiver'));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.mocked(getRegistryStations).mockResolvedValue([{ id: '23001' }, { id: '23002' }] as Station[]);
+    jest.mocked(archiveStationDay).mockResolvedValue(10);
+    // Station 23001 has archived the day before yesterday, 23002 nothing
+    jest.mocked(listCheckedDays).mockImplementation(async stationId => stationId === 23001 ? [addDays(today, -2)] : []);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const archivedDays = () => jest.mocked(archiveStationDay).mock.calls.map(([stationId, date]) => `${stationId} ${date}`).sort();
+
+  it('archives the days of the retention that have no archive', async () => {
+    const result = await invoke({});
+
+    expect(listCheckedDays).toHaveBeenCalledWith(23001, addDays(today, -4), addDays(today, -2));
+    expect(archivedDays()).toEqual([
+      `23001 ${addDays(today, -4)}`,
+      `23001 ${addDays(today, -3)}`,
+      `23002 ${addDays(today, -4)}`,
+      `23002 ${addDays(today, -3)}`,
+      `23002 ${addDays(today, -2)}`,
+    ]);
+    expect(result).toEqual({ archivedDays: 5, stationsCount: 2, archivedValues: 50 });
+  });
+
+  it('skips the days that are archived or marked empty', async () => {
+    jest.mocked(listCheckedDays).mockResolvedValue([addDays(today, -4), addDays(today, -3), addDays(today, -2)]);
+
+    const result = await invoke({});
+
+    expect(archiveStationDay).not.toHaveBeenCalled();
+    expect(result).toEqual({ archivedDays: 0, stationsCount: 2, archivedValues: 0 });
+  });
+
+  it('archives a given date again', async () => {
+    await invoke({ date: addDays(today, -2), stationIds: [23001] });
+
+    expect(listCheckedDays).not.toHaveBeenCalled();
+    expect(archivedDays()).toEqual([`23001 ${addDays(today, -2)}`]);
+  });
+
+  it('archives the other days and fails when some fail', async () => {
+    jest.mocked(archiveStationDay).mockImplementation(async (stationId, date) => {
+      if (stationId === 23002 && date === addDays(today, -3)) {
+        throw new Error('Throttled');
+      }
+      return 10;
+    });
+
+    await expect(invoke({})).rejects.toThrow(`Failed to archive 1 stations or station days: 23002 ${addDays(today, -3)}`);
+    expect(archiveStationDay).toHaveBeenCalledTimes(5);
+  });
+});
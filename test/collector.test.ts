@@ -0,0 +1,169 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Station } from '../traffic-stats/common/interfaces';
+import { startDigitrafficMock } from '../traffic-stats/backend/src/local/digitrafficMock';
+import { applyLocalEnvironment } from '../traffic-stats/backend/src/local/env';
+import { close } from '../traffic-stats/backend/src/local/server';
+import { FakeDynamo } from './helpers/fakeDynamo';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('collector station registry', () => {
+  let digitraffic: http.Server;
+  let dynamo: FakeDynamo;
+  let runCollection: typeof import('../traffic-stats/backend/src/local').runCollection;
+  let saveRegistryStations: (stations: Station[]) => Promise<void>;
+  let getRegistryStation: (stationId: number) => Promise<Station | undefined>;
+  // Station detail requests answered with 503
+  let failingDetails: string[] = [];
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    digitraffic = await startDigitrafficMock({ port: 0 });
+    process.env.DIGITRAFFIC_TMS_URL = `http://localhost:${(digitraffic.address() as AddressInfo).port}/api/tms/v1`;
+    applyLocalEnvironment();
+
+    // Lambdas read the environment when they are loaded
+    const { docClient } = await import('../traffic-stats/backend/src/common/dynamo');
+    ({ runCollection } = await import('../traffic-stats/backend/src/local'));
+    ({ saveRegistryStations, getRegistryStation } = await import('../traffic-stats/backend/src/common/stationRegistry'));
+
+    dynamo = new FakeDynamo({
+      [process.env.DYNAMODB_TABLE_NAME as string]: ['stationId', 'compositeKey'],
+      [process.env.STATION_REGISTRY_TABLE_NAME as string]: ['stationId'],
+      [process.env.ANOMALY_TABLE_NAME as string]: ['date', 'anomalyKey'],
+      [process.env.ALERT_RULES_TABLE_NAME as string]: ['ruleId'],
+    });
+    jest.spyOn(docClient, 'send').mockImplementation(dynamo.send as any);
+
+    const fetch = global.fetch;
+    jest.spyOn(global, 'fetch').mockImplementation(async (input, init) => {
+      const stationId = String(input).match(/\/stations\/(\d+)$/)?.[1];
+      return stationId && failingDetails.includes(stationId)
+        ? new Response('Service Unavailable', { status: 503 })
+        : fetch(input, init);
+    });
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await close(digitraffic);
+  });
+
+  beforeEach(() => {
+    failingDetails = [];
+  });
+
+  const registryStation = (id: string, updatedAt: string, fields: Partial<Station> = {}): Station => ({
+    id,
+    name: `station_${id}`,
+    lat: 61.47,
+    lon: 23.76,
+    collectionStatus: 'GATHERING',
+    municipality: 'Tampere',
+    direction1Municipality: 'Helsinki',
+    direction2Municipality: 'Tampere',
+    roadNumber: 3,
+    tmsNumber: 1401,
+    regions: ['tampere'],
+    sensors: [5054, 5055],
+    updatedAt,
+    ...fields,
+  });
+
+  it('keeps the registry details of stations whose details cannot be fetched', async () => {
+    const stale = new Date(Date.now() - 2 * DAY_MS).toISOString();
+    await saveRegistryStations([registryStation('23001', stale, { municipality: 'Ylöjärvi', roadNumber: 65 })]);
+    failingDetails = ['23001'];
+
+    await runCollection('hourly');
+
+    expect(await getRegistryStation(23001)).toMatchObject({
+      municipality: 'Ylöjärvi',
+      direction1Municipality: 'Helsinki',
+      direction2Municipality: 'Tampere',
+      roadNumber: 65,
+      updatedAt: stale,
+    });
+  });
+
+  it('refreshes the details and update time of stale stations', async () => {
+    const stale = new Date(Date.now() - 2 * DAY_MS).toISOString();
+    await saveRegistryStations([registryStation('23001', stale, { municipality: 'Ylöjärvi', roadNumber: 65 })]);
+
+    await runCollection('hourly');
+
+    const station = await getRegistryStation(23001);
+    expect(station?.municipality).not.toBe('Ylöjärvi');
+    expect(station?.roadNumber).not.toBe(65);
+    expect(new Date(station?.updatedAt as string).getTime()).toBeGreaterThan(Date.now() - 60000);
+  });
+
+  it('stores the sensor IDs of the stations', async () => {
+    // Stations stored before the registry had sensors are refreshed
+    await saveRegistryStations([registryStation('23001', new Date().toISOString(), { sensors: undefined })]);
+
+    await runCollection('hourly');
+
+    expect((await getRegistryStation(23001))?.sensors).toEqual([5054, 5055, 5056, 5057, 5116, 5117, 5118, 5119]);
+  });
+
+  it('updates the collection status of stations that are no longer gathering', async () => {
+    const updatedAt = new Date().toISOString();
+    await saveRegistryStations([registryStation('23004', updatedAt)]);
+
+    await runCollection('hourly');
+
+    expect(await getRegistryStation(23004)).toMatchObject({
+      collectionStatus: 'REMOVED_PERMANENTLY',
+      municipality: 'Tampere',
+      roadNumber: 3,
+      updatedAt,
+    });
+  });
+
+  it('reads the stations of five minute runs from the registry', async () => {
+    await runCollection('hourly');
+    jest.mocked(global.fetch).mockClear();
+    jest.mocked(console.log).mockClear();
+
+    await runCollection('fiveMinute');
+
+    expect(jest.mocked(global.fetch).mock.calls.map(([input]) => String(input))
+      .filter(url => /\/stations(\/datex2|\/\d+)?$/.test(url))).toEqual([]);
+    const fetchedStations = jest.mocked(console.log).mock.calls
+      .map(([message]) => String(message).match(/^Fetching data for station (\d+)/)?.[1])
+      .filter(stationId => stationId);
+    expect(fetchedStations.sort()).toEqual(['11101', '23001', '23002', '23003']);
+  });
+
+  it('reports the chunks of a failed batch and sends the later batches', async () => {
+    const { sendChunks } = await import('../traffic-stats/backend/src/lambdas/collector');
+    const { getMessageQueue } = await import('../traffic-stats/backend/src/common/queue');
+    const queue = getMessageQueue();
+    const sendBatch = jest.spyOn(queue, 'sendBatch')
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(Object.assign(new Error('Access denied'), { $metadata: { httpStatusCode: 403 } }))
+      .mockResolvedValueOnce([]);
+    const messages = Array.from({ length: 25 }, (_, chunkIndex) => ({
+      collected: '2026-01-01T00:00:00.000Z',
+      mode: 'hourly' as const,
+      runId: 'run',
+      chunkIndex,
+      chunkTotal: 25,
+      stationCount: 0,
+      trafficData: [],
+    }));
+
+    try {
+      await expect(sendChunks('local', messages)).resolves.toEqual({
+        sentChunks: 15,
+        failedChunks: [10, 11, 12, 13, 14, 15, 16, 17, 18, 19],
+      });
+      expect(sendBatch).toHaveBeenCalledTimes(3);
+    } finally {
+      sendBatch.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,193 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import openapi from '../traffic-stats/common/api/openapi.json';
+import { checkResponse, getExampleParameters } from '../traffic-stats/common/api/contract';
+import { OpenApiDocument, Operation, getOperations } from '../traffic-stats/common/api/spec';
+import { SensorValue } from '../traffic-stats/common/interfaces';
+import { startDigitrafficMock } from '../traffic-stats/backend/src/local/digitrafficMock';
+import { applyLocalEnvironment } from '../traffic-stats/backend/src/local/env';
+import { close } from '../traffic-stats/backend/src/local/server';
+import type { LocalRequest } from '../traffic-stats/backend/src/local/apiServer';
+import { FakeDynamo } from './helpers/fakeDynamo';
+
+/**
+ * Calls the API handlers in-process and validates their responses against
+ * openapi.json. Tables are kept in memory and Digitraffic is replaced by the
+ * mock server of the local environment, so the test needs no network.
+ */
+
+const document = openapi as unknown as OpenApiDocument;
+const HOUR_MS = 60 * 60 * 1000;
+const HISTORY_DAYS = 28;
+const RULE_ID = '2f1c7a52-6a1e-4c8e-9d1b-0c5b8f1e6a11';
+
+// Parameters of operations whose required parameters have no example in the document
+const PARAMETER_OVERRIDES: { [operationId: string]: { [name: string]: string } } = {
+  getAlertRule: { ruleId: RULE_ID },
+};
+
+const HOURLY_SENSORS = [
+  { name: 'OHITUKSET_60MIN_KIINTEA_SUUNTA1', unit: 'kpl/h', base: 800 },
+  { name: 'OHITUKSET_60MIN_KIINTEA_SUUNTA2', unit: 'kpl/h', base: 700 },
+  { name: 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA1', unit: 'km/h', base: 90 },
+  { name: 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA2', unit: 'km/h', base: 88 },
+];
+
+// Hourly values of the previous weeks, so rollup based endpoints have data for their default periods
+const getHistory = (stationIds: number[], now: Date): SensorValue[] => {
+  const currentHour = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS;
+  const values: SensorValue[] = [];
+  for (let start = currentHour - HISTORY_DAYS * 24 * HOUR_MS; start < currentHour - HOUR_MS; start += HOUR_MS) {
+    const hour = new Date(start).getUTCHours();
+    for (const stationId of stationIds) {
+      HOURLY_SENSORS.forEach(({ name, unit, base }, index) => {
+        values.push({
+          id: 5000 + index,
+          stationId,
+          name,
+          shortName: name,
+          timeWindowStart: new Date(start).toISOString(),
+          timeWindowEnd: new Date(start + HOUR_MS).toISOString(),
+          measuredTime: new Date(start + HOUR_MS).toISOString(),
+          unit,
+          value: unit === 'km/h' ? base - (hour % 5) : Math.round(base * (0.2 + Math.sin(Math.PI * hour / 24)) + (start / HOUR_MS) % 7),
+        });
+      });
+    }
+  }
+  return values;
+};
+
+describe('API contract', () => {
+  const operations = getOperations(document);
+  let digitraffic: http.Server;
+  let dynamo: FakeDynamo;
+  let invokeApi: (request: LocalRequest) => Promise<{ statusCode: number; headers?: { [name: string]: unknown }; body: string }>;
+  let apiHandlers: { [operationId: string]: unknown };
+
+  const call = async (operation: Operation, pathParameters: { [name: string]: string }, request: Partial<LocalRequest> = {}) => {
+    const result = await invokeApi({
+      method: operation.method.toUpperCase(),
+      path: operation.path.replace(/\{(\w+)\}/g, (_, name) => pathParameters[name]),
+      ...request,
+    });
+    return {
+      statusCode: result.statusCode,
+      contentType: result.headers?.['Content-Type'] as string | undefined,
+      body: result.body,
+    };
+  };
+
+  const getOperation = (operationId: string) => operations.find(({ operation }) => operation.operationId === operationId) as Operation;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    digitraffic = await startDigitrafficMock({ port: 0 });
+    process.env.DIGITRAFFIC_TMS_URL = `http://localhost:${(digitraffic.address() as AddressInfo).port}/api/tms/v1`;
+    // The local environment has no archive bucket, S3 is mocked below
+    process.env.ARCHIVE_BUCKET_NAME = 'traffic-stats-archive';
+    applyLocalEnvironment();
+
+    // Lambdas read the environment when they are loaded
+    const { docClient } = await import('../traffic-stats/backend/src/common/dynamo');
+    const { S3Client } = await import('@aws-sdk/client-s3');
+    const local = await import('../traffic-stats/backend/src/local');
+    const { storeSensorValues } = await import('../traffic-stats/backend/src/common/sensorValues');
+    const { saveAlertRule } = await import('../traffic-stats/backend/src/common/alerts');
+    invokeApi = local.invokeApi;
+    apiHandlers = local.API_HANDLERS;
+
+    dynamo = new FakeDynamo({
+      [process.env.DYNAMODB_TABLE_NAME as string]: ['stationId', 'compositeKey'],
+      [process.env.STATION_REGISTRY_TABLE_NAME as string]: ['stationId'],
+      [process.env.ANOMALY_TABLE_NAME as string]: ['date', 'anomalyKey'],
+      [process.env.ALERT_RULES_TABLE_NAME as string]: ['ruleId'],
+    });
+    jest.spyOn(docClient, 'send').mockImplementation(dynamo.send as any);
+    // Archive lists one archived day of the requested month
+    jest.spyOn(S3Client.prototype, 'send').mockImplementation((async (command: { input: { Prefix?: string } }) => ({
+      Contents: command.input.Prefix
+        ? [{ Key: `${command.input.Prefix}${command.input.Prefix.replace(/.*year=(\d{4})\/month=(\d{2})\//, '$1-$2')}-01.ndjson.gz`, Size: 1024 }]
+        : [],
+    })) as any);
+
+    await storeSensorValues(getHistory([23001, 23002, 23003], new Date()));
+    await local.runCollection('hourly');
+    const now = new Date().toISOString();
+    await saveAlertRule({
+      ruleId: RULE_ID,
+      stationId: 23001,
+      sensor: 'KESKINOPEUS_60MIN',
+      operator: 'below',
+      threshold: 50,
+      consecutiveHours: 2,
+      channel: { type: 'sns' },
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }, 120000);
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await close(digitraffic);
+  });
+
+  it('has a handler for every operation', () => {
+    expect(Object.keys(apiHandlers).sort()).toEqual(operations.map(({ operation }) => operation.operationId).sort());
+  });
+
+  it('stores the collected stations and values', () => {
+    expect(dynamo.items(process.env.STATION_REGISTRY_TABLE_NAME as string).map(item => item.stationId).sort()).toEqual([11101, 23001, 23002, 23003]);
+    expect(dynamo.items(process.env.DYNAMODB_TABLE_NAME as string).length).toBeGreaterThan(0);
+  });
+
+  const readOperations = operations.filter(({ method }) => method === 'get');
+
+  it.each(readOperations.map(entry => [entry.operation.operationId, entry] as const))('%s matches the documented response', async (operationId, entry) => {
+    const parameters = getExampleParameters(entry) || { pathParameters: {}, queryParameters: {} };
+    const pathParameters = { ...parameters.pathParameters, ...PARAMETER_OVERRIDES[operationId] };
+
+    const response = await call(entry, pathParameters, { query: parameters.queryParameters });
+
+    expect(checkResponse(document, entry, response)).toEqual([]);
+  });
+
+  it('returns rules created, updated and deleted through the API in the documented format', async () => {
+    const body = { stationId: 23002, sensor: 'OHITUKSET_60MIN', operator: 'above', threshold: 2000 };
+
+    const created = await call(getOperation('createAlertRule'), {}, { body: JSON.stringify(body) });
+    expect(checkResponse(document, getOperation('createAlertRule'), created)).toEqual([]);
+    const { ruleId } = JSON.parse(created.body);
+
+    const updated = await call(getOperation('updateAlertRule'), { ruleId }, { body: JSON.stringify({ ...body, threshold: 2500 }) });
+    expect(checkResponse(document, getOperation('updateAlertRule'), updated)).toEqual([]);
+    expect(JSON.parse(updated.body).threshold).toBe(2500);
+
+    const deleted = await call(getOperation('deleteAlertRule'), { ruleId });
+    expect(checkResponse(document, getOperation('deleteAlertRule'), deleted)).toEqual([]);
+    expect((await call(getOperation('getAlertRule'), { ruleId })).statusCode).toBe(404);
+  });
+
+  it('documents the API key on every alert rule operation, rules include webhook URLs', () => {
+    const alertRuleOperations = operations.filter(({ path }) => path.startsWith('/traffic/alerts/rules'));
+
+    expect(alertRuleOperations).toHaveLength(5);
+    expect(alertRuleOperations.filter(({ operation }) => !operation.security?.some(requirement => 'alertRulesApiKey' in requirement))).toEqual([]);
+  });
+
+  it('documents the redirect of large file responses with its Location header', () => {
+    const fileOperations = operations.filter(({ operation }) => Object.keys(operation.responses['200']?.content || {})
+      .some(mediaType => mediaType !== 'application/json'));
+
+    expect(fileOperations.map(({ operation }) => operation.operationId)).toEqual(['getHourlyAverage', 'exportRawValues', 'listStations']);
+    expect(fileOperations.filter(({ operation }) => !operation.responses['303']?.headers?.Location)).toEqual([]);
+  });
+
+  it('returns documented errors for invalid parameters', async () => {
+    const response = await call(getOperation('getDailyData'), { stationId: '23001' }, { query: { date: '2025-02-30' } });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body)).toMatchObject({ code: 'INVALID_PARAMETER' });
+  });
+});
@@ -0,0 +1,49 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { getCorridorLength, parseCorridors } from '../traffic-stats/common/corridors';
+
+const LOCAL_CORRIDORS = readFileSync(path.join(__dirname, '../traffic-stats/backend/fixtures/corridors.json'), 'utf8');
+
+const corridor = {
+  id: 'tampere-test',
+  name: 'Tampere test',
+  regionId: 'tampere',
+  stations: [
+    { stationId: '23001', direction: 2, distanceToNextKm: 1.5 },
+    { stationId: '23002', direction: 2 },
+  ],
+};
+
+describe('parseCorridors', () => {
+  it('serves no corridors without configuration', () => {
+    expect(parseCorridors(undefined)).toEqual([]);
+    expect(parseCorridors('')).toEqual([]);
+  });
+
+  it('parses the corridors of the local environment', () => {
+    const corridors = parseCorridors(LOCAL_CORRIDORS);
+
+    expect(corridors.map(({ id }) => id)).toEqual(['tampere-vt3-south', 'tampere-vt3-north']);
+    expect(getCorridorLength(corridors[0])).toBe(11);
+  });
+
+  it('rejects invalid configuration', () => {
+    expect(() => parseCorridors('{')).toThrow('CORRIDORS is not valid JSON');
+    expect(() => parseCorridors(JSON.stringify(corridor))).toThrow('CORRIDORS must be a JSON array of corridors');
+    expect(() => parseCorridors(JSON.stringify([corridor, corridor]))).toThrow('Duplicate corridor tampere-test');
+    expect(() => parseCorridors(JSON.stringify([{ ...corridor, regionId: 'oulu' }]))).toThrow('Invalid corridor tampere-test: unknown region oulu');
+    expect(() => parseCorridors(JSON.stringify([{ ...corridor, stations: corridor.stations.slice(0, 1) }])))
+      .toThrow('at least two stations are required');
+  });
+
+  it('requires the distance to the next station for all but the last station', () => {
+    const [first, last] = corridor.stations;
+
+    expect(() => parseCorridors(JSON.stringify([{ ...corridor, stations: [{ ...first, distanceToNextKm: undefined }, last] }])))
+      .toThrow('Invalid corridor tampere-test: station 1');
+    expect(() => parseCorridors(JSON.stringify([{ ...corridor, stations: [first, { ...last, distanceToNextKm: 2 }] }])))
+      .toThrow('Invalid corridor tampere-test: station 2');
+    expect(() => parseCorridors(JSON.stringify([{ ...corridor, stations: [{ ...first, direction: 3 }, last] }])))
+      .toThrow('station 1');
+  });
+});
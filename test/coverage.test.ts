@@ -0,0 +1,41 @@
+import { getExpectedHours, getSensorCoverage } from '../traffic-stats/backend/src/common/coverage';
+import { HourlySample } from '../traffic-stats/backend/src/common/rollups';
+
+const sample = (name: string, hour: number): HourlySample => ({
+  date: '2025-03-10', hour, name, unit: 'kpl/h', sum: 100, count: 1, zeros: 0, min: 100, max: 100,
+});
+
+describe('getSensorCoverage', () => {
+  // Whole day 2025-03-10 in Finnish time
+  const expected = getExpectedHours('2025-03-10', '2025-03-10', new Date('2025-03-12T00:00:00Z'));
+  const samples = Array.from({ length: 12 }, (_, hour) => sample('OHITUKSET_60MIN_KIINTEA_SUUNTA1', hour));
+
+  it('lists the sensors that have samples', () => {
+    expect(getSensorCoverage(expected, samples)).toEqual([{
+      name: 'OHITUKSET_60MIN_KIINTEA_SUUNTA1',
+      unit: 'kpl/h',
+      expectedHours: 24,
+      receivedHours: 12,
+      completeness: 50,
+      missingRanges: [{ start: '2025-03-10T10:00:00.000Z', end: '2025-03-10T22:00:00.000Z', hours: 12 }],
+    }]);
+  });
+
+  it('reports expected sensors without samples at 0%', () => {
+    const coverage = getSensorCoverage(expected, samples, [
+      { name: 'OHITUKSET_60MIN_KIINTEA_SUUNTA1', unit: 'kpl/h' },
+      { name: 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA1', unit: 'km/h' },
+    ]);
+
+    expect(coverage.map(sensor => sensor.name)).toEqual(['KESKINOPEUS_60MIN_KIINTEA_SUUNTA1', 'OHITUKSET_60MIN_KIINTEA_SUUNTA1']);
+    expect(coverage[0]).toEqual({
+      name: 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA1',
+      unit: 'km/h',
+      expectedHours: 24,
+      receivedHours: 0,
+      completeness: 0,
+      missingRanges: [{ start: '2025-03-09T22:00:00.000Z', end: '2025-03-10T22:00:00.000Z', hours: 24 }],
+    });
+    expect(coverage[1].completeness).toBe(50);
+  });
+});
@@ -0,0 +1,27 @@
+import { APIGatewayProxyEvent, APIGatewayProxyHandler, APIGatewayProxyResult, Context } from 'aws-lambda';
+
+/**
+ * Calls an API handler with a GET event of an API Gateway resource, e.g.
+ *   invokeHandler(handler, '/traffic/station/{stationId}/timeseries', { stationId: '23001' }, { resolution: 'hour' })
+ */
+export const invokeHandler = async (
+  handler: APIGatewayProxyHandler,
+  resource: string,
+  pathParameters: { [name: string]: string },
+  query: { [name: string]: string } = {}
+): Promise<APIGatewayProxyResult> => {
+  const path = resource.replace(/\{(\w+)\}/g, (_, name) => pathParameters[name]);
+  const event = {
+    httpMethod: 'GET',
+    resource,
+    path,
+    pathParameters,
+    queryStringParameters: Object.keys(query).length > 0 ? query : null,
+    multiValueQueryStringParameters: null,
+    headers: {},
+    body: null,
+    requestContext: { requestId: 'test', httpMethod: 'GET', resourcePath: resource, path },
+  } as unknown as APIGatewayProxyEvent;
+
+  return await handler(event, { awsRequestId: 'test' } as Context, () => undefined) as APIGatewayProxyResult;
+};
@@ -0,0 +1,165 @@
+type Item = Record<string, any>;
+
+interface ExpressionInput {
+  ExpressionAttributeNames?: { [name: string]: string };
+  ExpressionAttributeValues?: { [name: string]: any };
+}
+
+const conditionFailed = () => Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+
+/**
+ * In-memory stand-in for the DynamoDB document client. Supports the commands
+ * and the expressions the backend uses, anything else throws so that a new
+ * expression is not silently ignored by the tests.
+ *
+ *   const dynamo = new FakeDynamo({ TrafficData: ['stationId', 'compositeKey'] });
+ *   jest.spyOn(docClient, 'send').mockImplementation(dynamo.send as any);
+ */
+export class FakeDynamo {
+  private readonly tables = new Map<string, Map<string, Item>>();
+
+  // Key attributes of each table, partition key first
+  constructor(private readonly keySchemas: { [tableName: string]: string[] }) {
+    Object.keys(keySchemas).forEach(tableName => this.tables.set(tableName, new Map()));
+  }
+
+  items(tableName: string): Item[] {
+    return Array.from(this.getTable(tableName).values());
+  }
+
+  send = async (command: { constructor: { name: string }; input: any }): Promise<any> => {
+    const input = command.input;
+    switch (command.constructor.name) {
+      case 'GetCommand':
+        return { Item: structuredClone(this.getTable(input.TableName).get(this.getKey(input.TableName, input.Key))) };
+      case 'PutCommand':
+        this.put(input.TableName, input.Item);
+        return {};
+      case 'DeleteCommand':
+        this.getTable(input.TableName).delete(this.getKey(input.TableName, input.Key));
+        return {};
+      case 'BatchWriteCommand':
+        for (const [tableName, requests] of Object.entries(input.RequestItems as { [tableName: string]: Item[] })) {
+          for (const request of requests) {
+            if (request.PutRequest) {
+              this.put(tableName, request.PutRequest.Item);
+            } else {
+              this.getTable(tableName).delete(this.getKey(tableName, request.DeleteRequest.Key));
+            }
+          }
+        }
+        return { UnprocessedItems: {} };
+      case 'ScanCommand':
+        return { Items: this.items(input.TableName).map(item => structuredClone(item)) };
+      case 'QueryCommand':
+        return { Items: this.query(input) };
+      case 'UpdateCommand':
+        this.update(input);
+        return {};
+      default:
+        throw new Error(`FakeDynamo does not support ${command.constructor.name}`);
+    }
+  };
+
+  private getTable(tableName: string): Map<string, Item> {
+    const table = this.tables.get(tableName);
+    if (!table) {
+      throw new Error(`FakeDynamo has no table ${tableName}`);
+    }
+    return table;
+  }
+
+  private getKey(tableName: string, item: Item): string {
+    return JSON.stringify(this.keySchemas[tableName].map(name => item[name]));
+  }
+
+  private put(tableName: string, item: Item): void {
+    this.getTable(tableName).set(this.getKey(tableName, item), structuredClone(item));
+  }
+
+  private query(input: ExpressionInput & { TableName: string; KeyConditionExpression: string; FilterExpression?: string }): Item[] {
+    const expression = resolveNames(input.KeyConditionExpression, input);
+    const values = input.ExpressionAttributeValues || {};
+    const match = expression.match(/^(\w+) = (:\w+)(?: AND (\w+) BETWEEN (:\w+) AND (:\w+))?$/);
+    if (!match) {
+      throw new Error(`FakeDynamo does not support key condition ${expression}`);
+    }
+    const [, partitionKey, partitionValue, sortKey, start, end] = match;
+
+    return this.items(input.TableName)
+      .filter(item => item[partitionKey] === values[partitionValue])
+      .filter(item => !sortKey || (item[sortKey] >= values[start] && item[sortKey] <= values[end]))
+      .filter(item => !input.FilterExpression || evaluateFilter(resolveNames(input.FilterExpression, input), values, item))
+      .sort((a, b) => {
+        const sortAttribute = this.keySchemas[input.TableName][1];
+        return sortAttribute ? String(a[sortAttribute]).localeCompare(String(b[sortAttribute])) : 0;
+      })
+      .map(item => structuredClone(item));
+  }
+
+  private update(input: ExpressionInput & { TableName: string; Key: Item; UpdateExpression: string; ConditionExpression?: string }): void {
+    const table = this.getTable(input.TableName);
+    const key = this.getKey(input.TableName, input.Key);
+    const item = table.get(key);
+    const values = input.ExpressionAttributeValues || {};
+
+    if (input.ConditionExpression && !evaluateCondition(resolveNames(input.ConditionExpression, input), values, item)) {
+      throw conditionFailed();
+    }
+
+    const updated: Item = structuredClone(item || input.Key);
+    const expression = resolveNames(input.UpdateExpression, input);
+    for (const [, action, clauses] of expression.matchAll(/(SET|ADD) (.+?)(?= (?:SET|ADD) |$)/g)) {
+      for (const clause of clauses.split(/,\s*/)) {
+        if (action === 'SET') {
+          const [attribute, value] = clause.split(/\s*=\s*/);
+          updated[attribute] = structuredClone(values[value]);
+        } else {
+          const [attribute, value] = clause.split(/\s+/);
+          const current = updated[attribute];
+          updated[attribute] = values[value] instanceof Set
+            ? new Set([...(current || []), ...values[value]])
+            : (current || 0) + values[value];
+        }
+      }
+    }
+    table.set(key, updated);
+  }
+}
+
+const resolveNames = (expression: string, input: ExpressionInput): string => {
+  return expression.replace(/#\w+/g, name => input.ExpressionAttributeNames?.[name] ?? name);
+};
+
+// Filters of the form "name IN (:a, :b)"
+const evaluateFilter = (expression: string, values: { [name: string]: any }, item: Item): boolean => {
+  const match = expression.match(/^(\w+) IN \(([^)]+)\)$/);
+  if (!match) {
+    throw new Error(`FakeDynamo does not support filter ${expression}`);
+  }
+  return match[2].split(/,\s*/).some(value => values[value] === item[match[1]]);
+};
+
+// Conditions joined with OR: attribute_exists, attribute_not_exists, NOT contains and comparisons
+const evaluateCondition = (expression: string, values: { [name: string]: any }, item: Item | undefined): boolean => {
+  return expression.split(' OR ').some(term => {
+    let match = term.match(/^attribute_(not_)?exists\((\w+)\)$/);
+    if (match) {
+      return (item?.[match[2]] !== undefined) !== Boolean(match[1]);
+    }
+    match = term.match(/^NOT contains\((\w+), (:\w+)\)$/);
+    if (match) {
+      const current = item?.[match[1]];
+      return !(current instanceof Set ? current.has(values[match[2]]) : current?.includes?.(values[match[2]]));
+    }
+    match = term.match(/^(\w+) (<|>|=) (:\w+)$/);
+    if (match && item?.[match[1]] !== undefined) {
+      const [current, value] = [item[match[1]], values[match[3]]];
+      return match[2] === '<' ? current < value : match[2] === '>' ? current > value : current === value;
+    }
+    if (match) {
+      return false;
+    }
+    throw new Error(`FakeDynamo does not support condition ${term}`);
+  });
+};
@@ -0,0 +1,14 @@
+import { spawnSync } from 'child_process';
+
+/**
+ * Whether a TCP connection to the host and port of the URL succeeds. Checked
+ * synchronously in a child process, so a suite can choose between describe
+ * and describe.skip when it is defined.
+ */
+export const isReachable = (url: string, timeoutMs = 1000): boolean => {
+  const { hostname, port } = new URL(url);
+  const script = `require('net').connect(${Number(port)}, ${JSON.stringify(hostname)})`
+    + `.on('connect', () => process.exit(0)).on('error', () => process.exit(1))`
+    + `.setTimeout(${timeoutMs}, () => process.exit(1))`;
+  return spawnSync(process.execPath, ['-e', script], { timeout: timeoutMs + 1000 }).status === 0;
+};
@@ -0,0 +1,116 @@
+import { APIGatewayProxyHandler } from 'aws-lambda';
+import { addDays, localToUtc, toLocalTime } from '../traffic-stats/common/time';
+import { queryHourlySamples } from '../traffic-stats/backend/src/common/rollups';
+import { querySensorValues } from '../traffic-stats/backend/src/common/sensorValues';
+import { invokeHandler } from './helpers/apiEvent';
+
+jest.mock('../traffic-stats/backend/src/common/rollups');
+jest.mock('../traffic-stats/backend/src/common/sensorValues');
+jest.mock('../traffic-stats/backend/src/common/stationRegistry');
+
+const RESOURCE = '/traffic/station/{stationId}/hourly-average';
+
+describe('hourly averages', () => {
+  let handler: APIGatewayProxyHandler;
+
+  const getHourlyAverage = (query: { [name: string]: string }) => invokeHandler(handler, RESOURCE, { stationId: '23001' }, query);
+
+  beforeAll(async () => {
+    // The handler reads the retention when it is loaded
+    process.env.RAW_RETENTION_DAYS = '90';
+    ({ handler } = await import('../traffic-stats/backend/src/lambdas/api/hourly-average'));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.mocked(queryHourlySamples).mockResolvedValue([]);
+    jest.mocked(querySensorValues).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects periods that start before the raw value retention', async () => {
+    const today = toLocalTime(new Date(), 'UTC').date;
+
+    const response = await getHourlyAverage({ tz: 'UTC', from: addDays(today, -90), to: today });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).message).toContain(`must not start before ${addDays(today, -89)}`);
+    expect(querySensorValues).not.toHaveBeenCalled();
+  });
+
+  it('calculates periods within the retention from raw values', async () => {
+    const response = await getHourlyAverage({ tz: 'UTC', days: '90' });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({ timeZone: 'UTC', source: 'raw' });
+    expect(queryHourlySamples).not.toHaveBeenCalled();
+  });
+
+  it('accepts long periods in Finnish time, which are read from the rollups', async () => {
+    const response = await getHourlyAverage({ days: '366' });
+
+    expect(response.statusCode).toBe(200);
+    expect(queryHourlySamples).toHaveBeenCalled();
+  });
+
+  it('falls back to raw values for the dates without rollups', async () => {
+    const today = toLocalTime(new Date()).date;
+    const from = addDays(today, -4);
+    // Rollups of the first two days, the rest of the period only has raw values
+    jest.mocked(queryHourlySamples).mockResolvedValue([from, addDays(from, 1)].map(date => ({
+      date, hour: 8, name: 'OHITUKSET_60MIN_KIINTEA_SUUNTA1', unit: 'kpl/h', sum: 100, count: 1, zeros: 0, min: 100, max: 100,
+    })));
+    jest.mocked(querySensorValues).mockImplementation(async (stationId, start) => {
+      const windowStart = localToUtc(toLocalTime(start).date, 8);
+      return [{
+        id: 5116,
+        stationId,
+        name: 'OHITUKSET_60MIN_KIINTEA_SUUNTA1',
+        shortName: 'kpl/h1',
+        timeWindowStart: windowStart.toISOString(),
+        timeWindowEnd: new Date(windowStart.getTime() + 60 * 60 * 1000).toISOString(),
+        measuredTime: new Date(windowStart.getTime() + 60 * 60 * 1000).toISOString(),
+        unit: 'kpl/h',
+        value: 200,
+      }];
+    });
+
+    const response = await getHourlyAverage({ from, to: today });
+
+    expect(response.statusCode).toBe(200);
+    expect(querySensorValues).toHaveBeenCalledTimes(1);
+    expect(jest.mocked(querySensorValues).mock.calls[0][1]).toEqual(localToUtc(addDays(from, 2), 0));
+    const body = JSON.parse(response.body);
+    expect(body.source).toBe('mixed');
+    // One raw value at 8 o'clock of the first missing date
+    expect(body.hourlyAverages[8].trafficCount).toBe(133);
+  });
+
+  it('averages only the 60 minute fixed window values', async () => {
+    const today = toLocalTime(new Date()).date;
+    const date = addDays(today, -1);
+    const rollup = (name: string, unit: string, sum: number, count: number) => ({
+      date, hour: 8, name, unit, sum, count, zeros: 0, min: sum / count, max: sum / count,
+    });
+    // Twelve 5 minute sliding values of the hour next to the 60 minute values
+    jest.mocked(queryHourlySamples).mockResolvedValue([
+      rollup('OHITUKSET_60MIN_KIINTEA_SUUNTA1', 'kpl/h', 600, 1),
+      rollup('OHITUKSET_5MIN_LIUKUVA_SUUNTA1', 'kpl/h', 12 * 50, 12),
+      rollup('KESKINOPEUS_60MIN_KIINTEA_SUUNTA1', 'km/h', 80, 1),
+      rollup('KESKINOPEUS_5MIN_LIUKUVA_SUUNTA1', 'km/h', 12 * 40, 12),
+    ]);
+
+    const response = await getHourlyAverage({ from: date, to: date });
+
+    const body = JSON.parse(response.body);
+    expect(body.hourlyAverages[8]).toMatchObject({ trafficCount: 600, avgSpeed: 80 });
+    expect(body.sensorData.map((sensor: { name: string }) => sensor.name).sort()).toEqual([
+      'KESKINOPEUS_60MIN_KIINTEA_SUUNTA1',
+      'OHITUKSET_60MIN_KIINTEA_SUUNTA1',
+    ]);
+  });
+});
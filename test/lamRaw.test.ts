@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { aggregateHourly, getLamRawFileName, parseLamRawCsv } from '../traffic-stats/backend/src/common/lamRaw';
+
+// Station 1 on 2024-01-01: 12 vehicles at local 00, 01 (faulty), 07 and 16 o'clock
+const FIXTURE = readFileSync(path.join(__dirname, '../traffic-stats/backend/fixtures/lamraw/lamraw_1_24_1.csv'), 'utf8');
+
+const getValue = (values: ReturnType<typeof aggregateHourly>, name: string, measuredTime: string) => {
+  return values.find(value => value.name === name && value.measuredTime === measuredTime)?.value;
+};
+
+describe('parseLamRawCsv', () => {
+  it('parses the vehicles and skips faulty rows', () => {
+    const vehicles = parseLamRawCsv(FIXTURE);
+
+    expect(vehicles).toHaveLength(11);
+    expect(vehicles[0]).toEqual({ time: new Date('2023-12-31T22:02:15.120Z'), lane: 1, direction: 1, vehicleClass: 1, speed: 78 });
+    expect(vehicles.map(vehicle => vehicle.time.getUTCHours())).not.toContain(23);
+  });
+
+  it('converts Finnish standard time to UTC with the given offset', () => {
+    expect(parseLamRawCsv(FIXTURE, 3)[0].time.toISOString()).toBe('2023-12-31T21:02:15.120Z');
+    expect(parseLamRawCsv(FIXTURE, 0)[0].time.toISOString()).toBe('2024-01-01T00:02:15.120Z');
+  });
+
+  it('skips lines that cannot be parsed', () => {
+    expect(parseLamRawCsv('\nstation;year\n1;24;1;0;2\n')).toEqual([]);
+  });
+});
+
+describe('aggregateHourly', () => {
+  const values = aggregateHourly(1, '2024-01-01', parseLamRawCsv(FIXTURE));
+
+  it('returns counts of every hour and direction and speeds of the hours with vehicles', () => {
+    // 24 hours of 2 directions, speeds for 3 hours of 2 directions
+    expect(values.filter(value => value.name.startsWith('OHITUKSET_60MIN_KIINTEA'))).toHaveLength(48);
+    expect(values.filter(value => value.name.startsWith('KESKINOPEUS_60MIN_KIINTEA'))).toHaveLength(6);
+    expect(values.every(value => value.stationId === 1)).toBe(true);
+  });
+
+  it('counts vehicles and averages speeds per direction', () => {
+    // Local 00 o'clock is 22 UTC on the previous day
+    expect(getValue(values, 'OHITUKSET_60MIN_KIINTEA_SUUNTA1', '2023-12-31T23:00:00Z')).toBe(2);
+    expect(getValue(values, 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA1', '2023-12-31T23:00:00Z')).toBe(80);
+    expect(getValue(values, 'OHITUKSET_60MIN_KIINTEA_SUUNTA2', '2023-12-31T23:00:00Z')).toBe(2);
+    expect(getValue(values, 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA2', '2023-12-31T23:00:00Z')).toBe(78);
+
+    expect(getValue(values, 'OHITUKSET_60MIN_KIINTEA_SUUNTA1', '2024-01-01T06:00:00Z')).toBe(3);
+    expect(getValue(values, 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA1', '2024-01-01T06:00:00Z')).toBe(78.3);
+    expect(getValue(values, 'OHITUKSET_60MIN_KIINTEA_SUUNTA2', '2024-01-01T06:00:00Z')).toBe(2);
+    expect(getValue(values, 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA2', '2024-01-01T06:00:00Z')).toBe(88);
+
+    expect(getValue(values, 'OHITUKSET_60MIN_KIINTEA_SUUNTA1', '2024-01-01T15:00:00Z')).toBe(1);
+    expect(getValue(values, 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA2', '2024-01-01T15:00:00Z')).toBe(83);
+  });
+
+  it('returns zero counts without speeds for empty hours', () => {
+    // The only vehicle of local 01 o'clock is faulty
+    expect(getValue(values, 'OHITUKSET_60MIN_KIINTEA_SUUNTA1', '2024-01-01T00:00:00Z')).toBe(0);
+    expect(getValue(values, 'KESKINOPEUS_60MIN_KIINTEA_SUUNTA1', '2024-01-01T00:00:00Z')).toBeUndefined();
+    expect(getValue(values, 'OHITUKSET_60MIN_KIINTEA_SUUNTA2', '2024-01-01T21:00:00Z')).toBe(0);
+  });
+
+  it('uses whole UTC hours of the local date as windows', () => {
+    const counts = values.filter(value => value.name === 'OHITUKSET_60MIN_KIINTEA_SUUNTA1');
+
+    expect(counts[0]).toMatchObject({ timeWindowStart: '2023-12-31T22:00:00Z', timeWindowEnd: '2023-12-31T23:00:00Z', measuredTime: '2023-12-31T23:00:00Z' });
+    expect(counts[23]).toMatchObject({ timeWindowStart: '2024-01-01T21:00:00Z', measuredTime: '2024-01-01T22:00:00Z' });
+  });
+
+  it('moves the windows with the UTC offset', () => {
+    const shifted = aggregateHourly(1, '2024-01-01', parseLamRawCsv(FIXTURE, 3), 3);
+
+    expect(shifted.filter(value => value.name === 'OHITUKSET_60MIN_KIINTEA_SUUNTA1')[0].timeWindowStart).toBe('2023-12-31T21:00:00Z');
+    expect(getValue(shifted, 'OHITUKSET_60MIN_KIINTEA_SUUNTA1', '2023-12-31T22:00:00Z')).toBe(2);
+  });
+
+  it('ignores vehicles outside the file date', () => {
+    const nextDay = aggregateHourly(1, '2024-01-02', parseLamRawCsv(FIXTURE));
+
+    expect(nextDay.every(value => value.value === 0)).toBe(true);
+  });
+
+  it('matches the file name of the date', () => {
+    expect(getLamRawFileName(1, '2024-01-01')).toBe('lamraw_1_24_1.csv');
+  });
+});
@@ -0,0 +1,120 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type { APIGatewayProxyResult } from 'aws-lambda';
+import openapi from '../traffic-stats/common/api/openapi.json';
+import { checkResponse } from '../traffic-stats/common/api/contract';
+import { OpenApiDocument, getOperations } from '../traffic-stats/common/api/spec';
+import { toLocalTime } from '../traffic-stats/common/time';
+import { startDigitrafficMock } from '../traffic-stats/backend/src/local/digitrafficMock';
+import { applyLocalEnvironment } from '../traffic-stats/backend/src/local/env';
+import { close } from '../traffic-stats/backend/src/local/server';
+import type { LocalRequest } from '../traffic-stats/backend/src/local/apiServer';
+import type { LocalNotifier } from '../traffic-stats/backend/src/common/notifiers';
+import { isReachable } from './helpers/network';
+
+/**
+ * Runs the local pipeline against DynamoDB Local: the collector fetches the
+ * fixtures from the Digitraffic mock, the processor stores them and the API
+ * handlers serve them. Each run uses tables of its own and deletes them
+ * afterwards. Skipped when DynamoDB Local is not running, start it with
+ *   docker compose up -d dynamodb-local
+ */
+
+const document = openapi as unknown as OpenApiDocument;
+const RULE_ID = '7d0b6f4e-3c2a-4e59-8f61-2a9c4b1d5e70';
+
+// Table names of this run, the rest of the environment comes from the local mode
+const run = Date.now();
+process.env.DYNAMODB_TABLE_NAME = `TrafficData-test-${run}`;
+process.env.STATION_REGISTRY_TABLE_NAME = `StationRegistry-test-${run}`;
+process.env.ANOMALY_TABLE_NAME = `Anomalies-test-${run}`;
+process.env.ALERT_RULES_TABLE_NAME = `AlertRules-test-${run}`;
+applyLocalEnvironment();
+
+const describeLocal = isReachable(process.env.DYNAMODB_ENDPOINT as string) ? describe : describe.skip;
+
+describeLocal('local environment', () => {
+  let digitraffic: http.Server;
+  let local: typeof import('../traffic-stats/backend/src/local');
+  let notifier: LocalNotifier;
+
+  const get = async (path: string, query?: LocalRequest['query']): Promise<APIGatewayProxyResult> => {
+    const response = await local.invokeApi({ method: 'GET', path, query });
+    const entry = getOperations(document).find(({ method, path: resource }) =>
+      method === 'get' && new RegExp(`^${resource.replace(/\{\w+\}/g, '[^/]+')}$`).test(path));
+    expect(entry).toBeDefined();
+    expect(checkResponse(document, entry!, { ...response, contentType: response.headers?.['Content-Type'] as string })).toEqual([]);
+    return response;
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    digitraffic = await startDigitrafficMock({ port: 0 });
+    process.env.DIGITRAFFIC_TMS_URL = `http://localhost:${(digitraffic.address() as AddressInfo).port}/api/tms/v1`;
+
+    // Lambdas read the environment when they are loaded
+    local = await import('../traffic-stats/backend/src/local');
+    const { saveAlertRule } = await import('../traffic-stats/backend/src/common/alerts');
+    ({ localNotifier: notifier } = await import('../traffic-stats/backend/src/common/notifiers'));
+
+    await local.createLocalTables();
+    // Every collected speed is below the threshold, so the rule fires for both directions
+    const now = new Date().toISOString();
+    await saveAlertRule({
+      ruleId: RULE_ID,
+      stationId: 23001,
+      sensor: 'KESKINOPEUS_60MIN',
+      operator: 'below',
+      threshold: 1000,
+      consecutiveHours: 1,
+      channel: { type: 'sns' },
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await local.runCollection('hourly');
+  }, 120000);
+
+  afterAll(async () => {
+    await local?.deleteLocalTables();
+    await close(digitraffic);
+    jest.restoreAllMocks();
+  });
+
+  it('serves the collected stations from the registry', async () => {
+    const { stations } = JSON.parse((await get('/traffic/stations')).body);
+
+    expect(stations.map((station: { id: string }) => station.id).sort()).toEqual(['11101', '23001', '23002', '23003']);
+  });
+
+  it('serves the collected values of the current hour', async () => {
+    const today = toLocalTime(new Date()).date;
+
+    const { sensorValues } = JSON.parse((await get('/traffic/station/23001/daily', { date: today })).body);
+
+    expect(sensorValues.map((value: { name: string }) => value.name)).toEqual(expect.arrayContaining([
+      'OHITUKSET_60MIN_KIINTEA_SUUNTA1',
+      'KESKINOPEUS_60MIN_KIINTEA_SUUNTA2',
+    ]));
+  });
+
+  it('calculates hourly averages from the rollups written by the processor', async () => {
+    const response = JSON.parse((await get('/traffic/station/23001/hourly-average', { days: '1' })).body);
+
+    expect(response.source).toBe('rollup');
+    expect(response.directions).toHaveLength(2);
+  });
+
+  it('sends alerts with the local notifier', () => {
+    expect(notifier.notifications.filter(notification => notification.ruleId === RULE_ID).map(notification => notification.sensor).sort()).toEqual([
+      'KESKINOPEUS_60MIN_KIINTEA_SUUNTA1',
+      'KESKINOPEUS_60MIN_KIINTEA_SUUNTA2',
+    ]);
+  });
+
+  it('answers unknown routes with NOT_FOUND', async () => {
+    const response = await local.invokeApi({ method: 'GET', path: '/traffic/unknown' });
+
+    expect(response.statusCode).toBe(404);
+  });
+});
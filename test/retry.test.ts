@@ -0,0 +1,66 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { HttpStatusError } from '../traffic-stats/common/common';
+import { RetryError, RetryableError, isRetryableError, withRetry } from '../traffic-stats/backend/src/common/retry';
+
+const NO_DELAY = { retries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+const axiosError = (status?: number, code?: string): AxiosError => {
+  const config = { headers: new AxiosHeaders() };
+  const response = status === undefined
+    ? undefined
+    : { status, statusText: '', headers: {}, config, data: undefined };
+  return new AxiosError('Request failed', code, config, {}, response);
+};
+
+describe('isRetryableError', () => {
+  it('retries throttling and server errors of every client', () => {
+    expect(isRetryableError(axiosError(503))).toBe(true);
+    expect(isRetryableError(axiosError(429))).toBe(true);
+    expect(isRetryableError(new HttpStatusError('Failed to fetch stations: 502', 502))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Throttled'), { $metadata: { httpStatusCode: 500 } }))).toBe(true);
+  });
+
+  it('does not retry other client errors', () => {
+    expect(isRetryableError(axiosError(404))).toBe(false);
+    expect(isRetryableError(new HttpStatusError('Failed to fetch stations: 400', 400))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('Denied'), { $metadata: { httpStatusCode: 403 } }))).toBe(false);
+  });
+
+  it('retries network errors and timeouts', () => {
+    expect(isRetryableError(axiosError(undefined, 'ECONNABORTED'))).toBe(true);
+    expect(isRetryableError(new TypeError('fetch failed', { cause: new Error('other side closed') }))).toBe(true);
+    expect(isRetryableError(new DOMException('The operation was aborted due to timeout', 'TimeoutError'))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(new RetryableError('Failed to send 1 chunks: chunk-0'))).toBe(true);
+  });
+
+  it('does not retry programming errors', () => {
+    expect(isRetryableError(new TypeError("Cannot read properties of undefined (reading 'features')"))).toBe(false);
+    expect(isRetryableError(new Error('Unknown region: x'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries until the operation succeeds', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(new HttpStatusError('Service Unavailable', 503))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry(operation, NO_DELAY)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws errors that are not retryable at once', async () => {
+    const operation = jest.fn().mockRejectedValue(new HttpStatusError('Not Found', 404));
+
+    await expect(withRetry(operation, NO_DELAY)).rejects.toMatchObject({ attempts: 1 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the retries', async () => {
+    const operation = jest.fn().mockRejectedValue(new HttpStatusError('Service Unavailable', 503));
+
+    await expect(withRetry(operation, NO_DELAY)).rejects.toBeInstanceOf(RetryError);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+});
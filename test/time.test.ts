@@ -0,0 +1,82 @@
+import { formatLocalTimestamp, getUtcOffsetMinutes, localToUtc, toLocalTime } from '../traffic-stats/common/time';
+import { getExpectedHours } from '../traffic-stats/backend/src/common/coverage';
+
+// Finnish daylight saving time starts on the last Sunday of March and ends on
+// the last Sunday of October, both at 01:00 UTC:
+//   2025-03-30 03:00 EET (+02:00) -> 04:00 EEST (+03:00), local 03:00 is skipped
+//   2025-10-26 04:00 EEST (+03:00) -> 03:00 EET (+02:00), local 03:00 is repeated
+const AFTER = new Date('2026-01-01T00:00:00Z');
+
+describe('toLocalTime', () => {
+  it('moves from 02:59 to 04:00 at the start of daylight saving time', () => {
+    expect(toLocalTime('2025-03-30T00:59:00Z')).toEqual({ date: '2025-03-30', hour: 2, minute: 59, weekday: 0 });
+    expect(toLocalTime('2025-03-30T01:00:00Z')).toEqual({ date: '2025-03-30', hour: 4, minute: 0, weekday: 0 });
+    expect(getUtcOffsetMinutes(new Date('2025-03-30T00:59:59Z'))).toBe(120);
+    expect(getUtcOffsetMinutes(new Date('2025-03-30T01:00:00Z'))).toBe(180);
+  });
+
+  it('returns 03:00 twice at the end of daylight saving time', () => {
+    expect(toLocalTime('2025-10-26T00:30:00Z')).toMatchObject({ date: '2025-10-26', hour: 3, minute: 30 });
+    expect(toLocalTime('2025-10-26T01:30:00Z')).toMatchObject({ date: '2025-10-26', hour: 3, minute: 30 });
+    expect(formatLocalTimestamp('2025-10-26T00:30:00Z')).toBe('2025-10-26T03:30:00+03:00');
+    expect(formatLocalTimestamp('2025-10-26T01:30:00Z')).toBe('2025-10-26T03:30:00+02:00');
+  });
+
+  it('uses the given time zone', () => {
+    expect(toLocalTime('2025-10-26T01:30:00Z', 'UTC')).toMatchObject({ date: '2025-10-26', hour: 1 });
+    expect(toLocalTime('2025-03-29T23:30:00Z', 'Europe/Helsinki')).toMatchObject({ date: '2025-03-30', hour: 1, weekday: 0 });
+  });
+});
+
+describe('localToUtc', () => {
+  it('resolves the skipped hour to the switch at 01:00 UTC', () => {
+    expect(localToUtc('2025-03-30', 2).toISOString()).toBe('2025-03-30T00:00:00.000Z');
+    expect(localToUtc('2025-03-30', 3).toISOString()).toBe('2025-03-30T01:00:00.000Z');
+    expect(localToUtc('2025-03-30', 4).toISOString()).toBe('2025-03-30T01:00:00.000Z');
+    expect(localToUtc('2025-03-30', 5).toISOString()).toBe('2025-03-30T02:00:00.000Z');
+  });
+
+  it('resolves the repeated hour to its second occurrence', () => {
+    expect(localToUtc('2025-10-26', 2).toISOString()).toBe('2025-10-25T23:00:00.000Z');
+    expect(localToUtc('2025-10-26', 3).toISOString()).toBe('2025-10-26T01:00:00.000Z');
+    expect(localToUtc('2025-10-26', 4).toISOString()).toBe('2025-10-26T02:00:00.000Z');
+  });
+
+  it('returns days of 23 and 25 hours on the transition days', () => {
+    const hours = (date: string, next: string) => (localToUtc(next).getTime() - localToUtc(date).getTime()) / 3600000;
+    expect(hours('2025-03-30', '2025-03-31')).toBe(23);
+    expect(hours('2025-10-26', '2025-10-27')).toBe(25);
+    expect(localToUtc('2025-10-26', 0, 'UTC').toISOString()).toBe('2025-10-26T00:00:00.000Z');
+  });
+});
+
+describe('getExpectedHours', () => {
+  it('leaves out the skipped hour', () => {
+    const hours = getExpectedHours('2025-03-30', '2025-03-30', AFTER);
+
+    expect(hours).toHaveLength(23);
+    expect(hours.map(hour => hour.key)).not.toContain('2025-03-30T03');
+    expect(hours[0].start.toISOString()).toBe('2025-03-29T22:00:00.000Z');
+    expect(hours.find(hour => hour.key === '2025-03-30T04')?.start.toISOString()).toBe('2025-03-30T01:00:00.000Z');
+  });
+
+  it('expects the repeated hour once, as it shares one rollup hour', () => {
+    const hours = getExpectedHours('2025-10-26', '2025-10-26', AFTER);
+
+    expect(hours).toHaveLength(24);
+    expect(hours.filter(hour => hour.key === '2025-10-26T03')).toEqual([
+      { key: '2025-10-26T03', date: '2025-10-26', start: new Date('2025-10-26T00:00:00Z') },
+    ]);
+    expect(hours[hours.length - 1].start.toISOString()).toBe('2025-10-26T21:00:00.000Z');
+  });
+
+  it('expects 24 hours a day in UTC', () => {
+    expect(getExpectedHours('2025-10-26', '2025-10-26', AFTER, 'UTC')).toHaveLength(24);
+  });
+
+  it('does not expect the hour that has just ended', () => {
+    const hours = getExpectedHours('2025-10-26', '2025-10-26', new Date('2025-10-26T01:30:00Z'));
+
+    expect(hours.map(hour => hour.key)).toEqual(['2025-10-26T00', '2025-10-26T01', '2025-10-26T02']);
+  });
+});
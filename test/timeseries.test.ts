@@ -0,0 +1,82 @@
+import { SensorValue } from '../traffic-stats/common/interfaces';
+import { handler } from '../traffic-stats/backend/src/lambdas/api/timeseries';
+import { querySensorValues } from '../traffic-stats/backend/src/common/sensorValues';
+import { invokeHandler } from './helpers/apiEvent';
+
+jest.mock('../traffic-stats/backend/src/common/sensorValues');
+
+const RESOURCE = '/traffic/station/{stationId}/timeseries';
+const HOUR_MS = 60 * 60 * 1000;
+
+// One 60 minute traffic count per UTC hour of [from, to), valued by its UTC hour
+const getHourlyValues = (from: string, to: string): SensorValue[] => {
+  const values: SensorValue[] = [];
+  for (let start = new Date(from).getTime(); start < new Date(to).getTime(); start += HOUR_MS) {
+    values.push({
+      id: 5116,
+      stationId: 23001,
+      name: 'OHITUKSET_60MIN_KIINTEA_SUUNTA1',
+      shortName: 'KPL/H1',
+      timeWindowStart: new Date(start).toISOString(),
+      timeWindowEnd: new Date(start + HOUR_MS).toISOString(),
+      measuredTime: new Date(start + HOUR_MS).toISOString(),
+      unit: 'kpl/h',
+      value: new Date(start).getUTCHours(),
+    });
+  }
+  return values;
+};
+
+const getPoints = async (date: string, query: { [name: string]: string }) => {
+  const response = await invokeHandler(handler, RESOURCE, { stationId: '23001' }, { from: date, to: date, ...query });
+  expect(response.statusCode).toBe(200);
+  return JSON.parse(response.body).series[0].points as { time: string; start: string; samples: number; sum: number }[];
+};
+
+describe('timeseries buckets on daylight saving transition days', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.mocked(querySensorValues).mockResolvedValue(getHourlyValues('2025-03-29T12:00:00Z', '2025-10-27T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('has no 03:00 bucket on the last Sunday of March', async () => {
+    const points = await getPoints('2025-03-30', { resolution: 'hour' });
+
+    expect(points).toHaveLength(23);
+    expect(points.map(point => point.time)).not.toContain('2025-03-30T03:00');
+    expect(points[0]).toMatchObject({ time: '2025-03-30T00:00', start: '2025-03-29T22:00:00.000Z' });
+    expect(points[2]).toMatchObject({ time: '2025-03-30T02:00', start: '2025-03-30T00:00:00.000Z', samples: 1 });
+    expect(points[3]).toMatchObject({ time: '2025-03-30T04:00', start: '2025-03-30T01:00:00.000Z', samples: 1 });
+  });
+
+  it('has separate buckets for the repeated 03:00 hour on the last Sunday of October', async () => {
+    const points = await getPoints('2025-10-26', { resolution: 'hour' });
+
+    expect(points).toHaveLength(25);
+    expect(points.filter(point => point.time === '2025-10-26T03:00')).toEqual([
+      expect.objectContaining({ start: '2025-10-26T00:00:00.000Z', samples: 1, sum: 0 }),
+      expect.objectContaining({ start: '2025-10-26T01:00:00.000Z', samples: 1, sum: 1 }),
+    ]);
+    expect(points[points.length - 1]).toMatchObject({ time: '2025-10-26T23:00', start: '2025-10-26T21:00:00.000Z' });
+  });
+
+  it('puts 23 and 25 hours into the daily buckets', async () => {
+    expect(await getPoints('2025-03-30', { resolution: 'day' })).toEqual([
+      expect.objectContaining({ time: '2025-03-30', start: '2025-03-29T22:00:00.000Z', samples: 23 }),
+    ]);
+    expect(await getPoints('2025-10-26', { resolution: 'day' })).toEqual([
+      expect.objectContaining({ time: '2025-10-26', start: '2025-10-25T21:00:00.000Z', samples: 25 }),
+    ]);
+  });
+
+  it('has 24 hours on the same days in UTC', async () => {
+    const points = await getPoints('2025-10-26', { resolution: 'hour', tz: 'UTC' });
+
+    expect(points).toHaveLength(24);
+    expect(points[1]).toMatchObject({ time: '2025-10-26T01:00', start: '2025-10-26T01:00:00.000Z', sum: 1 });
+  });
+});
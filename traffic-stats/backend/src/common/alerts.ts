@@ -0,0 +1,250 @@
+import { DeleteCommand, GetCommand, PutCommand, ScanCommand, ScanCommandOutput, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SensorValue } from '../../../common/interfaces';
+import { docClient } from './dynamo';
+import { getRequiredEnv } from './env';
+import { AlertNotification, NotifierChannel, Notifier, createNotifier, getAllowedWebhookHosts, isAllowedWebhookUrl } from './notifiers';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type AlertOperator = 'above' | 'below';
+
+/**
+ * Evaluation state of one sensor of a rule. Hours are UTC starts of the
+ * hourly windows, consecutive breaching hours are counted until the rule fires.
+ */
+export interface AlertSensorState {
+  lastHour: string;
+  breachedHours: number;
+  notifiedAt?: string;
+}
+
+/**
+ * Alert rule for a station. Sensor is a sensor name or a prefix of names,
+ * e.g. KESKINOPEUS_60MIN matches both directions.
+ */
+export interface AlertRule {
+  ruleId: string;
+  name?: string;
+  stationId: number;
+  sensor: string;
+  operator: AlertOperator;
+  threshold: number;
+  consecutiveHours: number;
+  channel: NotifierChannel;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  state?: { [sensorName: string]: AlertSensorState };
+}
+
+export type AlertRuleInput = Pick<AlertRule, 'name' | 'stationId' | 'sensor' | 'operator' | 'threshold' | 'consecutiveHours' | 'channel' | 'enabled'>;
+
+const getAlertRulesTableName = () => getRequiredEnv('ALERT_RULES_TABLE_NAME');
+
+/**
+ * Validates a rule from an API request body. Returns an error message if the rule is invalid.
+ */
+export const parseAlertRuleInput = (input: unknown): AlertRuleInput | string => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return 'Request body must be a JSON object';
+  }
+  const body = input as Record<string, any>;
+  if (!Number.isInteger(body.stationId)) {
+    return 'Field stationId must be an integer';
+  }
+  if (typeof body.sensor !== 'string' || !/^[A-Z0-9_]+$/.test(body.sensor)) {
+    return 'Field sensor must be a sensor name or prefix, e.g. KESKINOPEUS_60MIN';
+  }
+  if (body.operator !== 'above' && body.operator !== 'below') {
+    return 'Field operator must be above or below';
+  }
+  if (typeof body.threshold !== 'number' || !isFinite(body.threshold)) {
+    return 'Field threshold must be a number';
+  }
+  const consecutiveHours = body.consecutiveHours ?? 1;
+  if (!Number.isInteger(consecutiveHours) || consecutiveHours < 1 || consecutiveHours > 24) {
+    return 'Field consecutiveHours must be an integer between 1 and 24';
+  }
+  const channel = body.channel ?? { type: 'sns' };
+  if (channel.type === 'webhook') {
+    if (typeof channel.url !== 'string' || !/^https:\/\//.test(channel.url)) {
+      return 'Webhook channel needs an https url';
+    }
+    if (!isAllowedWebhookUrl(channel.url)) {
+      const hosts = getAllowedWebhookHosts();
+      return hosts.length > 0 ? `Webhook host must be one of ${hosts.join(', ')}` : 'Webhook notifications are not enabled';
+    }
+  } else if (channel.type !== 'sns') {
+    return 'Field channel.type must be sns or webhook';
+  }
+  if (body.name !== undefined && typeof body.name !== 'string') {
+    return 'Field name must be a string';
+  }
+
+  return {
+    name: body.name,
+    stationId: body.stationId,
+    sensor: body.sensor,
+    operator: body.operator,
+    threshold: body.threshold,
+    consecutiveHours,
+    channel: channel.type === 'webhook' ? { type: 'webhook', url: channel.url } : { type: 'sns' },
+    enabled: body.enabled !== false,
+  };
+};
+
+export const getAlertRules = async (): Promise<AlertRule[]> => {
+  const rules: AlertRule[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined = undefined;
+
+  do {
+    const result: ScanCommandOutput = await docClient.send(new ScanCommand({
+      TableName: getAlertRulesTableName(),
+      ExclusiveStartKey: lastEvaluatedKey,
+    }));
+    rules.push(...(result.Items || []) as AlertRule[]);
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return rules;
+};
+
+export const getAlertRule = async (ruleId: string): Promise<AlertRule | undefined> => {
+  const result = await docClient.send(new GetCommand({
+    TableName: getAlertRulesTableName(),
+    Key: { ruleId },
+  }));
+  return result.Item as AlertRule | undefined;
+};
+
+/**
+ * Creates or replaces a rule. Replacing a rule resets its evaluation state.
+ */
+export const saveAlertRule = async (rule: AlertRule): Promise<void> => {
+  await docClient.send(new PutCommand({
+    TableName: getAlertRulesTableName(),
+    Item: rule,
+  }));
+};
+
+export const deleteAlertRule = async (ruleId: string): Promise<void> => {
+  await docClient.send(new DeleteCommand({
+    TableName: getAlertRulesTableName(),
+    Key: { ruleId },
+  }));
+};
+
+/**
+ * Stores the state of the rule as it was read. The rule may have been deleted,
+ * or replaced with a reset state, while it was evaluated: then the condition
+ * on updatedAt fails and the state is not written.
+ */
+const saveAlertRuleState = async (rule: AlertRule): Promise<void> => {
+  await docClient.send(new UpdateCommand({
+    TableName: getAlertRulesTableName(),
+    Key: { ruleId: rule.ruleId },
+    UpdateExpression: 'SET #state = :state',
+    ConditionExpression: 'updatedAt = :updatedAt',
+    ExpressionAttributeNames: { '#state': 'state' },
+    ExpressionAttributeValues: { ':state': rule.state, ':updatedAt': rule.updatedAt },
+  }));
+};
+
+const isBreach = (rule: AlertRule, value: number): boolean => {
+  return rule.operator === 'above' ? value > rule.threshold : value < rule.threshold;
+};
+
+const getHourStart = (sensorValue: SensorValue): string => {
+  const time = new Date(sensorValue.timeWindowStart || sensorValue.measuredTime).getTime();
+  return new Date(Math.floor(time / HOUR_MS) * HOUR_MS).toISOString();
+};
+
+/**
+ * Updates the state of a rule with new values of its station and returns
+ * the notifications to send. The rule fires once when the value has been
+ * beyond the threshold for consecutiveHours hours in a row, and again only
+ * after a value within the threshold. Values of an hour already evaluated
+ * are ignored, so redelivered values do not advance the count.
+ */
+export const evaluateAlertRule = (rule: AlertRule, sensorValues: SensorValue[]): AlertNotification[] => {
+  const notifications: AlertNotification[] = [];
+  const state = rule.state || {};
+
+  const values = sensorValues
+    .filter(sensorValue => sensorValue.stationId === rule.stationId && sensorValue.name.startsWith(rule.sensor))
+    .filter(sensorValue => typeof sensorValue.value === 'number')
+    .sort((a, b) => getHourStart(a).localeCompare(getHourStart(b)));
+
+  for (const sensorValue of values) {
+    const hour = getHourStart(sensorValue);
+    const previous = state[sensorValue.name];
+    if (previous && previous.lastHour >= hour) continue;
+
+    const follows = previous !== undefined && new Date(previous.lastHour).getTime() + HOUR_MS === new Date(hour).getTime();
+    const breachedHours = isBreach(rule, sensorValue.value)
+      ? (follows ? previous.breachedHours : 0) + 1
+      : 0;
+    state[sensorValue.name] = { lastHour: hour, breachedHours, notifiedAt: breachedHours > 0 ? previous?.notifiedAt : undefined };
+
+    if (breachedHours === rule.consecutiveHours) {
+      const notifiedAt = new Date().toISOString();
+      state[sensorValue.name].notifiedAt = notifiedAt;
+      notifications.push({
+        ruleId: rule.ruleId,
+        ruleName: rule.name,
+        stationId: rule.stationId,
+        sensor: sensorValue.name,
+        unit: sensorValue.unit,
+        operator: rule.operator,
+        threshold: rule.threshold,
+        consecutiveHours: rule.consecutiveHours,
+        value: sensorValue.value,
+        hour,
+        message: `Station ${rule.stationId} ${sensorValue.name} has been ${rule.operator} ${rule.threshold} ${sensorValue.unit}`
+          + ` for ${rule.consecutiveHours} hour(s), latest value ${sensorValue.value} ${sensorValue.unit}`,
+      });
+    }
+  }
+
+  rule.state = state;
+  return notifications;
+};
+
+/**
+ * Evaluates the enabled rules of the stations in the values, sends
+ * notifications and stores the updated rule states. Rules are read with
+ * getAlertRules by the caller, so they can be read once for several calls:
+ * the states of the given rules are updated in place. Returns the number
+ * of notifications sent.
+ */
+export const evaluateAlertRules = async (
+  sensorValues: SensorValue[],
+  alertRules: AlertRule[],
+  getNotifier: (channel: NotifierChannel) => Notifier = createNotifier
+): Promise<number> => {
+  const stationIds = new Set(sensorValues.map(sensorValue => sensorValue.stationId));
+  const rules = alertRules.filter(rule => rule.enabled && stationIds.has(rule.stationId));
+  let sent = 0;
+
+  for (const rule of rules) {
+    const notifications = evaluateAlertRule(rule, sensorValues);
+    for (const notification of notifications) {
+      try {
+        await getNotifier(rule.channel).notify(notification);
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send alert of rule ${rule.ruleId}:`, error);
+      }
+    }
+    try {
+      await saveAlertRuleState(rule);
+    } catch (error) {
+      if ((error as { name?: string })?.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      console.log(`Alert rule ${rule.ruleId} was changed or deleted during evaluation, state not saved`);
+    }
+  }
+
+  return sent;
+};
@@ -0,0 +1,160 @@
+import { QueryCommand, QueryCommandOutput } from '@aws-sdk/lib-dynamodb';
+import { DayType, getDayType } from '../../../common/holidays';
+import { isSpeedSensor, isTrafficCountSensor } from '../../../common/sensors';
+import { addDays } from '../../../common/time';
+import { batchWriteItems, docClient } from './dynamo';
+import { getRequiredEnv } from './env';
+import { HourlySample } from './rollups';
+import { median } from './statistics';
+
+/**
+ * Anomalies are stored one item per local date, hour, station and sensor:
+ *   date = YYYY-MM-DD, anomalyKey = HH#stationId#SENSOR_NAME
+ * Detecting the same hour again overwrites the earlier result.
+ */
+export type AnomalyType = 'lowFlow' | 'spike' | 'speedDrop';
+
+export interface Anomaly {
+  date: string;
+  hour: number;
+  stationId: number;
+  stationName?: string;
+  regions?: string[];
+  sensor: string;
+  unit: string;
+  dayType: DayType;
+  type: AnomalyType;
+  value: number;
+  median: number;
+  mad: number;
+  score: number; // robust z-score
+  baselineSamples: number;
+  detectedAt: string;
+}
+
+// Modified z-score threshold suggested by Iglewicz and Hoaglin
+export const ANOMALY_SCORE_THRESHOLD = 3.5;
+
+// Hours of the same day type and hour needed before a baseline is trusted
+export const MIN_BASELINE_SAMPLES = 4;
+
+const getAnomalyTableName = () => getRequiredEnv('ANOMALY_TABLE_NAME');
+
+/**
+ * Median absolute deviation from the median
+ */
+export const medianAbsoluteDeviation = (values: number[], center = median(values)): number => {
+  return median(values.map(value => Math.abs(value - center)));
+};
+
+/**
+ * Modified z-score of a value against baseline values. Flat baselines have
+ * zero MAD, so the scale is kept at least 5% of the median or 1 to avoid
+ * flagging tiny changes.
+ */
+export const robustScore = (value: number, baseline: number[]): { median: number; mad: number; score: number } => {
+  const center = median(baseline);
+  const mad = medianAbsoluteDeviation(baseline, center);
+  const scale = Math.max(mad, Math.abs(center) * 0.05, 1);
+  return { median: center, mad, score: 0.6745 * (value - center) / scale };
+};
+
+const classify = (sample: HourlySample, score: number): AnomalyType | undefined => {
+  if (isTrafficCountSensor(sample)) {
+    if (score <= -ANOMALY_SCORE_THRESHOLD) return 'lowFlow';
+    if (score >= ANOMALY_SCORE_THRESHOLD) return 'spike';
+  }
+  if (isSpeedSensor(sample) && score <= -ANOMALY_SCORE_THRESHOLD) {
+    return 'speedDrop';
+  }
+  return undefined;
+};
+
+const getSampleMean = (sample: HourlySample): number => sample.sum / sample.count;
+
+/**
+ * Compares the samples of one local hour with the same sensor, day type
+ * and hour in the baseline samples. Baseline samples of the evaluated date
+ * are ignored.
+ */
+export const detectAnomalies = (
+  hourSamples: HourlySample[],
+  baselineSamples: HourlySample[],
+  station: { stationId: number; stationName?: string; regions?: string[] }
+): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+  const detectedAt = new Date().toISOString();
+
+  for (const sample of hourSamples) {
+    if (sample.count === 0) continue;
+
+    const dayType = getDayType(sample.date);
+    const baseline = baselineSamples
+      .filter(other => other.name === sample.name && other.hour === sample.hour && other.date !== sample.date && other.count > 0)
+      .filter(other => getDayType(other.date) === dayType)
+      .map(getSampleMean);
+    if (baseline.length < MIN_BASELINE_SAMPLES) continue;
+
+    const value = getSampleMean(sample);
+    const { median: center, mad, score } = robustScore(value, baseline);
+    const type = classify(sample, score);
+    if (!type) continue;
+
+    anomalies.push({
+      date: sample.date,
+      hour: sample.hour,
+      ...station,
+      sensor: sample.name,
+      unit: sample.unit,
+      dayType,
+      type,
+      value: Number(value.toFixed(1)),
+      median: Number(center.toFixed(1)),
+      mad: Number(mad.toFixed(1)),
+      score: Number(score.toFixed(2)),
+      baselineSamples: baseline.length,
+      detectedAt,
+    });
+  }
+
+  return anomalies;
+};
+
+const getAnomalyKey = (anomaly: Anomaly): string => {
+  return `${String(anomaly.hour).padStart(2, '0')}#${anomaly.stationId}#${anomaly.sensor}`;
+};
+
+export const saveAnomalies = async (anomalies: Anomaly[]): Promise<void> => {
+  const items = anomalies.map(anomaly => ({ ...anomaly, anomalyKey: getAnomalyKey(anomaly) }));
+  const failed = await batchWriteItems(getAnomalyTableName(), items);
+  if (failed.length > 0) {
+    throw new Error(`Failed to write ${failed.length} anomalies`);
+  }
+};
+
+/**
+ * Reads the anomalies of local dates [from, to]
+ */
+export const queryAnomalies = async (from: string, to: string): Promise<Anomaly[]> => {
+  const anomalies: Anomaly[] = [];
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    let lastEvaluatedKey: Record<string, any> | undefined = undefined;
+    do {
+      const result: QueryCommandOutput = await docClient.send(new QueryCommand({
+        TableName: getAnomalyTableName(),
+        KeyConditionExpression: '#date = :date',
+        ExpressionAttributeNames: { '#date': 'date' },
+        ExpressionAttributeValues: { ':date': date },
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+      (result.Items || []).forEach(item => {
+        const { anomalyKey, ...anomaly } = item;
+        anomalies.push(anomaly as Anomaly);
+      });
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+  }
+
+  return anomalies;
+};
@@ -0,0 +1,141 @@
+import { GetObjectCommand, ListObjectsV2Command, ListObjectsV2CommandOutput, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { gunzipSync, gzipSync } from 'zlib';
+import { SensorValue } from '../../../common/interfaces';
+import { addDays, localToUtc } from '../../../common/time';
+import { getRequiredEnv } from './env';
+import { querySensorValues } from './sensorValues';
+
+const s3Client = new S3Client({ region: process.env.AWS_REGION });
+
+/**
+ * Raw sensor values are archived as gzip compressed NDJSON, one object per
+ * station and local date, partitioned by station, year and month:
+ *   raw/station=<stationId>/year=YYYY/month=MM/YYYY-MM-DD.ndjson.gz
+ * Days without values get an empty marker object in place of the archive:
+ *   raw/station=<stationId>/year=YYYY/month=MM/YYYY-MM-DD.empty
+ */
+export const ARCHIVE_KEY_PREFIX = 'raw/';
+
+// Presigned download URLs are valid for 15 minutes
+const DOWNLOAD_URL_EXPIRES_SECONDS = 15 * 60;
+
+export interface ArchivedDay {
+  date: string;
+  key: string;
+  size: number;
+}
+
+const getBucketName = () => getRequiredEnv('ARCHIVE_BUCKET_NAME');
+
+const getMonthPrefix = (stationId: number, month: string): string => {
+  return `${ARCHIVE_KEY_PREFIX}station=${stationId}/year=${month.substring(0, 4)}/month=${month.substring(5, 7)}/`;
+};
+
+export const getArchiveKey = (stationId: number, date: string): string => {
+  return `${getMonthPrefix(stationId, date)}${date}.ndjson.gz`;
+};
+
+const getEmptyDayKey = (stationId: number, date: string): string => {
+  return `${getMonthPrefix(stationId, date)}${date}.empty`;
+};
+
+/**
+ * Writes the raw values of a station measured on a local date to the archive.
+ * An existing archive of the same date is replaced, so a day can be archived again.
+ * Returns the number of archived values. Days without values get an empty
+ * marker instead, so that they are not queried again, see listCheckedDays.
+ */
+export const archiveStationDay = async (stationId: number, date: string): Promise<number> => {
+  const items = await querySensorValues(stationId, localToUtc(date), localToUtc(addDays(date, 1)));
+  if (items.length === 0) {
+    await s3Client.send(new PutObjectCommand({
+      Bucket: getBucketName(),
+      Key: getEmptyDayKey(stationId, date),
+      Body: '',
+    }));
+    return 0;
+  }
+
+  // Table keys and TTL are not part of the measured data
+  const lines = items.map(item => {
+    const { compositeKey, expiresAt, ...sensorValue } = item as SensorValue & { compositeKey?: string; expiresAt?: number };
+    return JSON.stringify(sensorValue);
+  });
+
+  await s3Client.send(new PutObjectCommand({
+    Bucket: getBucketName(),
+    Key: getArchiveKey(stationId, date),
+    Body: gzipSync(lines.join('\n') + '\n'),
+    ContentType: 'application/gzip',
+  }));
+
+  return items.length;
+};
+
+/**
+ * Lists the objects of a station within local dates [from, to] whose key
+ * ends with the date and one of the suffixes
+ */
+const listDayObjects = async (stationId: number, from: string, to: string, suffixes: string[]): Promise<ArchivedDay[]> => {
+  const days: ArchivedDay[] = [];
+
+  for (let month = from.substring(0, 7); month <= to.substring(0, 7); month = addDays(`${month}-01`, 31).substring(0, 7)) {
+    let continuationToken: string | undefined = undefined;
+    do {
+      const result: ListObjectsV2CommandOutput = await s3Client.send(new ListObjectsV2Command({
+        Bucket: getBucketName(),
+        Prefix: getMonthPrefix(stationId, month),
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of result.Contents || []) {
+        const [, date, suffix] = object.Key?.match(/(\d{4}-\d{2}-\d{2})(\..+)$/) || [];
+        if (object.Key && date && suffixes.includes(suffix) && date >= from && date <= to) {
+          days.push({ date, key: object.Key, size: object.Size || 0 });
+        }
+      }
+      continuationToken = result.NextContinuationToken;
+    } while (continuationToken);
+  }
+
+  return days.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Lists the archived local dates of a station within [from, to]
+ */
+export const listArchivedDays = async (stationId: number, from: string, to: string): Promise<ArchivedDay[]> => {
+  return listDayObjects(stationId, from, to, ['.ndjson.gz']);
+};
+
+/**
+ * Lists the local dates of a station within [from, to] that have been
+ * archived or were found to have no values
+ */
+export const listCheckedDays = async (stationId: number, from: string, to: string): Promise<string[]> => {
+  return (await listDayObjects(stationId, from, to, ['.ndjson.gz', '.empty'])).map(day => day.date);
+};
+
+export const getArchiveDownloadUrl = async (key: string): Promise<string> => {
+  return getSignedUrl(s3Client, new GetObjectCommand({ Bucket: getBucketName(), Key: key }), {
+    expiresIn: DOWNLOAD_URL_EXPIRES_SECONDS,
+  });
+};
+
+/**
+ * Reads the archived raw values of a station for a local date
+ */
+export const readArchivedDay = async (stationId: number, date: string): Promise<SensorValue[]> => {
+  const result = await s3Client.send(new GetObjectCommand({
+    Bucket: getBucketName(),
+    Key: getArchiveKey(stationId, date),
+  }));
+  const body = await result.Body?.transformToByteArray();
+  if (!body) {
+    return [];
+  }
+  return gunzipSync(body).toString('utf8')
+    .split('\n')
+    .filter(line => line)
+    .map(line => JSON.parse(line) as SensorValue);
+};
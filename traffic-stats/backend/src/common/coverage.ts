@@ -0,0 +1,131 @@
+import { FINNISH_TIME_ZONE, addDays, localToUtc, toLocalTime } from '../../../common/time';
+import { HourlySample } from './rollups';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ExpectedHour {
+  key: string; // local YYYY-MM-DDTHH
+  date: string;
+  start: Date;
+}
+
+export interface MissingRange {
+  start: string; // UTC start of the first missing hour
+  end: string; // UTC end of the last missing hour
+  hours: number;
+}
+
+export interface CoverageSummary {
+  expectedHours: number;
+  receivedHours: number;
+  completeness: number | null; // percentage, null when no hours are expected
+}
+
+export interface SensorCoverage extends CoverageSummary {
+  name: string;
+  unit: string;
+  missingRanges: MissingRange[];
+}
+
+const getHourKey = (date: string, hour: number): string => `${date}T${String(hour).padStart(2, '0')}`;
+
+/**
+ * Local hours of [from, to] that should have been collected by now. The hour
+ * that has just ended is collected a few minutes later, so it is not yet expected.
+ * The repeated hour at the end of daylight saving time shares one rollup hour.
+ */
+export const getExpectedHours = (from: string, to: string, now = new Date(), timeZone: string = FINNISH_TIME_ZONE): ExpectedHour[] => {
+  const hours: ExpectedHour[] = [];
+  const keys = new Set<string>();
+  const lastStart = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS - HOUR_MS;
+  const end = Math.min(localToUtc(addDays(to, 1), 0, timeZone).getTime(), lastStart);
+
+  for (let time = localToUtc(from, 0, timeZone).getTime(); time < end; time += HOUR_MS) {
+    const local = toLocalTime(new Date(time), timeZone);
+    const key = getHourKey(local.date, local.hour);
+    if (keys.has(key)) continue;
+    keys.add(key);
+    hours.push({ key, date: local.date, start: new Date(time) });
+  }
+
+  return hours;
+};
+
+const getReceivedKeys = (samples: HourlySample[]): Set<string> => {
+  return new Set(samples.filter(sample => sample.count > 0).map(sample => getHourKey(sample.date, sample.hour)));
+};
+
+const toSummary = (expected: ExpectedHour[], received: Set<string>): CoverageSummary => {
+  const receivedHours = expected.filter(hour => received.has(hour.key)).length;
+  return {
+    expectedHours: expected.length,
+    receivedHours,
+    completeness: expected.length > 0 ? Number((receivedHours / expected.length * 100).toFixed(1)) : null,
+  };
+};
+
+/**
+ * Coverage of hours that have a sample of any of the given samples' sensors
+ */
+export const summarizeCoverage = (expected: ExpectedHour[], samples: HourlySample[]): CoverageSummary => {
+  return toSummary(expected, getReceivedKeys(samples));
+};
+
+/**
+ * Consecutive expected hours without samples
+ */
+export const getMissingRanges = (expected: ExpectedHour[], samples: HourlySample[]): MissingRange[] => {
+  const received = getReceivedKeys(samples);
+  const ranges: { start: number; end: number }[] = [];
+
+  for (const hour of expected) {
+    if (received.has(hour.key)) continue;
+    const start = hour.start.getTime();
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === start) {
+      last.end = start + HOUR_MS;
+    } else {
+      ranges.push({ start, end: start + HOUR_MS });
+    }
+  }
+
+  return ranges.map(range => ({
+    start: new Date(range.start).toISOString(),
+    end: new Date(range.end).toISOString(),
+    hours: (range.end - range.start) / HOUR_MS,
+  }));
+};
+
+/**
+ * Coverage of each expected sensor and of the other sensors that have samples
+ * in the period. Expected sensors without samples have no received hours and
+ * the whole period missing.
+ */
+export const getSensorCoverage = (
+  expected: ExpectedHour[],
+  samples: HourlySample[],
+  expectedSensors: { name: string; unit: string }[] = []
+): SensorCoverage[] => {
+  const samplesBySensor = new Map<string, HourlySample[]>();
+  const units = new Map(expectedSensors.map(sensor => [sensor.name, sensor.unit]));
+  for (const sensor of expectedSensors) {
+    samplesBySensor.set(sensor.name, []);
+  }
+  for (const sample of samples) {
+    const sensorSamples = samplesBySensor.get(sample.name) || [];
+    sensorSamples.push(sample);
+    samplesBySensor.set(sample.name, sensorSamples);
+    if (!units.has(sample.name)) {
+      units.set(sample.name, sample.unit);
+    }
+  }
+
+  return Array.from(samplesBySensor.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, sensorSamples]) => ({
+      name,
+      unit: units.get(name) || '',
+      ...summarizeCoverage(expected, sensorSamples),
+      missingRanges: getMissingRanges(expected, sensorSamples),
+    }));
+};
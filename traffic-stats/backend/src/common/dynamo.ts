@@ -0,0 +1,45 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchWriteCommand, BatchWriteCommandOutput, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+// DYNAMODB_ENDPOINT points the client to DynamoDB Local in local development
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION, endpoint: process.env.DYNAMODB_ENDPOINT });
+
+export const docClient = DynamoDBDocumentClient.from(dynamoClient, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+// Maximum number of items in one BatchWriteItem request
+export const BATCH_WRITE_SIZE = 25;
+
+const BATCH_WRITE_ATTEMPTS = 5;
+
+/**
+ * Puts items into a table with BatchWriteItem, retrying items DynamoDB
+ * could not process due to throttling. Returns the items that were still
+ * unprocessed after the last attempt, or whose request failed.
+ */
+export const batchWriteItems = async (tableName: string, items: Record<string, any>[]): Promise<Record<string, any>[]> => {
+  const failed: Record<string, any>[] = [];
+
+  for (let i = 0; i < items.length; i += BATCH_WRITE_SIZE) {
+    let requests: Record<string, any>[] = items.slice(i, i + BATCH_WRITE_SIZE).map(item => ({ PutRequest: { Item: item } }));
+
+    for (let attempt = 0; requests.length > 0 && attempt < BATCH_WRITE_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, Math.random() * 100 * 2 ** attempt));
+      }
+      try {
+        const result: BatchWriteCommandOutput = await docClient.send(new BatchWriteCommand({
+          RequestItems: { [tableName]: requests },
+        }));
+        requests = (result.UnprocessedItems?.[tableName] || []) as Record<string, any>[];
+      } catch (error) {
+        console.error(`Batch write to ${tableName} failed on attempt ${attempt + 1}:`, error);
+      }
+    }
+
+    failed.push(...requests.map(request => request.PutRequest.Item));
+  }
+
+  return failed;
+};
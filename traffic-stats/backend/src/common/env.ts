@@ -0,0 +1,10 @@
+/**
+ * Reads a required value from the environment, e.g. a table or bucket name
+ */
+export const getRequiredEnv = (variable: string): string => {
+  const value = process.env[variable];
+  if (!value) {
+    throw new Error(`${variable} environment variable is not defined`);
+  }
+  return value;
+};
@@ -0,0 +1,117 @@
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { randomUUID } from 'crypto';
+import { Station } from '../../../common/interfaces';
+import { ApiError } from './http';
+
+const s3Client = new S3Client({ region: process.env.AWS_REGION });
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson'];
+
+export type ExportRow = { [column: string]: string | number | null | undefined };
+
+// Lambda responses are limited to 6 MB, larger exports are delivered from S3
+const MAX_INLINE_BYTES = 5 * 1024 * 1024;
+
+// Exports are written under this prefix of the export bucket, which expires them
+export const EXPORT_KEY_PREFIX = 'exports/';
+
+// Presigned download URLs are valid for 15 minutes
+const DOWNLOAD_URL_EXPIRES_SECONDS = 15 * 60;
+
+const CONTENT_TYPES: { [format: string]: string } = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  geojson: 'application/geo+json',
+};
+
+export const isExportFormat = (format: string): format is ExportFormat => {
+  return (EXPORT_FORMATS as string[]).includes(format);
+};
+
+// Fields containing separators, quotes or line breaks are quoted, empty values are left empty
+const toCsvField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with a header row of the column names, rows in column order
+ */
+export const toCsv = (columns: string[], rows: ExportRow[]): string => {
+  const lines = [columns.join(','), ...rows.map(row => columns.map(column => toCsvField(row[column])).join(','))];
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * Newline delimited JSON, one object per row with the columns in order
+ */
+export const toNdjson = (columns: string[], rows: ExportRow[]): string => {
+  return rows.map(row => JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null]))) + '\n').join('');
+};
+
+/**
+ * Stations as a GeoJSON FeatureCollection of points, the other station
+ * details are feature properties
+ */
+export const toGeoJson = (stations: Station[]) => ({
+  type: 'FeatureCollection',
+  features: stations.map(({ lat, lon, ...properties }) => ({
+    type: 'Feature',
+    id: properties.id,
+    geometry: { type: 'Point', coordinates: [lon, lat] },
+    properties,
+  })),
+});
+
+/**
+ * Response with a downloadable file. Files too large for a Lambda response
+ * are written to the export bucket (EXPORT_BUCKET_NAME) and the client is
+ * redirected to a presigned download URL.
+ */
+export const fileResponse = async (body: string, format: string, fileName: string): Promise<APIGatewayProxyResult> => {
+  const contentType = CONTENT_TYPES[format];
+  const contentDisposition = `attachment; filename="${fileName}"`;
+
+  if (Buffer.byteLength(body) <= MAX_INLINE_BYTES) {
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': contentType, 'Content-Disposition': contentDisposition },
+      body,
+    };
+  }
+
+  const bucket = process.env.EXPORT_BUCKET_NAME;
+  if (!bucket) {
+    throw new ApiError(413, 'PAYLOAD_TOO_LARGE', 'Export is too large, select a shorter period');
+  }
+
+  const key = `${EXPORT_KEY_PREFIX}${randomUUID()}/${fileName}`;
+  console.log(`Export of ${Buffer.byteLength(body)} bytes is delivered from s3://${bucket}/${key}`);
+  await s3Client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: contentType }));
+  const url = await getSignedUrl(s3Client, new GetObjectCommand({
+    Bucket: bucket,
+    Key: key,
+    ResponseContentDisposition: contentDisposition,
+  }), { expiresIn: DOWNLOAD_URL_EXPIRES_SECONDS });
+
+  return {
+    statusCode: 303,
+    headers: { Location: url },
+    body: '',
+  };
+};
+
+/**
+ * Rows as a CSV or NDJSON file response
+ */
+export const exportResponse = (format: ExportFormat, columns: string[], rows: ExportRow[], fileName: string): Promise<APIGatewayProxyResult> => {
+  const body = format === 'csv' ? toCsv(columns, rows) : toNdjson(columns, rows);
+  return fileResponse(body, format, `${fileName}.${format}`);
+};
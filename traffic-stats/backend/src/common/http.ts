@@ -0,0 +1,154 @@
+import { APIGatewayProxyEvent, APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
+import { randomUUID } from 'crypto';
+import openapi from '../../../common/api/openapi.json';
+import { OpenApiDocument, Operation, OperationObject, SchemaObject, getOperations } from '../../../common/api/spec';
+import { ErrorResponse } from '../../../common/api/types';
+import { validateSchema } from '../../../common/api/validate';
+
+// Requests are validated against the API contract
+const document = openapi as unknown as OpenApiDocument;
+const operations = getOperations(document);
+
+export type ErrorCode = ErrorResponse['code'];
+
+/**
+ * Error returned to the client with its status and code. Other errors thrown
+ * by handlers are logged and returned as internal errors without details.
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: string[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface ApiRequest<P> {
+  event: APIGatewayProxyEvent;
+  // Path and query parameters of the operation, numbers converted to numbers
+  params: P;
+  // Validated JSON body of operations with a request body
+  body: unknown;
+  requestId: string;
+}
+
+export const jsonResponse = (statusCode: number, body: unknown): APIGatewayProxyResult => {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+};
+
+const errorResponse = (error: ApiError, requestId: string): APIGatewayProxyResult => {
+  const body: ErrorResponse = { code: error.code, message: error.message, requestId, details: error.details };
+  return jsonResponse(error.statusCode, body);
+};
+
+const getCorsHeaders = (routeOperations: Operation[]) => ({
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': [...routeOperations.map(({ method }) => method.toUpperCase()), 'OPTIONS'].join(','),
+  'Access-Control-Expose-Headers': 'X-Request-Id',
+});
+
+const resolveSchema = (schema: SchemaObject): SchemaObject => {
+  return schema.$ref ? document.components.schemas[schema.$ref.replace('#/components/schemas/', '')] : schema;
+};
+
+// Parameters are strings in the event, numeric parameters are converted before validation
+const toSchemaType = (schema: SchemaObject, value: string): string | number => {
+  const isNumeric = schema.type === 'integer' || schema.type === 'number';
+  return isNumeric && /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+};
+
+const parseParameters = (operation: OperationObject, event: APIGatewayProxyEvent) => {
+  const params: { [name: string]: string | number } = {};
+  const errors: string[] = [];
+
+  for (const parameter of operation.parameters || []) {
+    const values = parameter.in === 'path' ? event.pathParameters : event.queryStringParameters;
+    const value = values?.[parameter.name];
+    // Empty query values, e.g. ?dayType=, are the same as leaving the parameter out
+    if (value === undefined || value === '') {
+      if (parameter.required) {
+        errors.push(`${parameter.name}: is required`);
+      }
+      continue;
+    }
+    const typedValue = toSchemaType(resolveSchema(parameter.schema), value);
+    const parameterErrors = validateSchema(document, parameter.schema, typedValue, parameter.name);
+    errors.push(...parameterErrors);
+    params[parameter.name] = typedValue;
+  }
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Invalid parameters: ${errors.join('; ')}`, errors);
+  }
+  return params;
+};
+
+const parseBody = (operation: OperationObject, body: string | null): unknown => {
+  const schema = operation.requestBody?.content['application/json']?.schema;
+  if (!schema) {
+    return undefined;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(body || 'null');
+  } catch {
+    throw new ApiError(400, 'INVALID_BODY', 'Request body must be valid JSON');
+  }
+  const errors = validateSchema(document, schema, value, 'body');
+  if (errors.length > 0) {
+    throw new ApiError(400, 'INVALID_BODY', `Invalid request body: ${errors.join('; ')}`, errors);
+  }
+  return value;
+};
+
+/**
+ * Wraps an API handler. The operation of the request is looked up from
+ * openapi.json by the API Gateway resource and method, and its parameters
+ * and body are validated before calling the handler. CORS and X-Request-Id
+ * headers are added to every response. ApiErrors thrown by the handler are
+ * returned with their code, other errors as internal errors without details.
+ */
+export const apiHandler = <P extends object = object>(
+  handler: (request: ApiRequest<P>) => Promise<APIGatewayProxyResult>
+): APIGatewayProxyHandler => async (event, context) => {
+  const requestId = event.requestContext?.requestId || context?.awsRequestId || randomUUID();
+  const routeOperations = operations.filter(({ path }) => path === event.resource);
+  const headers = { ...getCorsHeaders(routeOperations), 'X-Request-Id': requestId };
+
+  let result: APIGatewayProxyResult;
+  try {
+    if (routeOperations.length === 0) {
+      throw new ApiError(404, 'NOT_FOUND', `Unknown route ${event.resource}`);
+    }
+    if (event.httpMethod === 'OPTIONS') {
+      return { statusCode: 200, headers, body: '' };
+    }
+    const route = routeOperations.find(({ method }) => method.toUpperCase() === event.httpMethod);
+    if (!route) {
+      throw new ApiError(405, 'METHOD_NOT_ALLOWED', `Method ${event.httpMethod} not allowed`);
+    }
+
+    const params = parseParameters(route.operation, event) as P;
+    const body = parseBody(route.operation, event.body);
+    result = await handler({ event, params, body, requestId });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      result = errorResponse(error, requestId);
+    } else {
+      console.error(`Request ${requestId} ${event.httpMethod} ${event.path} failed:`, error);
+      result = errorResponse(new ApiError(500, 'INTERNAL_ERROR', 'Internal server error'), requestId);
+    }
+  }
+
+  return { ...result, headers: { ...result.headers, ...headers } };
+};
@@ -0,0 +1,128 @@
+import { SensorValue } from '../../../common/interfaces';
+import { QUANTITY_UNITS, SensorQuantity, formatSensorName } from '../../../common/sensors';
+
+/**
+ * Digitraffic LAM raw data has one semicolon separated row per passing vehicle:
+ *   station;year;day of year;hour;minute;second;hundredth;length;lane;direction;vehicle class;speed;faulty;total time;interval;queue start
+ * Year has two digits and times are in Finnish standard time (UTC+2) all year round.
+ * Daily files are published per LAM number as lamraw_<tmsNumber>_<yy>_<dayOfYear>.csv
+ */
+export const LAM_RAW_URL = 'https://tie.digitraffic.fi/api/tms/v1/history/raw';
+
+export const DEFAULT_LAM_RAW_UTC_OFFSET_HOURS = 2;
+
+export interface LamRawVehicle {
+  time: Date;
+  lane: number;
+  direction: number;
+  vehicleClass: number;
+  speed: number;
+}
+
+// Hourly sensors produced from raw data, the same sensors are collected from the live API
+const getHourlySensor = (quantity: SensorQuantity, direction: number): Pick<SensorValue, 'name' | 'unit'> => ({
+  name: formatSensorName({ quantity, windowMinutes: 60, window: 'fixed', direction }),
+  unit: QUANTITY_UNITS[quantity] as string,
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const getDayOfYear = (date: string): number => {
+  const year = parseInt(date.substring(0, 4), 10);
+  return Math.round((new Date(`${date}T00:00:00Z`).getTime() - Date.UTC(year, 0, 1)) / (24 * HOUR_MS)) + 1;
+};
+
+export const getLamRawFileName = (tmsNumber: number, date: string): string => {
+  return `lamraw_${tmsNumber}_${date.substring(2, 4)}_${getDayOfYear(date)}.csv`;
+};
+
+/**
+ * Parses the vehicles of a raw data file. Rows marked faulty and rows that
+ * cannot be parsed are skipped.
+ */
+export const parseLamRawCsv = (csv: string, utcOffsetHours = DEFAULT_LAM_RAW_UTC_OFFSET_HOURS): LamRawVehicle[] => {
+  const vehicles: LamRawVehicle[] = [];
+
+  for (const line of csv.split(/\r?\n/)) {
+    const columns = line.trim().split(';').map(column => parseInt(column, 10));
+    if (columns.length < 13 || columns.slice(0, 13).some(column => isNaN(column))) continue;
+
+    const [, year, dayOfYear, hour, minute, second, hundredth, , lane, direction, vehicleClass, speed, faulty] = columns;
+    if (faulty !== 0) continue;
+
+    vehicles.push({
+      time: new Date(Date.UTC(2000 + year, 0, dayOfYear, hour - utcOffsetHours, minute, second, hundredth * 10)),
+      lane,
+      direction,
+      vehicleClass,
+      speed,
+    });
+  }
+
+  return vehicles;
+};
+
+const toDigitrafficTime = (time: Date): string => time.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+/**
+ * Aggregates the vehicles of a raw data file into fixed hourly count and
+ * average speed values per direction, in the same form as the values
+ * collected from the live API. Hours of the file date without vehicles get
+ * a zero count. Windows are whole hours and measuredTime is the end of the
+ * window, so the same file always produces the same keys.
+ */
+export const aggregateHourly = (
+  stationId: number,
+  date: string,
+  vehicles: LamRawVehicle[],
+  utcOffsetHours = DEFAULT_LAM_RAW_UTC_OFFSET_HOURS
+): SensorValue[] => {
+  const dayStart = new Date(`${date}T00:00:00Z`).getTime() - utcOffsetHours * HOUR_MS;
+  const directions = Array.from(new Set(vehicles.map(vehicle => vehicle.direction))).sort();
+  const windows = new Map<string, { start: number; direction: number; count: number; speedSum: number }>();
+
+  for (let hour = 0; hour < 24; hour++) {
+    for (const direction of directions) {
+      const start = dayStart + hour * HOUR_MS;
+      windows.set(`${start}#${direction}`, { start, direction, count: 0, speedSum: 0 });
+    }
+  }
+
+  for (const vehicle of vehicles) {
+    const start = Math.floor(vehicle.time.getTime() / HOUR_MS) * HOUR_MS;
+    const window = windows.get(`${start}#${vehicle.direction}`);
+    // Vehicles outside the file date are ignored
+    if (!window) continue;
+    window.count++;
+    window.speedSum += vehicle.speed;
+  }
+
+  const sensorValues: SensorValue[] = [];
+  for (const window of windows.values()) {
+    const timeWindowStart = toDigitrafficTime(new Date(window.start));
+    const timeWindowEnd = toDigitrafficTime(new Date(window.start + HOUR_MS));
+    const base = {
+      // Sensor IDs and short names are not part of the raw data
+      id: 0,
+      shortName: '',
+      stationId,
+      timeWindowStart,
+      timeWindowEnd,
+      measuredTime: timeWindowEnd,
+    };
+    sensorValues.push({
+      ...base,
+      ...getHourlySensor('trafficCount', window.direction),
+      value: window.count,
+    });
+    if (window.count > 0) {
+      sensorValues.push({
+        ...base,
+        ...getHourlySensor('averageSpeed', window.direction),
+        value: Number((window.speedSum / window.count).toFixed(1)),
+      });
+    }
+  }
+
+  return sensorValues.sort((a, b) => a.measuredTime.localeCompare(b.measuredTime) || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,97 @@
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import axios from 'axios';
+import { getRequiredEnv } from './env';
+
+const snsClient = new SNSClient({ region: process.env.AWS_REGION });
+
+export interface AlertNotification {
+  ruleId: string;
+  ruleName?: string;
+  stationId: number;
+  sensor: string;
+  unit: string;
+  operator: 'above' | 'below';
+  threshold: number;
+  consecutiveHours: number;
+  value: number;
+  hour: string; // UTC start of the hour that completed the alert
+  message: string;
+}
+
+export interface Notifier {
+  notify(notification: AlertNotification): Promise<void>;
+}
+
+/**
+ * Publishes notifications to the alert SNS topic as JSON
+ */
+export class SnsNotifier implements Notifier {
+  async notify(notification: AlertNotification): Promise<void> {
+    await snsClient.send(new PublishCommand({
+      TopicArn: getRequiredEnv('ALERT_TOPIC_ARN'),
+      Subject: `Traffic alert: station ${notification.stationId}`.substring(0, 100),
+      Message: JSON.stringify(notification),
+    }));
+  }
+}
+
+/**
+ * Hosts that webhook notifications may be posted to, from the comma separated
+ * ALERT_WEBHOOK_HOSTS. Webhooks are disabled when no hosts are allowed.
+ */
+export const getAllowedWebhookHosts = (): string[] => {
+  return (process.env.ALERT_WEBHOOK_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(host => host);
+};
+
+export const isAllowedWebhookUrl = (url: string): boolean => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && getAllowedWebhookHosts().includes(parsed.hostname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Posts notifications as JSON to the webhook URL of the rule. The URL is
+ * checked again when sending, so rules saved before a host was removed from
+ * the allowed hosts are not posted to it.
+ */
+export class WebhookNotifier implements Notifier {
+  constructor(private readonly url: string) {
+    if (!isAllowedWebhookUrl(url)) {
+      throw new Error(`Webhook host of ${url} is not in ALERT_WEBHOOK_HOSTS`);
+    }
+  }
+
+  async notify(notification: AlertNotification): Promise<void> {
+    await axios.post(this.url, notification, { timeout: 5000 });
+  }
+}
+
+/**
+ * Keeps notifications in memory instead of sending them. Used when
+ * ALERT_NOTIFIER=local, i.e. in the local environment and test/local.test.ts.
+ */
+export class LocalNotifier implements Notifier {
+  readonly notifications: AlertNotification[] = [];
+
+  async notify(notification: AlertNotification): Promise<void> {
+    console.log(`Local alert: ${notification.message}`);
+    this.notifications.push(notification);
+  }
+}
+
+export const localNotifier = new LocalNotifier();
+
+export type NotifierChannel = { type: 'sns' } | { type: 'webhook'; url: string };
+
+/**
+ * Notifier of a rule's channel, or the local notifier when ALERT_NOTIFIER=local
+ */
+export const createNotifier = (channel: NotifierChannel): Notifier => {
+  if (process.env.ALERT_NOTIFIER === 'local') {
+    return localNotifier;
+  }
+  return channel.type === 'webhook' ? new WebhookNotifier(channel.url) : new SnsNotifier();
+};
@@ -0,0 +1,142 @@
+import { isSpeedSensor, isTrafficCountSensor, parseSensorName } from '../../../common/sensors';
+import { HourlySample } from './rollups';
+import { Distribution, describe } from './statistics';
+
+/**
+ * Hourly traffic count and speed profiles calculated from hourly samples.
+ * Averages are unrounded and undefined when the hour has no values.
+ */
+export interface HourlyAverage {
+  hour: number;
+  trafficCount?: number;
+  avgSpeed?: number;
+}
+
+export interface HourlyDistribution {
+  trafficCount?: Distribution;
+  avgSpeed?: Distribution;
+}
+
+interface HourTotals {
+  countSum: number;
+  countPoints: number;
+  speedSum: number;
+  speedPoints: number;
+}
+
+const createTotals = (): HourTotals => ({ countSum: 0, countPoints: 0, speedSum: 0, speedPoints: 0 });
+
+/**
+ * Zero traffic counts are real quiet hours and are counted. Zero speed
+ * means that no vehicles were measured, so zero speeds are left out.
+ */
+export const getValuePoints = (sample: HourlySample): number => {
+  return isSpeedSensor(sample) ? sample.count - sample.zeros : sample.count;
+};
+
+const addSample = (totals: HourTotals, sample: HourlySample): void => {
+  if (isTrafficCountSensor(sample)) {
+    totals.countSum += sample.sum;
+    totals.countPoints += getValuePoints(sample);
+  } else if (isSpeedSensor(sample)) {
+    totals.speedSum += sample.sum;
+    totals.speedPoints += getValuePoints(sample);
+  }
+};
+
+const toAverage = (hour: number, totals: HourTotals): HourlyAverage => ({
+  hour,
+  trafficCount: totals.countPoints > 0 ? totals.countSum / totals.countPoints : undefined,
+  avgSpeed: totals.speedPoints > 0 ? totals.speedSum / totals.speedPoints : undefined,
+});
+
+/**
+ * Averages traffic count and speed sensors by hour
+ */
+export const averageByHour = (samples: HourlySample[]): HourlyAverage[] => {
+  const totals = Array.from({ length: 24 }, createTotals);
+  samples.forEach(sample => addSample(totals[sample.hour], sample));
+  return totals.map((total, hour) => toAverage(hour, total));
+};
+
+/**
+ * Averages traffic count and speed sensors by local date and hour, keyed by YYYY-MM-DD#H
+ */
+export const averageByDateAndHour = (samples: HourlySample[]): Map<string, HourlyAverage> => {
+  const totals = new Map<string, HourTotals>();
+  for (const sample of samples) {
+    const key = `${sample.date}#${sample.hour}`;
+    if (!totals.has(key)) {
+      totals.set(key, createTotals());
+    }
+    addSample(totals.get(key) as HourTotals, sample);
+  }
+  return new Map(Array.from(totals.entries()).map(([key, total]) => [key, toAverage(parseInt(key.split('#')[1], 10), total)]));
+};
+
+/**
+ * Distributions of the daily averages of each hour
+ */
+export const describeByHour = (dailyAverages: HourlyAverage[]): HourlyDistribution[] => {
+  const values = Array.from({ length: 24 }, () => ({ trafficCounts: [] as number[], speeds: [] as number[] }));
+  for (const average of dailyAverages) {
+    if (average.trafficCount !== undefined) values[average.hour].trafficCounts.push(average.trafficCount);
+    if (average.avgSpeed !== undefined) values[average.hour].speeds.push(average.avgSpeed);
+  }
+  return values.map(hourValues => ({ trafficCount: describe(hourValues.trafficCounts), avgSpeed: describe(hourValues.speeds) }));
+};
+
+/**
+ * Bidirectional total of an hour: traffic counts are summed and speeds
+ * weighted by the traffic counts of the directions, or averaged if some
+ * direction has no traffic count
+ */
+export const combineDirections = (hour: number, averages: HourlyAverage[]): HourlyAverage => {
+  let trafficCount: number | undefined = undefined;
+  let weightedSpeed = 0;
+  let speedSum = 0;
+  let speedDirections = 0;
+  let weighted = true;
+
+  for (const average of averages) {
+    if (average.trafficCount !== undefined) {
+      trafficCount = (trafficCount || 0) + average.trafficCount;
+    }
+    if (average.avgSpeed !== undefined) {
+      speedSum += average.avgSpeed;
+      speedDirections++;
+      if (average.trafficCount) {
+        weightedSpeed += average.avgSpeed * average.trafficCount;
+      } else {
+        weighted = false;
+      }
+    }
+  }
+
+  const weightedCount = averages.reduce((sum, average) => sum + (average.avgSpeed !== undefined && average.trafficCount ? average.trafficCount : 0), 0);
+  const avgSpeed = speedDirections === 0 ? undefined : weighted ? weightedSpeed / weightedCount : speedSum / speedDirections;
+  return { hour, trafficCount, avgSpeed };
+};
+
+/**
+ * Directions of the directional sensors in the samples, in order
+ */
+export const getSampleDirections = (samples: HourlySample[]): number[] => {
+  return Array.from(new Set(samples.map(sample => parseSensorName(sample.name).direction)))
+    .filter((direction): direction is number => direction !== undefined)
+    .sort();
+};
+
+/**
+ * Bidirectional hourly averages of a station: directions are averaged
+ * separately and combined, sensors without direction are only used when the
+ * station has no directional sensors
+ */
+export const averageBidirectional = (samples: HourlySample[]): HourlyAverage[] => {
+  const directions = getSampleDirections(samples);
+  if (directions.length === 0) {
+    return averageByHour(samples);
+  }
+  const directionAverages = directions.map(direction => averageByHour(samples.filter(sample => parseSensorName(sample.name).direction === direction)));
+  return Array.from({ length: 24 }, (_, hour) => combineDirections(hour, directionAverages.map(averages => averages[hour])));
+};
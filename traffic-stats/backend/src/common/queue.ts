@@ -0,0 +1,69 @@
+import { SQSClient, SendMessageBatchCommand, SendMessageBatchRequestEntry } from '@aws-sdk/client-sqs';
+import { SQSRecord } from 'aws-lambda';
+import { randomUUID } from 'crypto';
+
+const sqsClient = new SQSClient({ region: process.env.AWS_REGION });
+
+export interface MessageQueue {
+  /**
+   * Sends the entries to the queue and resolves with the IDs of the entries that failed
+   */
+  sendBatch(queueUrl: string, entries: SendMessageBatchRequestEntry[]): Promise<string[]>;
+}
+
+/**
+ * Sends messages to SQS with SendMessageBatch
+ */
+export class SqsQueue implements MessageQueue {
+  async sendBatch(queueUrl: string, entries: SendMessageBatchRequestEntry[]): Promise<string[]> {
+    const result = await sqsClient.send(new SendMessageBatchCommand({ QueueUrl: queueUrl, Entries: entries }));
+    return (result.Failed || []).map(failure => failure.Id as string);
+  }
+}
+
+/**
+ * Keeps messages in memory until they are received. Used when
+ * MESSAGE_QUEUE=local, the local development server passes the received
+ * messages to the processor as SQS records.
+ */
+export class LocalQueue implements MessageQueue {
+  private readonly messages: { queueUrl: string; body: string }[] = [];
+
+  async sendBatch(queueUrl: string, entries: SendMessageBatchRequestEntry[]): Promise<string[]> {
+    entries.forEach(entry => this.messages.push({ queueUrl, body: entry.MessageBody as string }));
+    return [];
+  }
+
+  /**
+   * Removes all queued messages and returns them as SQS records
+   */
+  receive(): SQSRecord[] {
+    return this.messages.splice(0).map(({ queueUrl, body }) => ({
+      messageId: randomUUID(),
+      receiptHandle: '',
+      body,
+      attributes: {
+        ApproximateReceiveCount: '1',
+        SentTimestamp: String(Date.now()),
+        SenderId: 'local',
+        ApproximateFirstReceiveTimestamp: String(Date.now()),
+      },
+      messageAttributes: {},
+      md5OfBody: '',
+      eventSource: 'aws:sqs',
+      eventSourceARN: queueUrl,
+      awsRegion: process.env.AWS_REGION || '',
+    }));
+  }
+}
+
+export const localQueue = new LocalQueue();
+
+const sqsQueue = new SqsQueue();
+
+/**
+ * SQS, or the local in-memory queue when MESSAGE_QUEUE=local
+ */
+export const getMessageQueue = (): MessageQueue => {
+  return process.env.MESSAGE_QUEUE === 'local' ? localQueue : sqsQueue;
+};
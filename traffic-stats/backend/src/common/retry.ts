@@ -0,0 +1,122 @@
+import { isAxiosError } from 'axios';
+import { HttpStatusError } from '../../../common/common';
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+export class RetryError extends Error {
+  constructor(message: string, public readonly attempts: number, public readonly lastError: unknown) {
+    super(message);
+    this.name = 'RetryError';
+  }
+}
+
+/**
+ * Failure that is worth retrying although it is not a network or server
+ * error, e.g. batch entries that a successful request reported as failed
+ */
+export class RetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetryableError';
+  }
+}
+
+// Error codes of failed connections and timeouts of Node, axios and the AWS SDK
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ERR_NETWORK',
+]);
+
+const isRetryableStatus = (status: number): boolean => status >= 500 || status === 429;
+
+const getHttpStatus = (error: any): number | undefined => {
+  if (isAxiosError(error)) {
+    return error.response?.status;
+  }
+  if (error instanceof HttpStatusError) {
+    return error.status;
+  }
+  return error?.$metadata?.httpStatusCode;
+};
+
+const isNetworkError = (error: any): boolean => {
+  // fetch rejects with "TypeError: fetch failed" and the socket error as the cause
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    return true;
+  }
+  return ['TimeoutError', 'AbortError'].includes(error?.name) || NETWORK_ERROR_CODES.has(error?.code);
+};
+
+/**
+ * Only network errors, timeouts, throttling and server errors can succeed on
+ * retry, whatever the client. Other client errors and programming errors are
+ * thrown at once.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof RetryableError) {
+    return true;
+  }
+  const status = getHttpStatus(error);
+  if (status !== undefined && status > 0) {
+    return isRetryableStatus(status);
+  }
+  return isNetworkError(error);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs the operation and retries failures with exponential backoff and full jitter
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt > options.retries || !isRetryableError(error)) {
+        throw new RetryError(`Failed after ${attempt} attempts: ${String(error)}`, attempt, error);
+      }
+      const delay = Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Maps items with at most `concurrency` operations running at the same time.
+ * Results are returned in the order of the items, failures do not stop other items.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  operation: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await operation(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,137 @@
+import { QueryCommand, QueryCommandOutput, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SensorValue } from '../../../common/interfaces';
+import { toLocalTime } from '../../../common/time';
+import { docClient } from './dynamo';
+import { getRequiredEnv } from './env';
+
+/**
+ * Hourly rollups are stored in the traffic data table next to the raw values,
+ * one item per station, local date and sensor:
+ *   compositeKey = ROLLUP#YYYY-MM-DD#SENSOR_NAME
+ * Each local hour HH has attributes hHH_sum, hHH_count, hHH_zeros, hHH_min and hHH_max,
+ * and hHH_samples with the measured times of the values added to the hour.
+ * Raw keys start with the station ID, so rollups never match raw value key ranges.
+ */
+export const ROLLUP_KEY_PREFIX = 'ROLLUP#';
+
+export interface HourlySample {
+  date: string; // local date YYYY-MM-DD
+  hour: number; // local hour 0-23
+  name: string;
+  unit: string;
+  sum: number;
+  count: number;
+  zeros: number;
+  min: number;
+  max: number;
+}
+
+const hourPrefix = (hour: number): string => `h${String(hour).padStart(2, '0')}`;
+
+const isConditionalCheckFailed = (error: unknown): boolean => {
+  return (error as { name?: string })?.name === 'ConditionalCheckFailedException';
+};
+
+/**
+ * Adds a sensor value to the rollup of its local date and hour. Sum and
+ * counts are incremented atomically, min and max are replaced only
+ * when the new value is smaller or larger. The measured times already
+ * counted are kept in hHH_samples, so a redelivered value is not counted twice.
+ * Sliding window values pass their slot as the sample, so a slot collected
+ * again with a later measured time is not counted twice either.
+ */
+export const updateHourlyRollup = async (sensorValue: SensorValue, sample: string = sensorValue.measuredTime): Promise<void> => {
+  const tableName = getRequiredEnv('DYNAMODB_TABLE_NAME');
+  const local = toLocalTime(sensorValue.timeWindowStart || sensorValue.measuredTime);
+  const prefix = hourPrefix(local.hour);
+  const key = {
+    stationId: sensorValue.stationId,
+    compositeKey: `${ROLLUP_KEY_PREFIX}${local.date}#${sensorValue.name}`,
+  };
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: tableName,
+      Key: key,
+      UpdateExpression: `SET recordType = :recordType, #date = :date, #name = :name, #unit = :unit ADD ${prefix}_sum :value, ${prefix}_count :one, ${prefix}_zeros :zero, ${prefix}_samples :samples`,
+      ConditionExpression: `NOT contains(${prefix}_samples, :sample)`,
+      ExpressionAttributeNames: { '#date': 'date', '#name': 'name', '#unit': 'unit' },
+      ExpressionAttributeValues: {
+        ':recordType': 'ROLLUP',
+        ':date': local.date,
+        ':name': sensorValue.name,
+        ':unit': sensorValue.unit || '',
+        ':value': sensorValue.value,
+        ':one': 1,
+        ':zero': sensorValue.value === 0 ? 1 : 0,
+        ':samples': new Set([sample]),
+        ':sample': sample,
+      },
+    }));
+  } catch (error) {
+    // Value has already been counted, min and max are still updated below
+    // in case the earlier attempt failed before reaching them
+    if (!isConditionalCheckFailed(error)) {
+      throw error;
+    }
+  }
+
+  for (const [attribute, comparison] of [['min', '>'], ['max', '<']]) {
+    try {
+      await docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: key,
+        UpdateExpression: `SET ${prefix}_${attribute} = :value`,
+        ConditionExpression: `attribute_not_exists(${prefix}_${attribute}) OR ${prefix}_${attribute} ${comparison} :value`,
+        ExpressionAttributeValues: { ':value': sensorValue.value },
+      }));
+    } catch (error) {
+      // Existing min or max is already smaller or larger
+      if (!isConditionalCheckFailed(error)) {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Reads the hourly rollups of a station for local dates [startDate, endDate]
+ */
+export const queryHourlySamples = async (stationId: number, startDate: string, endDate: string): Promise<HourlySample[]> => {
+  const samples: HourlySample[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined = undefined;
+
+  do {
+    const result: QueryCommandOutput = await docClient.send(new QueryCommand({
+      TableName: getRequiredEnv('DYNAMODB_TABLE_NAME'),
+      KeyConditionExpression: 'stationId = :stationId AND compositeKey BETWEEN :startKey AND :endKey',
+      ExpressionAttributeValues: {
+        ':stationId': stationId,
+        ':startKey': `${ROLLUP_KEY_PREFIX}${startDate}#`,
+        ':endKey': `${ROLLUP_KEY_PREFIX}${endDate}#\uffff`,
+      },
+      ExclusiveStartKey: lastEvaluatedKey,
+    }));
+
+    for (const item of result.Items || []) {
+      for (let hour = 0; hour < 24; hour++) {
+        const prefix = hourPrefix(hour);
+        if (!item[`${prefix}_count`]) continue;
+        samples.push({
+          date: item.date,
+          hour,
+          name: item.name,
+          unit: item.unit,
+          sum: item[`${prefix}_sum`],
+          count: item[`${prefix}_count`],
+          zeros: item[`${prefix}_zeros`] || 0,
+          min: item[`${prefix}_min`],
+          max: item[`${prefix}_max`],
+        });
+      }
+    }
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return samples;
+};
@@ -0,0 +1,36 @@
+import { Station } from '../../../common/interfaces';
+import { SensorMetadata, fetchSensorMetadata, isRollupSensor } from '../../../common/sensors';
+
+// Sensor metadata rarely changes, warm lambdas reuse it for an hour
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// API requests fail fast instead of waiting for a slow Digitraffic
+const FETCH_TIMEOUT_MS = 5000;
+
+let cachedSensors: { sensors: SensorMetadata[]; fetchedAt: number } | undefined = undefined;
+
+/**
+ * Digitraffic TMS sensor metadata, cached for an hour
+ */
+export const getSensorCatalogue = async (): Promise<SensorMetadata[]> => {
+  if (!cachedSensors || Date.now() - cachedSensors.fetchedAt > CACHE_TTL_MS) {
+    cachedSensors = { sensors: await fetchSensorMetadata({ signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }), fetchedAt: Date.now() };
+  }
+  return cachedSensors.sensors;
+};
+
+/**
+ * Sensors of the station that are rolled up, i.e. the sensors that should
+ * have an hourly rollup sample for every collected hour. Sensor IDs come from
+ * the station registry, their names and units from the catalogue.
+ */
+export const getStationRollupSensors = async (station: Station): Promise<{ name: string; unit: string }[]> => {
+  const sensorIds = new Set(station.sensors || []);
+  if (sensorIds.size === 0) {
+    return [];
+  }
+  return (await getSensorCatalogue())
+    .filter(sensor => sensorIds.has(sensor.id))
+    .map(sensor => ({ name: sensor.name, unit: sensor.unit || '' }))
+    .filter(isRollupSensor);
+};
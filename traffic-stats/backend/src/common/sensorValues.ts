@@ -0,0 +1,139 @@
+import { QueryCommand, QueryCommandOutput } from '@aws-sdk/lib-dynamodb';
+import { SensorValue } from '../../../common/interfaces';
+import { batchWriteItems, docClient } from './dynamo';
+import { getRequiredEnv } from './env';
+import { mapWithConcurrency } from './retry';
+import { isRollupSensor, parseSensorName } from '../../../common/sensors';
+import { updateHourlyRollup } from './rollups';
+
+// Number of rollup updates running at the same time
+const ROLLUP_CONCURRENCY = 10;
+
+// Digitraffic timestamps have no milliseconds, e.g. 2025-03-14T10:05:00Z
+const toKeyTime = (time: Date): string => time.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+/**
+ * Queries raw sensor values of a station whose measuredTime is within
+ * [start, end). Values are keyed by `${stationId}#${measuredTime}#${name}`,
+ * so the time range can be used directly in the key condition. Sliding
+ * window values are keyed by their slot, see getSensorValueKey.
+ */
+export const querySensorValues = async (
+  stationId: number,
+  start: Date,
+  end: Date,
+  sensorNames?: string[]
+): Promise<SensorValue[]> => {
+  const items: SensorValue[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined = undefined;
+
+  const nameFilter = sensorNames && sensorNames.length > 0
+    ? {
+      FilterExpression: `#name IN (${sensorNames.map((_, index) => `:name${index}`).join(', ')})`,
+      ExpressionAttributeNames: { '#name': 'name' },
+    }
+    : {};
+  const nameValues = Object.fromEntries((sensorNames || []).map((name, index) => [`:name${index}`, name]));
+
+  do {
+    const result: QueryCommandOutput = await docClient.send(new QueryCommand({
+      TableName: getRequiredEnv('DYNAMODB_TABLE_NAME'),
+      KeyConditionExpression: 'stationId = :stationId AND compositeKey BETWEEN :startKey AND :endKey',
+      ExpressionAttributeValues: {
+        ':stationId': stationId,
+        ':startKey': `${stationId}#${toKeyTime(start)}`,
+        // Keys measured exactly at the end continue with '#name' and sort after the end key
+        ':endKey': `${stationId}#${toKeyTime(end)}`,
+        ...nameValues,
+      },
+      ...nameFilter,
+      ExclusiveStartKey: lastEvaluatedKey,
+    }));
+    if (result.Items) {
+      items.push(...result.Items as SensorValue[]);
+    }
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return items;
+};
+
+export interface StoreOptions {
+  // Raw values expire from the table this many days after they were measured
+  retentionDays?: number;
+  // Shorter retention of sliding window values, retentionDays is used if not given
+  slidingRetentionDays?: number;
+}
+
+export interface StoreResult {
+  stored: number;
+  failed: number;
+  rollupsFailed: number;
+}
+
+/**
+ * Start of the window-length slot the window of a sliding window sensor
+ * starts in, undefined for other sensors. Sliding windows are updated every
+ * minute, so windows collected a few minutes apart overlap.
+ */
+export const getSlidingWindowSlot = (sensorValue: SensorValue): string | undefined => {
+  const descriptor = parseSensorName(sensorValue.name);
+  if (descriptor.window !== 'sliding' || !descriptor.windowMinutes || !sensorValue.timeWindowStart) {
+    return undefined;
+  }
+  const slotMs = descriptor.windowMinutes * 60 * 1000;
+  return toKeyTime(new Date(Math.floor(new Date(sensorValue.timeWindowStart).getTime() / slotMs) * slotMs));
+};
+
+/**
+ * Item key of a raw sensor value. The key depends only on the measurement,
+ * so storing the same value again overwrites the earlier item. Sliding window
+ * values are keyed by their slot instead of the measured time, so one value is
+ * kept per slot and overlapping windows are not counted twice.
+ */
+export const getSensorValueKey = (sensorValue: SensorValue): string => {
+  const time = getSlidingWindowSlot(sensorValue) || sensorValue.measuredTime;
+  return `${sensorValue.stationId}#${time}#${sensorValue.name}`;
+};
+
+// Epoch seconds used by the table TTL attribute expiresAt
+const getExpiresAt = (sensorValue: SensorValue, retentionDays: number): number => {
+  return Math.floor(new Date(sensorValue.measuredTime).getTime() / 1000) + retentionDays * 24 * 60 * 60;
+};
+
+/**
+ * Stores raw sensor values with batch writes and adds the values of the
+ * rollup sensors to the hourly rollups. Both are idempotent, so the same
+ * values can be stored again when a failed batch is retried.
+ * Rollups never expire, raw values expire when retentionDays is given and
+ * sliding window values after slidingRetentionDays.
+ */
+export const storeSensorValues = async (sensorValues: SensorValue[], options: StoreOptions = {}): Promise<StoreResult> => {
+  // A batch must not contain the same key twice, the last value wins
+  const items = new Map<string, SensorValue & { compositeKey: string; expiresAt?: number }>();
+  for (const sensorValue of sensorValues) {
+    const compositeKey = getSensorValueKey(sensorValue);
+    const retentionDays = getSlidingWindowSlot(sensorValue) ? options.slidingRetentionDays || options.retentionDays : options.retentionDays;
+    const expiresAt = retentionDays ? getExpiresAt(sensorValue, retentionDays) : undefined;
+    items.set(compositeKey, { ...sensorValue, compositeKey, expiresAt });
+  }
+
+  const failedItems = await batchWriteItems(getRequiredEnv('DYNAMODB_TABLE_NAME'), Array.from(items.values()));
+  const failedKeys = new Set(failedItems.map(item => item.compositeKey));
+
+  // Rollups are only updated from values whose raw item was stored
+  const rollupValues = Array.from(items.values()).filter(item =>
+    isRollupSensor(item) && typeof item.value === 'number' && !failedKeys.has(item.compositeKey)
+  );
+  const rollupResults = await mapWithConcurrency(rollupValues, ROLLUP_CONCURRENCY, item => updateHourlyRollup(item, getSlidingWindowSlot(item)));
+  const rollupsFailed = rollupResults.filter(result => result.status === 'rejected');
+  if (rollupsFailed.length > 0) {
+    console.error(`Failed to update ${rollupsFailed.length} hourly rollups, first error:`, (rollupsFailed[0] as PromiseRejectedResult).reason);
+  }
+
+  return {
+    stored: items.size - failedItems.length,
+    failed: failedItems.length,
+    rollupsFailed: rollupsFailed.length,
+  };
+};
@@ -0,0 +1,44 @@
+import { GetCommand, ScanCommand, ScanCommandOutput } from '@aws-sdk/lib-dynamodb';
+import { Station } from '../../../common/interfaces';
+import { batchWriteItems, docClient } from './dynamo';
+import { getRequiredEnv } from './env';
+
+const getRegistryTableName = () => getRequiredEnv('STATION_REGISTRY_TABLE_NAME');
+
+// Registry items are keyed by numeric stationId to match the traffic data table
+const toStation = (item: Record<string, any>): Station => {
+  const { stationId, ...station } = item;
+  return { ...station, id: String(stationId) } as Station;
+};
+
+export const getRegistryStations = async (): Promise<Station[]> => {
+  const stations: Station[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined = undefined;
+
+  do {
+    const result: ScanCommandOutput = await docClient.send(new ScanCommand({
+      TableName: getRegistryTableName(),
+      ExclusiveStartKey: lastEvaluatedKey,
+    }));
+    (result.Items || []).forEach(item => stations.push(toStation(item)));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return stations;
+};
+
+export const getRegistryStation = async (stationId: number): Promise<Station | undefined> => {
+  const result = await docClient.send(new GetCommand({
+    TableName: getRegistryTableName(),
+    Key: { stationId },
+  }));
+  return result.Item ? toStation(result.Item) : undefined;
+};
+
+export const saveRegistryStations = async (stations: Station[]): Promise<void> => {
+  const items = stations.map(({ id, ...station }) => ({ ...station, stationId: Number(id) }));
+  const failed = await batchWriteItems(getRegistryTableName(), items);
+  if (failed.length > 0) {
+    throw new Error(`Failed to write ${failed.length} registry stations`);
+  }
+};
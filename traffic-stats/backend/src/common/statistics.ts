@@ -0,0 +1,49 @@
+/**
+ * Distribution of the values of a bucket
+ */
+export interface Distribution {
+  samples: number;
+  mean: number;
+  median: number;
+  p15: number;
+  p85: number;
+  min: number;
+  max: number;
+  std: number; // population standard deviation
+}
+
+/**
+ * Percentile (0-100) of sorted values with linear interpolation between the closest ranks
+ */
+export const percentile = (sorted: number[], p: number): number => {
+  const position = (sorted.length - 1) * p / 100;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const median = (values: number[]): number => percentile([...values].sort((a, b) => a - b), 50);
+
+/**
+ * Describes the distribution of values rounded to one decimal, undefined when there are no values
+ */
+export const describe = (values: number[]): Distribution | undefined => {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+  const round = (value: number) => Number(value.toFixed(1));
+
+  return {
+    samples: sorted.length,
+    mean: round(mean),
+    median: round(percentile(sorted, 50)),
+    p15: round(percentile(sorted, 15)),
+    p85: round(percentile(sorted, 85)),
+    min: round(sorted[0]),
+    max: round(sorted[sorted.length - 1]),
+    std: round(Math.sqrt(variance)),
+  };
+};
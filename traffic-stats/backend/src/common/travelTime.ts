@@ -0,0 +1,103 @@
+import { Corridor } from '../../../common/interfaces';
+import { HourlyAverage } from './profiles';
+
+export interface SegmentEstimate {
+  fromStationId: string;
+  toStationId: string;
+  distanceKm: number;
+  speed: number;
+  travelTimeMinutes: number;
+}
+
+export interface CorridorHourEstimate {
+  hour: number;
+  travelTimeMinutes: number | null;
+  averageSpeed: number | null;
+  flow: number | null;
+  vehicleKm: number | null;
+  bottleneck: SegmentEstimate | null;
+  // Stations without speed in this hour, travel time is only estimated when there are none
+  missingStations: string[];
+}
+
+const round = (value: number, decimals: number): number => Number(value.toFixed(decimals));
+
+/**
+ * Segment travel time when the speed of each end station applies to the half
+ * of the segment next to it. Speed is the resulting average over the segment.
+ * Values are unrounded.
+ */
+export const estimateSegment = (
+  fromStationId: string,
+  toStationId: string,
+  distanceKm: number,
+  fromSpeed: number,
+  toSpeed: number
+): SegmentEstimate => {
+  const hours = distanceKm / 2 / fromSpeed + distanceKm / 2 / toSpeed;
+  return {
+    fromStationId,
+    toStationId,
+    distanceKm,
+    speed: distanceKm / hours,
+    travelTimeMinutes: hours * 60,
+  };
+};
+
+/**
+ * Travel time, flow and bottleneck of a corridor in one hour of the day.
+ * averages has the hourly averages of each station in the corridor direction.
+ * Flow is the average traffic count of the stations and vehicleKm the
+ * distance driven on the corridor in the hour. The bottleneck is the segment
+ * with the lowest average speed.
+ */
+export const estimateCorridorHour = (
+  corridor: Corridor,
+  hour: number,
+  averages: Map<string, HourlyAverage[]>
+): CorridorHourEstimate => {
+  const hourAverages = corridor.stations.map(station => averages.get(station.stationId)?.[hour]);
+  const missingStations = corridor.stations
+    .filter((_, index) => !hourAverages[index]?.avgSpeed)
+    .map(station => station.stationId);
+
+  const segments: SegmentEstimate[] = [];
+  let vehicleKm: number | null = 0;
+  for (let index = 0; index < corridor.stations.length - 1; index++) {
+    const from = corridor.stations[index];
+    const to = corridor.stations[index + 1];
+    const distanceKm = from.distanceToNextKm || 0;
+    const fromSpeed = hourAverages[index]?.avgSpeed;
+    const toSpeed = hourAverages[index + 1]?.avgSpeed;
+    if (fromSpeed && toSpeed) {
+      segments.push(estimateSegment(from.stationId, to.stationId, distanceKm, fromSpeed, toSpeed));
+    }
+
+    const fromCount = hourAverages[index]?.trafficCount;
+    const toCount = hourAverages[index + 1]?.trafficCount;
+    vehicleKm = vehicleKm !== null && fromCount !== undefined && toCount !== undefined
+      ? vehicleKm + distanceKm * (fromCount + toCount) / 2
+      : null;
+  }
+
+  const counts = hourAverages
+    .map(average => average?.trafficCount)
+    .filter((count): count is number => count !== undefined);
+  const complete = missingStations.length === 0 && segments.length > 0;
+  const travelTimeMinutes = complete ? segments.reduce((sum, segment) => sum + segment.travelTimeMinutes, 0) : null;
+  const lengthKm = segments.reduce((sum, segment) => sum + segment.distanceKm, 0);
+  const slowest = segments.reduce<SegmentEstimate | null>(
+    (current, segment) => !current || segment.speed < current.speed ? segment : current,
+    null
+  );
+
+  return {
+    hour,
+    travelTimeMinutes: travelTimeMinutes === null ? null : round(travelTimeMinutes, 1),
+    averageSpeed: travelTimeMinutes ? round(lengthKm / (travelTimeMinutes / 60), 1) : null,
+    flow: counts.length > 0 ? Math.round(counts.reduce((sum, count) => sum + count, 0) / counts.length) : null,
+    vehicleKm: vehicleKm === null || corridor.stations.length < 2 ? null : Math.round(vehicleKm),
+    bottleneck: slowest && { ...slowest, speed: round(slowest.speed, 1), travelTimeMinutes: round(slowest.travelTimeMinutes, 1) },
+    missingStations,
+  };
+};
@@ -0,0 +1,55 @@
+import { Handler } from 'aws-lambda';
+import { addDays, isValidDate, toLocalTime } from '../../../../common/time';
+import { detectAnomalies, saveAnomalies } from '../../common/anomalies';
+import { mapWithConcurrency } from '../../common/retry';
+import { queryHourlySamples } from '../../common/rollups';
+import { getRegistryStations } from '../../common/stationRegistry';
+
+// Baseline covers the same day type and hour on the previous weeks
+const BASELINE_DAYS = parseInt(process.env.BASELINE_DAYS || '56', 10);
+const DETECTION_CONCURRENCY = 5;
+
+interface DetectorEvent {
+  // Local date and hour to evaluate, defaults to the last collected hour
+  date?: string;
+  hour?: number;
+}
+
+/**
+ * Lambda function that compares the last collected hour of every registry
+ * station with the station's typical values of the same sensor, day type
+ * and hour, and stores the hours that differ clearly as anomalies.
+ * Can be invoked manually with { "date": "YYYY-MM-DD", "hour": 8 } to evaluate an earlier hour.
+ */
+export const handler: Handler<DetectorEvent> = async (event) => {
+  // Values of hour H are collected a few minutes after H+1 begins
+  const lastCollected = toLocalTime(new Date(Date.now() - 60 * 60 * 1000));
+  const date = event?.date || lastCollected.date;
+  const hour = event?.hour ?? lastCollected.hour;
+  if (!isValidDate(date) || !Number.isInteger(hour) || hour < 0 || hour > 23) {
+    throw new Error(`Invalid date ${date} or hour ${hour}`);
+  }
+
+  const stations = await getRegistryStations();
+  console.log(`Detecting anomalies of ${date} hour ${hour} for ${stations.length} stations`);
+
+  const results = await mapWithConcurrency(stations, DETECTION_CONCURRENCY, async station => {
+    const stationId = Number(station.id);
+    const samples = await queryHourlySamples(stationId, addDays(date, -BASELINE_DAYS), date);
+    const hourSamples = samples.filter(sample => sample.date === date && sample.hour === hour);
+    return detectAnomalies(hourSamples, samples, {
+      stationId,
+      stationName: station.fullName || station.name,
+      regions: station.regions,
+    });
+  });
+
+  const anomalies = results.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+  const failed = results.filter(result => result.status === 'rejected');
+  failed.forEach(result => console.error('Anomaly detection failed:', (result as PromiseRejectedResult).reason));
+
+  await saveAnomalies(anomalies);
+  console.log(`Stored ${anomalies.length} anomalies, detection failed for ${failed.length} stations`);
+
+  return { date, hour, stationsCount: stations.length, anomaliesCount: anomalies.length, failedCount: failed.length };
+};
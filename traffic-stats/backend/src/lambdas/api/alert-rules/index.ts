@@ -0,0 +1,63 @@
+import { randomUUID } from 'crypto';
+import { GetAlertRuleParams, ListAlertRulesParams } from '../../../../../common/api/types';
+import { AlertRule, deleteAlertRule, getAlertRule, getAlertRules, parseAlertRuleInput, saveAlertRule } from '../../../common/alerts';
+import { ApiError, apiHandler, jsonResponse } from '../../../common/http';
+
+// Field checks that the schema does not cover, e.g. the sensor name and webhook URL
+const parseInput = (body: unknown) => {
+  const input = parseAlertRuleInput(body);
+  if (typeof input === 'string') {
+    throw new ApiError(400, 'INVALID_BODY', input);
+  }
+  return input;
+};
+
+/**
+ * API handler for alert rules evaluated by the processor
+ * Endpoints:
+ *   GET    /traffic/alerts/rules?stationId=23001
+ *   POST   /traffic/alerts/rules
+ *   GET    /traffic/alerts/rules/{ruleId}
+ *   PUT    /traffic/alerts/rules/{ruleId}
+ *   DELETE /traffic/alerts/rules/{ruleId}
+ * Rule body: { "stationId": 23001, "sensor": "KESKINOPEUS_60MIN", "operator": "below",
+ *   "threshold": 50, "consecutiveHours": 1, "channel": { "type": "sns" } }
+ */
+export const handler = apiHandler<ListAlertRulesParams & Partial<GetAlertRuleParams>>(async ({ event, params, body }) => {
+  const { ruleId } = params;
+
+  if (!ruleId) {
+    if (event.httpMethod === 'POST') {
+      const now = new Date().toISOString();
+      const rule: AlertRule = { ...parseInput(body), ruleId: randomUUID(), createdAt: now, updatedAt: now };
+      await saveAlertRule(rule);
+      console.log(`Created alert rule ${rule.ruleId} for station ${rule.stationId}`);
+      return jsonResponse(201, rule);
+    }
+
+    const { stationId } = params;
+    const rules = (await getAlertRules())
+      .filter(rule => !stationId || rule.stationId === parseInt(stationId, 10))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return jsonResponse(200, { rules });
+  }
+
+  const existing = await getAlertRule(ruleId);
+  if (!existing) {
+    throw new ApiError(404, 'NOT_FOUND', `Alert rule ${ruleId} not found`);
+  }
+
+  if (event.httpMethod === 'PUT') {
+    // Changed rule starts counting consecutive hours from the beginning
+    const rule: AlertRule = { ...parseInput(body), ruleId, createdAt: existing.createdAt, updatedAt: new Date().toISOString() };
+    await saveAlertRule(rule);
+    console.log(`Updated alert rule ${ruleId}`);
+    return jsonResponse(200, rule);
+  }
+  if (event.httpMethod === 'DELETE') {
+    await deleteAlertRule(ruleId);
+    console.log(`Deleted alert rule ${ruleId}`);
+    return jsonResponse(200, { ruleId, deleted: true });
+  }
+  return jsonResponse(200, existing);
+});
@@ -0,0 +1,38 @@
+import { ListAnomaliesParams } from '../../../../../common/api/types';
+import { parseRegionIds } from '../../../../../common/regions';
+import { addDays, daysBetween, toLocalTime } from '../../../../../common/time';
+import { queryAnomalies } from '../../../common/anomalies';
+import { ApiError, apiHandler, jsonResponse } from '../../../common/http';
+
+const MAX_RANGE_DAYS = 31;
+
+/**
+ * API handler for anomalies found by the anomaly detector
+ * Endpoint: GET /traffic/anomalies?region=tampere&from=YYYY-MM-DD&to=YYYY-MM-DD&type=lowFlow|spike|speedDrop
+ * Period defaults to the last 7 days, anomalies are returned newest first.
+ */
+export const handler = apiHandler<ListAnomaliesParams>(async ({ params }) => {
+  const to = params.to || toLocalTime(new Date()).date;
+  const from = params.from || addDays(to, -6);
+  const region = params.region?.toLowerCase();
+  const { type } = params;
+
+  if (from > to) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Parameter from must not be after to');
+  }
+  if (daysBetween(from, to) >= MAX_RANGE_DAYS) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Date range must be shorter than ${MAX_RANGE_DAYS} days`);
+  }
+  if (region && !parseRegionIds(process.env.ACTIVE_REGIONS).includes(region)) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Unknown or inactive region: ${region}`);
+  }
+
+  console.log(`Getting anomalies from ${from} to ${to}, region ${region || 'all'}`);
+
+  const anomalies = (await queryAnomalies(from, to))
+    .filter(anomaly => !region || anomaly.regions?.includes(region))
+    .filter(anomaly => !type || anomaly.type === type)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.hour - a.hour || Math.abs(b.score) - Math.abs(a.score));
+
+  return jsonResponse(200, { from, to, region, type, count: anomalies.length, anomalies });
+});
@@ -0,0 +1,48 @@
+import { GetArchiveParams } from '../../../../../common/api/types';
+import { addDays, daysBetween, toLocalTime } from '../../../../../common/time';
+import { ApiError, apiHandler, jsonResponse } from '../../../common/http';
+import { getArchiveDownloadUrl, listArchivedDays, readArchivedDay } from '../../../common/archive';
+
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * API handler for raw values archived to S3 after they expire from DynamoDB
+ * Endpoints:
+ *   GET /traffic/station/{stationId}/archive?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *     lists the archived days with temporary download URLs
+ *   GET /traffic/station/{stationId}/archive?date=YYYY-MM-DD
+ *     returns the archived values of a single day
+ */
+export const handler = apiHandler<GetArchiveParams>(async ({ params }) => {
+  const { stationId, date } = params;
+
+  if (date) {
+    const days = await listArchivedDays(parseInt(stationId, 10), date, date);
+    if (days.length === 0) {
+      throw new ApiError(404, 'NOT_FOUND', `No archive for station ${stationId} on ${date}`);
+    }
+    const values = await readArchivedDay(parseInt(stationId, 10), date);
+    return jsonResponse(200, { stationId, date, count: values.length, values });
+  }
+
+  const to = params.to || toLocalTime(new Date()).date;
+  const from = params.from || addDays(to, -30);
+
+  if (from > to) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Parameter from must not be after to');
+  }
+  if (daysBetween(from, to) >= MAX_RANGE_DAYS) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Date range must be shorter than ${MAX_RANGE_DAYS} days`);
+  }
+
+  console.log(`Listing archived days for station ${stationId} from ${from} to ${to}`);
+
+  const days = await listArchivedDays(parseInt(stationId, 10), from, to);
+  const files = await Promise.all(days.map(async day => ({
+    date: day.date,
+    size: day.size,
+    url: await getArchiveDownloadUrl(day.key),
+  })));
+
+  return jsonResponse(200, { stationId, from, to, format: 'ndjson.gz', files });
+});
@@ -0,0 +1,98 @@
+import { CompareStationsParams } from '../../../../../common/api/types';
+import { isDateOfType } from '../../../../../common/holidays';
+import { QUANTITY_UNITS, SensorQuantity, isRollupSensor, parseSensorName } from '../../../../../common/sensors';
+import { addDays, daysBetween, toLocalTime } from '../../../../../common/time';
+import { ApiError, apiHandler, jsonResponse } from '../../../common/http';
+import { HourlyAverage, averageBidirectional, averageByHour } from '../../../common/profiles';
+import { mapWithConcurrency } from '../../../common/retry';
+import { queryHourlySamples } from '../../../common/rollups';
+import { getRegistryStations } from '../../../common/stationRegistry';
+
+const MAX_STATIONS = 10;
+const MAX_RANGE_DAYS = 366;
+const QUERY_CONCURRENCY = 5;
+const COMPARE_QUANTITIES: SensorQuantity[] = ['trafficCount', 'averageSpeed'];
+
+const getValue = (average: HourlyAverage, quantity: SensorQuantity): number | null => {
+  if (quantity === 'trafficCount') {
+    return average.trafficCount === undefined ? null : Math.round(average.trafficCount);
+  }
+  return average.avgSpeed === undefined ? null : Number(average.avgSpeed.toFixed(1));
+};
+
+/**
+ * API handler for comparing the hourly profiles of several stations
+ * Endpoint: GET /traffic/compare?stations=23001,23002&sensor=trafficCount|averageSpeed|SENSOR_NAME&from=YYYY-MM-DD&to=YYYY-MM-DD&dayType=TYPE
+ *
+ * Sensor defaults to trafficCount, the bidirectional traffic count of each station.
+ * averageSpeed compares speeds weighted by the traffic counts of the directions, and a
+ * sensor name compares that sensor of each station. Period defaults to the last 30 days.
+ * Profiles of the stations are aligned by local hour, hours without values are null.
+ */
+export const handler = apiHandler<CompareStationsParams>(async ({ params }) => {
+  const stationIds = params.stations.split(',').map(id => id.trim()).filter(id => id);
+  const sensor = params.sensor || 'trafficCount';
+  const to = params.to || toLocalTime(new Date()).date;
+  const from = params.from || addDays(to, -29);
+  const { dayType } = params;
+
+  if (stationIds.length === 0 || stationIds.some(id => !/^\d+$/.test(id))) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Parameter stations must be a comma separated list of station IDs');
+  }
+  if (new Set(stationIds).size > MAX_STATIONS) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `At most ${MAX_STATIONS} stations can be compared`);
+  }
+  if (from > to) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Parameter from must not be after to');
+  }
+  if (daysBetween(from, to) >= MAX_RANGE_DAYS) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Date range must be shorter than ${MAX_RANGE_DAYS} days`);
+  }
+
+  // Quantities compare the bidirectional totals, other values are sensor names
+  const isQuantity = (COMPARE_QUANTITIES as string[]).includes(sensor);
+  const quantity = isQuantity ? sensor as SensorQuantity : parseSensorName(sensor).quantity;
+  if (!COMPARE_QUANTITIES.includes(quantity) || (!isQuantity && !isRollupSensor({ name: sensor, unit: QUANTITY_UNITS[quantity] || '' }))) {
+    throw new ApiError(400, 'INVALID_PARAMETER',
+      `Parameter sensor must be ${COMPARE_QUANTITIES.join(' or ')}, or a 60 minute fixed window traffic count or speed sensor name`);
+  }
+
+  const uniqueIds = Array.from(new Set(stationIds));
+  console.log(`Comparing ${sensor} of stations ${uniqueIds.join(', ')} from ${from} to ${to}`);
+
+  const registry = new Map((await getRegistryStations()).map(station => [String(station.id), station]));
+
+  const results = await mapWithConcurrency(uniqueIds, QUERY_CONCURRENCY, async stationId => {
+    let samples = await queryHourlySamples(parseInt(stationId, 10), from, to);
+    if (dayType) {
+      samples = samples.filter(sample => isDateOfType(sample.date, dayType));
+    }
+    const averages = isQuantity
+      ? averageBidirectional(samples)
+      : averageByHour(samples.filter(sample => sample.name === sensor));
+    const station = registry.get(stationId);
+
+    return {
+      stationId,
+      name: station?.name,
+      fullName: station?.fullName || station?.name || stationId,
+      days: new Set(samples.map(sample => sample.date)).size,
+      hourlyData: averages.map(average => ({ hour: average.hour, value: getValue(average, quantity) })),
+    };
+  });
+
+  const failed = results.filter(result => result.status === 'rejected');
+  if (failed.length > 0) {
+    throw (failed[0] as PromiseRejectedResult).reason;
+  }
+
+  return jsonResponse(200, {
+    from,
+    to,
+    dayType,
+    sensor,
+    quantity,
+    unit: QUANTITY_UNITS[quantity],
+    stations: results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []),
+  });
+});
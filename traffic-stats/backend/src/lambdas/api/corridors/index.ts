@@ -0,0 +1,116 @@
+import { GetCorridorTravelTimeParams, ListCorridorsParams } from '../../../../../common/api/types';
+import { getCorridor, getCorridorLength, getCorridorsOfRegions, parseCorridors } from '../../../../../common/corridors';
+import { isDateOfType } from '../../../../../common/holidays';
+import { Corridor, Station } from '../../../../../common/interfaces';
+import { parseRegionIds } from '../../../../../common/regions';
+import { formatSensorName } from '../../../../../common/sensors';
+import { addDays, daysBetween, toLocalTime } from '../../../../../common/time';
+import { ApiError, apiHandler, jsonResponse } from '../../../common/http';
+import { HourlyAverage, averageByHour } from '../../../common/profiles';
+import { mapWithConcurrency } from '../../../common/retry';
+import { queryHourlySamples } from '../../../common/rollups';
+import { getRegistryStations } from '../../../common/stationRegistry';
+import { estimateCorridorHour } from '../../../common/travelTime';
+
+const MAX_RANGE_DAYS = 366;
+const QUERY_CONCURRENCY = 5;
+
+const describeCorridor = (corridor: Corridor, registry: Map<string, Station>) => ({
+  id: corridor.id,
+  name: corridor.name,
+  regionId: corridor.regionId,
+  lengthKm: Number(getCorridorLength(corridor).toFixed(1)),
+  stations: corridor.stations.map(station => ({
+    ...station,
+    name: registry.get(station.stationId)?.name,
+    fullName: registry.get(station.stationId)?.fullName || registry.get(station.stationId)?.name || station.stationId,
+  })),
+});
+
+/**
+ * Hourly traffic count and speed averages of a corridor station in the corridor direction
+ */
+const getStationAverages = async (
+  stationId: string,
+  direction: number,
+  from: string,
+  to: string,
+  dayType?: string
+): Promise<HourlyAverage[]> => {
+  const sensorNames = [
+    formatSensorName({ quantity: 'trafficCount', windowMinutes: 60, window: 'fixed', direction }),
+    formatSensorName({ quantity: 'averageSpeed', windowMinutes: 60, window: 'fixed', direction }),
+  ];
+  const samples = (await queryHourlySamples(parseInt(stationId, 10), from, to))
+    .filter(sample => sensorNames.includes(sample.name))
+    .filter(sample => !dayType || isDateOfType(sample.date, dayType));
+  return averageByHour(samples);
+};
+
+/**
+ * API handler for corridors
+ * Endpoints:
+ *   GET /traffic/corridors?region=tampere
+ *     corridors of the active regions with their stations and length
+ *   GET /traffic/corridors/{corridorId}/travel-time?from=YYYY-MM-DD&to=YYYY-MM-DD&dayType=TYPE
+ *     hourly travel time, average speed, flow and bottleneck segment of the corridor
+ * Travel times are estimated from the hourly average speeds (KESKINOPEUS) of
+ * the stations in the corridor direction. Period defaults to the last 30 days.
+ * Corridors are configured with the CORRIDORS environment variable.
+ */
+export const handler = apiHandler<ListCorridorsParams & Partial<GetCorridorTravelTimeParams>>(async ({ params }) => {
+  const { corridorId } = params;
+  const activeRegions = parseRegionIds(process.env.ACTIVE_REGIONS);
+  const corridors = parseCorridors(process.env.CORRIDORS);
+
+  if (!corridorId) {
+    const requestedRegion = params.region?.toLowerCase();
+    if (requestedRegion && !activeRegions.includes(requestedRegion)) {
+      throw new ApiError(400, 'INVALID_PARAMETER', `Unknown or inactive region: ${requestedRegion}`);
+    }
+    const regionIds = requestedRegion ? [requestedRegion] : activeRegions;
+    const registry = new Map((await getRegistryStations()).map(station => [String(station.id), station]));
+    return jsonResponse(200, {
+      corridors: getCorridorsOfRegions(corridors, regionIds).map(corridor => describeCorridor(corridor, registry)),
+    });
+  }
+
+  const corridor = getCorridor(corridors, corridorId);
+  if (!corridor || !activeRegions.includes(corridor.regionId)) {
+    throw new ApiError(404, 'NOT_FOUND', `Corridor ${corridorId} not found`);
+  }
+
+  const to = params.to || toLocalTime(new Date()).date;
+  const from = params.from || addDays(to, -29);
+  const { dayType } = params;
+
+  if (from > to) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Parameter from must not be after to');
+  }
+  if (daysBetween(from, to) >= MAX_RANGE_DAYS) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Date range must be shorter than ${MAX_RANGE_DAYS} days`);
+  }
+
+  console.log(`Estimating travel time of corridor ${corridor.id} from ${from} to ${to}`);
+
+  const results = await mapWithConcurrency(corridor.stations, QUERY_CONCURRENCY, async station => ({
+    stationId: station.stationId,
+    averages: await getStationAverages(station.stationId, station.direction, from, to, dayType),
+  }));
+  const failed = results.filter(result => result.status === 'rejected');
+  if (failed.length > 0) {
+    throw (failed[0] as PromiseRejectedResult).reason;
+  }
+  const averages = new Map(results.flatMap(result =>
+    result.status === 'fulfilled' ? [[result.value.stationId, result.value.averages] as [string, HourlyAverage[]]] : []
+  ));
+  const registry = new Map((await getRegistryStations()).map(station => [String(station.id), station]));
+
+  return jsonResponse(200, {
+    corridor: describeCorridor(corridor, registry),
+    from,
+    to,
+    dayType,
+    hourlyData: Array.from({ length: 24 }, (_, hour) => estimateCorridorHour(corridor, hour, averages)),
+  });
+});
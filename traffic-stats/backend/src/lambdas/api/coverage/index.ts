@@ -0,0 +1,112 @@
+import { GetRegionCoverageParams, GetStationCoverageParams } from '../../../../../common/api/types';
+import { Station } from '../../../../../common/interfaces';
+import { parseRegionIds } from '../../../../../common/regions';
+import { addDays, daysBetween, toLocalTime } from '../../../../../common/time';
+import { getExpectedHours, getMissingRanges, getSensorCoverage, summarizeCoverage } from '../../../common/coverage';
+import { ApiError, apiHandler, jsonResponse } from '../../../common/http';
+import { mapWithConcurrency } from '../../../common/retry';
+import { queryHourlySamples } from '../../../common/rollups';
+import { getStationRollupSensors } from '../../../common/sensorCatalogue';
+import { getRegistryStation, getRegistryStations } from '../../../common/stationRegistry';
+
+// Region reports read the rollups of every station, so they cover a shorter range
+const MAX_STATION_RANGE_DAYS = 366;
+const MAX_REGION_RANGE_DAYS = 92;
+const REGION_QUERY_CONCURRENCY = 5;
+
+/**
+ * Rolled up sensors of the registry station. Without them the coverage only
+ * lists the sensors that have samples, so a failure is logged and the report returned.
+ */
+const getExpectedSensors = async (station: Station | undefined): Promise<{ name: string; unit: string }[]> => {
+  if (!station) {
+    return [];
+  }
+  try {
+    return await getStationRollupSensors(station);
+  } catch (error) {
+    console.error(`Failed to read the sensors of station ${station.id}:`, error);
+    return [];
+  }
+};
+
+/**
+ * API handler for data completeness based on the hourly rollups
+ * Endpoints:
+ *   GET /traffic/station/{stationId}/coverage?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *     per sensor expected and received hours, missing ranges and completeness
+ *   GET /traffic/regions/{regionId}/coverage?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *     completeness of each station of the region
+ * Period defaults to the last 7 days. Sensors are the rolled up sensors of the
+ * station in the registry, those without samples at 0%.
+ */
+export const handler = apiHandler<Partial<GetStationCoverageParams & GetRegionCoverageParams>>(async ({ params }) => {
+  const { stationId } = params;
+  const regionId = params.regionId?.toLowerCase();
+
+  const to = params.to || toLocalTime(new Date()).date;
+  const from = params.from || addDays(to, -6);
+  const maxRangeDays = stationId ? MAX_STATION_RANGE_DAYS : MAX_REGION_RANGE_DAYS;
+
+  if (from > to) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Parameter from must not be after to');
+  }
+  if (daysBetween(from, to) >= maxRangeDays) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Date range must be shorter than ${maxRangeDays} days`);
+  }
+
+  const expected = getExpectedHours(from, to);
+
+  if (stationId) {
+    console.log(`Getting coverage of station ${stationId} from ${from} to ${to}`);
+    const [samples, station] = await Promise.all([queryHourlySamples(parseInt(stationId, 10), from, to), getRegistryStation(parseInt(stationId, 10))]);
+    const sensors = await getExpectedSensors(station);
+
+    return jsonResponse(200, {
+      stationId,
+      from,
+      to,
+      ...summarizeCoverage(expected, samples),
+      missingRanges: getMissingRanges(expected, samples),
+      sensors: getSensorCoverage(expected, samples, sensors),
+    });
+  }
+
+  if (!regionId || !parseRegionIds(process.env.ACTIVE_REGIONS).includes(regionId)) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Unknown or inactive region: ${regionId}`);
+  }
+
+  console.log(`Getting coverage of region ${regionId} from ${from} to ${to}`);
+  const stations = (await getRegistryStations()).filter(station => station.regions?.includes(regionId));
+
+  const results = await mapWithConcurrency(stations, REGION_QUERY_CONCURRENCY, async station => {
+    const [samples, sensors] = await Promise.all([queryHourlySamples(Number(station.id), from, to), getExpectedSensors(station)]);
+    return {
+      stationId: station.id,
+      name: station.fullName || station.name,
+      ...summarizeCoverage(expected, samples),
+      sensors: getSensorCoverage(expected, samples, sensors).map(({ name, expectedHours, receivedHours, completeness }) => ({
+        name,
+        expectedHours,
+        receivedHours,
+        completeness,
+      })),
+    };
+  });
+
+  const failed = results.filter(result => result.status === 'rejected');
+  if (failed.length > 0) {
+    throw (failed[0] as PromiseRejectedResult).reason;
+  }
+  const stationCoverage = results
+    .flatMap(result => result.status === 'fulfilled' ? [result.value] : [])
+    .sort((a, b) => (a.completeness ?? 0) - (b.completeness ?? 0));
+
+  return jsonResponse(200, {
+    regionId,
+    from,
+    to,
+    expectedHours: expected.length,
+    stations: stationCoverage,
+  });
+});
@@ -0,0 +1,60 @@
+import { ExportRawValuesParams } from '../../../../../common/api/types';
+import { FINNISH_TIME_ZONE, addDays, daysBetween, formatLocalTimestamp, localToUtc, toLocalTime } from '../../../../../common/time';
+import { exportResponse } from '../../../common/export';
+import { ApiError, apiHandler } from '../../../common/http';
+import { querySensorValues } from '../../../common/sensorValues';
+
+// Raw values are kept in DynamoDB for 90 days, older days are in the archive
+const MAX_RANGE_DAYS = 92;
+
+const COLUMNS = ['stationId', 'sensor', 'unit', 'localTime', 'timeWindowStart', 'timeWindowEnd', 'measuredTime', 'value'];
+
+/**
+ * API handler for exporting raw sensor values of a station
+ * Endpoint: GET /traffic/station/{stationId}/export?from=YYYY-MM-DD&to=YYYY-MM-DD&sensor=NAME&format=csv|ndjson&tz=Europe/Helsinki
+ * One row per measured value ordered by time and sensor. localTime is the start
+ * of the measurement window in tz with its UTC offset, other times are UTC.
+ * Exports too large for a Lambda response redirect to a presigned S3 URL.
+ */
+export const handler = apiHandler<ExportRawValuesParams>(async ({ params }) => {
+  const { stationId } = params;
+  const format = params.format || 'csv';
+  const timeZone = params.tz || FINNISH_TIME_ZONE;
+  const to = params.to || toLocalTime(new Date(), timeZone).date;
+  const from = params.from || addDays(to, -6);
+  const sensorNames = params.sensor ? params.sensor.split(',').map(name => name.trim()).filter(name => name) : undefined;
+
+  if (from > to) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Parameter from must not be after to');
+  }
+  if (daysBetween(from, to) >= MAX_RANGE_DAYS) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Date range must be shorter than ${MAX_RANGE_DAYS} days`);
+  }
+
+  console.log(`Exporting raw values of station ${stationId} from ${from} to ${to} as ${format}`);
+
+  // Values are keyed by measuredTime which is at the end of the window, so query one extra hour
+  const start = localToUtc(from, 0, timeZone);
+  const end = localToUtc(addDays(to, 1), 0, timeZone);
+  const items = (await querySensorValues(parseInt(stationId, 10), start, new Date(end.getTime() + 60 * 60 * 1000), sensorNames))
+    .filter(item => {
+      const time = new Date(item.timeWindowStart || item.measuredTime);
+      return time >= start && time < end;
+    });
+  console.log(`Exporting ${items.length} values of station ${stationId}`);
+
+  const rows = items
+    .sort((a, b) => (a.timeWindowStart || a.measuredTime).localeCompare(b.timeWindowStart || b.measuredTime) || a.name.localeCompare(b.name))
+    .map(item => ({
+      stationId: item.stationId,
+      sensor: item.name,
+      unit: item.unit,
+      localTime: formatLocalTimestamp(item.timeWindowStart || item.measuredTime, timeZone),
+      timeWindowStart: item.timeWindowStart,
+      timeWindowEnd: item.timeWindowEnd,
+      measuredTime: item.measuredTime,
+      value: item.value,
+    }));
+
+  return exportResponse(format, COLUMNS, rows, `station-${stationId}-${from}-${to}`);
+});
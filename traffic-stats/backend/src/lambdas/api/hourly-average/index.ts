@@ -1,340 +1,421 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
-import { APIGatewayProxyHandler } from 'aws-lambda';
-import { SensorValue } from '../../../../../common/interfaces';
-
-// Add TypeScript declaration for the isDST method
-declare global {
-  interface Date {
-    isDST(): boolean;
-  }
+import { DirectionProfile, GetHourlyAverageParams, HourlyData, SensorHourlyData } from '../../../../../common/api/types';
+import { SensorValue, Station } from '../../../../../common/interfaces';
+import { DAY_TYPES, WEEKDAY_TYPES, getDayType, getWeekdayType } from '../../../../../common/holidays';
+import { SensorDescriptor, getSensorLabel, isRollupSensor, isTrafficCountSensor, parseSensorName } from '../../../../../common/sensors';
+import { FINNISH_TIME_ZONE, addDays, addMonths, daysBetween, localToUtc, toLocalTime } from '../../../../../common/time';
+import { CoverageSummary, ExpectedHour, getExpectedHours, summarizeCoverage } from '../../../common/coverage';
+import { ExportFormat, ExportRow, exportResponse } from '../../../common/export';
+import { ApiError, apiHandler, jsonResponse } from '../../../common/http';
+import {
+  HourlyAverage, HourlyDistribution, averageByDateAndHour, averageByHour, combineDirections, describeByHour, getSampleDirections, getValuePoints,
+} from '../../../common/profiles';
+import { HourlySample, queryHourlySamples } from '../../../common/rollups';
+import { querySensorValues } from '../../../common/sensorValues';
+import { Distribution, describe } from '../../../common/statistics';
+import { getRegistryStation } from '../../../common/stationRegistry';
+
+interface HourlyProfile {
+  hourlyAverages: HourlyData[];
+  directions: DirectionProfile[];
+  sensorData: SensorHourlyData[];
+  coverage: CoverageSummary;
 }
 
-const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
-const docClient = DynamoDBDocumentClient.from(dynamoClient);
+type GroupBy = 'dayType' | 'weekday';
+
+const EXPORT_COLUMNS = [
+  'stationId', 'periodStart', 'periodEnd', 'timeZone', 'dayType', 'direction', 'hour', 'localTime',
+  'trafficCount', 'avgSpeed', 'days', 'trafficCountMedian', 'trafficCountP15', 'trafficCountP85', 'avgSpeedMedian',
+];
 
 /**
- * Converts UTC time to Helsinki time and returns the hour (0-23)
- * Uses fast manual calculation with proper DST handling and caching
+ * Export rows of a profile, one per hour for the bidirectional total
+ * (direction 'total') and for each direction. localTime is the local start
+ * of the hour in the time zone of the response.
  */
-const hourCache: { [timeString: string]: number } = {};
-const dstCache: { [dateString: string]: boolean } = {}; // Cache DST calculations per date
-
-const isDSTForDate = (year: number, month: number, day: number): boolean => {
-  const dateKey = `${year}-${month}-${day}`;
-  
-  if (dstCache[dateKey] !== undefined) {
-    return dstCache[dateKey];
-  }
-  
-  let isDST = false;
-  
-  if (month > 2 && month < 9) {
-    // April-September: always DST
-    isDST = true;
-  } else if (month === 2) {
-    // March: check if on or after last Sunday
-    const lastSunday = 31 - ((new Date(year, 2, 31).getDay() + 6) % 7);
-    isDST = day >= lastSunday;
-  } else if (month === 9) {
-    // October: check if before last Sunday
-    const lastSunday = 31 - ((new Date(year, 9, 31).getDay() + 6) % 7);
-    isDST = day < lastSunday;
-  }
-  // November-February: always standard time (isDST = false)
-  
-  dstCache[dateKey] = isDST;
-  return isDST;
+const toExportRows = (profile: HourlyProfile, columns: ExportRow): ExportRow[] => {
+  const series = [
+    { direction: 'total', hourlyAverages: profile.hourlyAverages },
+    ...profile.directions.map(direction => ({ direction: String(direction.direction), hourlyAverages: direction.hourlyAverages })),
+  ];
+  return series.flatMap(({ direction, hourlyAverages }) => hourlyAverages.map(data => ({
+    ...columns,
+    direction,
+    hour: data.hour,
+    localTime: `${String(data.hour).padStart(2, '0')}:00`,
+    trafficCount: data.trafficCount,
+    avgSpeed: data.avgSpeed,
+    days: data.trafficCountStats?.samples,
+    trafficCountMedian: data.trafficCountStats?.median,
+    trafficCountP15: data.trafficCountStats?.p15,
+    trafficCountP85: data.trafficCountStats?.p85,
+    avgSpeedMedian: data.avgSpeedStats?.median,
+  })));
 };
 
-const getHelsinkiHour = (utcTimeString: string): number => {
-  // Check if we've already calculated this hour
-  if (hourCache[utcTimeString] !== undefined) {
-    return hourCache[utcTimeString];
-  }
-
-  // Create a date object from the UTC time string
-  const date = new Date(utcTimeString);
-  
-  // Helsinki timezone: UTC+2 (EET) in winter, UTC+3 (EEST) in summer
-  const year = date.getUTCFullYear();
-  const month = date.getUTCMonth(); // 0-11
-  const day = date.getUTCDate();
-  
-  // Use cached DST calculation
-  const isDST = isDSTForDate(year, month, day);
-  
-  // Add the Helsinki offset: +2 hours (EET) or +3 hours (EEST)
-  const offsetHours = isDST ? 3 : 2;
-  const helsinkiTime = new Date(date.getTime() + offsetHours * 60 * 60 * 1000);
-  
-  // Store in cache and return the hour
-  const hour = helsinkiTime.getUTCHours();
-  hourCache[utcTimeString] = hour;
-  return hour;
-};
+const toHourlyData = (average: HourlyAverage, distribution: HourlyDistribution): HourlyData => ({
+  hour: average.hour,
+  trafficCount: average.trafficCount === undefined ? 0 : Math.round(average.trafficCount),
+  avgSpeed: average.avgSpeed === undefined ? 0 : Number(average.avgSpeed.toFixed(1)),
+  trafficCountStats: distribution.trafficCount,
+  avgSpeedStats: distribution.avgSpeed,
+});
 
 /**
- * API handler for getting hourly average traffic data for a specific station
- * based on data from the last month
- * Endpoint: GET /traffic/station/{stationId}/hourly-average
+ * Calculates hourly averages of traffic count and speed, and per sensor
+ * hourly averages for the traffic count and speed sensors. Traffic counts
+ * are summed over the directions and also returned per direction, labelled
+ * with the direction municipalities of the station. Each hour also has the
+ * distribution of its daily values over the period. Coverage tells how many
+ * of the expected hours have traffic counts the averages rest on.
  */
-export const handler: APIGatewayProxyHandler = async (event) => {
-  try {
-    // DEBUG-LOG-BEGIN: Remove these logs when everything is working
-    console.log('DEBUG: Incoming event:', JSON.stringify(event, null, 2));
-    console.log('DEBUG: Environment variables:', JSON.stringify(process.env, null, 2));
-    // DEBUG-LOG-END
-    // Enable CORS
-    const headers = {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
-      'Access-Control-Allow-Methods': 'GET,OPTIONS',
-      'Content-Type': 'application/json'
-    };
-    
-    // Handle OPTIONS request for CORS
-    if (event.httpMethod === 'OPTIONS') {
-      return {
-        statusCode: 200,
-        headers,
-        body: ''
-      };
-    }
-    
-    const stationId = event.pathParameters?.stationId;
-    
-    if (!stationId) {
-      return {
-        statusCode: 400,
-        headers,
-        body: JSON.stringify({ message: 'Missing stationId parameter' })
-      };
-    }
-    
-    console.log(`Getting hourly average data for station ${stationId} from the last month`);
-    
-    const tableName = process.env.DYNAMODB_TABLE_NAME;
-    if (!tableName) {
-      throw new Error('DYNAMODB_TABLE_NAME environment variable is not defined');
+const buildProfile = (samples: HourlySample[], expected: ExpectedHour[], station?: Station): HourlyProfile => {
+  // Group by sensor name and hour with the daily values of the hour. Zero speeds are left out of the per sensor averages.
+  const groupedByNameAndHour: { [name: string]: { [hour: number]: { sum: number, count: number, values: number[] } } } = {};
+
+  // Precompute a map of sensor names to their units to avoid repeated `find` operations
+  const sensorUnitMap: { [name: string]: string } = {};
+  for (const sample of samples) {
+    if (!sensorUnitMap[sample.name]) {
+      sensorUnitMap[sample.name] = sample.unit || '';
     }
-    
-    // Calculate the date range for the last month
-    const today = new Date();
-    const lastMonth = new Date(today);
-    lastMonth.setMonth(today.getMonth() - 1);
-    
-    const startDate = lastMonth.toISOString().split('T')[0];
-    const endDate = today.toISOString().split('T')[0];
-    
-    // Query DynamoDB for all records for this station within the last month
-    // Using date range in compositeKey for efficient querying at the key level
-    // DEBUG-LOG-BEGIN: Remove these logs and pagination logic when everything is working
-    let items: SensorValue[] = [];
-    let lastEvaluatedKey = undefined;
-    let page = 0;
-    
-    // Use date range in KeyConditionExpression for more efficient querying
-    const startDateKey = `${stationId}#${new Date(startDate).toISOString()}`;
-    const endDateKey = `${stationId}#${new Date(endDate + 'T23:59:59.999Z').toISOString()}`;
-    
-    do {
-      page++;
-      const result = await docClient.send(new QueryCommand({
-        TableName: tableName,
-        KeyConditionExpression: 'stationId = :stationId AND compositeKey BETWEEN :startKey AND :endKey',
-        ExpressionAttributeValues: {
-          ':stationId': parseInt(stationId, 10),
-          ':startKey': startDateKey,
-          ':endKey': endDateKey
-        },
-        ExclusiveStartKey: lastEvaluatedKey
-      }));
-      console.log(`DEBUG: Query page ${page}, items:`, result.Items?.length, 'LastEvaluatedKey:', result.LastEvaluatedKey);
-      console.log(`DEBUG: Date range - Start: ${startDateKey}, End: ${endDateKey}`);
-      if (result.Items && result.Items.length > 0) {
-        console.log(`DEBUG: First item compositeKey:`, result.Items[0].compositeKey);
-        console.log(`DEBUG: Last item compositeKey:`, result.Items[result.Items.length - 1].compositeKey);
-      }
-      if (result.Items) items = items.concat(result.Items as SensorValue[]);
-      lastEvaluatedKey = result.LastEvaluatedKey;
-    } while (lastEvaluatedKey);
-    console.log('DEBUG: Total items fetched:', items.length);
-    // DEBUG-LOG-END
-    console.log(`Found ${items.length} records for station ${stationId}`);
-    
-    // Group by sensor name and hour
-    const groupedByNameAndHour: { [name: string]: { [hour: number]: { sum: number, count: number } } } = {};
-    console.log('Grouping records by sensor name and hour...');
-    
-    // Precompute a map of sensor names to their units to avoid repeated `find` operations
-    const sensorUnitMap: { [name: string]: string } = {};
-    for (const item of items) {
-      if (!sensorUnitMap[item.name]) {
-        sensorUnitMap[item.name] = item.unit || '';
+  }
+
+  // Initialize groupedByNameAndHour structure for all sensor names and hours upfront
+  for (const sample of samples) {
+    if (!groupedByNameAndHour[sample.name]) {
+      groupedByNameAndHour[sample.name] = {};
+      for (let hour = 0; hour < 24; hour++) {
+        groupedByNameAndHour[sample.name][hour] = { sum: 0, count: 0, values: [] };
       }
     }
+  }
 
-    // Initialize groupedByNameAndHour structure for all sensor names and hours upfront
-    for (const item of items) {
-      if (!groupedByNameAndHour[item.name]) {
-        groupedByNameAndHour[item.name] = {};
-        for (let hour = 0; hour < 24; hour++) {
-          groupedByNameAndHour[item.name][hour] = { sum: 0, count: 0 };
-        }
-      }
+  for (const sample of samples) {
+    // Update sum and count for the corresponding hour
+    const points = getValuePoints(sample);
+    const group = groupedByNameAndHour[sample.name][sample.hour];
+    group.sum += sample.sum;
+    group.count += points;
+    if (points > 0) {
+      group.values.push(sample.sum / points);
     }
+  }
 
-    // Process items with the optimized getHelsinkiHour function
-    for (const item of items) {
-      if (!item.value || item.value === 0) continue;
+  // Convert grouped data to the response format
+  const hourlyAveragesByName: Omit<SensorHourlyData, 'label'>[] = [];
 
-      const timeString = item.timeWindowStart || item.measuredTime;
-      const hour = getHelsinkiHour(timeString);
+  // Process each sensor type
+  for (const [name, hourData] of Object.entries(groupedByNameAndHour)) {
+    const hourlyData: SensorHourlyData['hourlyData'] = [];
 
-      // Update sum and count for the corresponding hour
-      groupedByNameAndHour[item.name][hour].sum += item.value;
-      groupedByNameAndHour[item.name][hour].count++;
-    }
-    
-    console.log('Grouped by name and hour');
-    
-    // Convert grouped data to the response format
-    const hourlyAveragesByName: { 
-      name: string;
-      unit: string;
-      hourlyData: { hour: number; value: number }[]
-    }[] = [];
-    
-    // Process each sensor type
-    for (const [name, hourData] of Object.entries(groupedByNameAndHour)) {
-      const hourlyData: { hour: number; value: number }[] = [];
-      
-      // Process each hour for this sensor type
-      for (let hour = 0; hour < 24; hour++) {
-        const data = hourData[hour];
-        if (data && data.count > 0) {
-          hourlyData.push({
-            hour,
-            value: Number((data.sum / data.count).toFixed(1))
-          });
-        } else {
-          hourlyData.push({ hour, value: 0 });
-        }
+    // Process each hour for this sensor type
+    for (let hour = 0; hour < 24; hour++) {
+      const data = hourData[hour];
+      if (data && data.count > 0) {
+        hourlyData.push({
+          hour,
+          value: Number((data.sum / data.count).toFixed(1)),
+          stats: describe(data.values)
+        });
+      } else {
+        hourlyData.push({ hour, value: 0 });
       }
-      
-      hourlyAveragesByName.push({
-        name,
-        unit: sensorUnitMap[name],
-        hourlyData
-      });
-    }
-    console.log('Converted grouped data to response format');
-    
-    // Calculate overall averages by hour (maintaining backward compatibility)
-    const hourlyAverages = Array(24).fill(null).map(() => ({
-      trafficCount: 0,
-      avgSpeed: 0,
-      trafficDataPoints: 0,    // Separate counter for traffic count data points
-      speedDataPoints: 0       // Separate counter for speed data points
-    }));
-    
-    // Find traffic count and speed sensors
-    const trafficCountSensors = items.filter(item => 
-      (item.name.includes('OHITUKSET') && item.unit === 'kpl/h')
-    );
-    
-    const speedSensors = items.filter(item => 
-      (item.name.includes('KESKINOPEUS') && item.unit === 'km/h')
-    );
-    
-    // Calculate traffic count averages by hour
-    for (const item of trafficCountSensors) {
-      const timeString = item.timeWindowStart || item.measuredTime;
-      const hour = getHelsinkiHour(timeString);
-      
-      hourlyAverages[hour].trafficCount += item.value || 0;
-      hourlyAverages[hour].trafficDataPoints += 1;
     }
-    console.log('Calculated traffic count averages by hour');
-    
-    // Calculate speed averages by hour
-    console.log(`DEBUG: Processing ${speedSensors.length} speed sensors`);
-    let speedValueSum = 0;
-    let speedCount = 0;
-    
-    for (const item of speedSensors) {
-      const timeString = item.timeWindowStart || item.measuredTime;
-      const hour = getHelsinkiHour(timeString);
-      
-      hourlyAverages[hour].avgSpeed += item.value || 0;
-      hourlyAverages[hour].speedDataPoints += 1;
-      speedValueSum += item.value || 0;
-      speedCount++;
-      
-      // Log some sample speed values
-      if (speedCount <= 10) {
-        console.log(`DEBUG: Speed sensor sample ${speedCount}: ${item.name}, value: ${item.value} ${item.unit}, hour: ${hour}`);
-      }
-    }
-    console.log(`DEBUG: Speed calculation summary - Total sensors: ${speedCount}, Average raw speed: ${speedCount > 0 ? (speedValueSum / speedCount).toFixed(1) : 0} km/h`);
-    console.log('Calculated speed averages by hour');
-    
-    // Calculate the final results
-    console.log('DEBUG: Calculating final hourly averages...');
-    const hourlyData = hourlyAverages.map((data, hour) => {
-      // Calculate traffic count average
-      const trafficCount = data.trafficDataPoints === 0 ? 0 : Math.round(data.trafficCount / data.trafficDataPoints);
-      
-      // Calculate speed average - use separate speed data points
-      const avgSpeed = data.speedDataPoints === 0 ? 0 : Number((data.avgSpeed / data.speedDataPoints).toFixed(1));
-      
-      // Log some sample calculations
-      if (hour < 3 || data.avgSpeed > 0) {
-        console.log(`DEBUG: Hour ${hour}: traffic sum=${data.trafficCount.toFixed(1)}, traffic dataPoints=${data.trafficDataPoints}, speed sum=${data.avgSpeed.toFixed(1)}, speed dataPoints=${data.speedDataPoints}, final avg speed=${avgSpeed} km/h`);
-      }
-      
-      return {
-        hour,
-        trafficCount,
-        avgSpeed
-      };
+
+    hourlyAveragesByName.push({
+      name,
+      unit: sensorUnitMap[name],
+      descriptor: parseSensorName(name, sensorUnitMap[name]),
+      hourlyData
     });
-    console.log('Calculated final results');
-    
-    // Filter hourlyAveragesByName to include only stations which are included in trafficCountSensors or in speedSensors
-    const filteredHourlyAveragesByName = hourlyAveragesByName.filter(sensor => 
-      trafficCountSensors.some(tc => tc.name === sensor.name) || 
-      speedSensors.some(ss => ss.name === sensor.name)
-    );
-    console.log('Filtered hourly averages by name');
-
-    // Build the enhanced response
-    const response = {
-      stationId,
-      period: {
-        start: startDate,
-        end: endDate
-      },
-      hourlyAverages: hourlyData,
-      sensorData: filteredHourlyAveragesByName
-    };
-    
+  }
+
+  // Traffic counts of the two directions are summed, sensors without direction
+  // are only used when the station has no directional sensors
+  const trafficCountSamples = samples.filter(isTrafficCountSensor);
+  const directionNumbers = getSampleDirections(samples);
+
+  const directionAverages = directionNumbers.map(direction => {
+    const directionSamples = samples.filter(sample => parseSensorName(sample.name).direction === direction);
     return {
-      statusCode: 200,
-      headers,
-      body: JSON.stringify(response)
+      direction,
+      averages: averageByHour(directionSamples),
+      dailyAverages: averageByDateAndHour(directionSamples),
     };
-  } catch (error) {
-    console.error('Error getting hourly average data:', error);
-    
+  });
+
+  let hourlyData: HourlyData[];
+  if (directionAverages.length === 0) {
+    const distributions = describeByHour(Array.from(averageByDateAndHour(samples).values()));
+    hourlyData = averageByHour(samples).map((average, hour) => toHourlyData(average, distributions[hour]));
+  } else {
+    // Daily totals are only known for the hours that have values of every direction
+    const dateHours = new Set(directionAverages.flatMap(direction => Array.from(direction.dailyAverages.keys())));
+    const dailyTotals: HourlyAverage[] = [];
+    for (const dateHour of dateHours) {
+      const averages = directionAverages.map(direction => direction.dailyAverages.get(dateHour));
+      if (averages.every(average => average !== undefined)) {
+        dailyTotals.push(combineDirections(parseInt(dateHour.split('#')[1], 10), averages as HourlyAverage[]));
+      }
+    }
+    const distributions = describeByHour(dailyTotals);
+    hourlyData = Array.from({ length: 24 }, (_, hour) =>
+      toHourlyData(combineDirections(hour, directionAverages.map(direction => direction.averages[hour])), distributions[hour]));
+  }
+
+  const directions = directionAverages.map(({ direction, averages, dailyAverages }) => {
+    const distributions = describeByHour(Array.from(dailyAverages.values()));
+    const municipality = direction === 1 ? station?.direction1Municipality : direction === 2 ? station?.direction2Municipality : undefined;
     return {
-      statusCode: 500,
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({ message: 'Failed to get hourly average data', error: String(error) })
+      direction,
+      municipality,
+      label: municipality ? `towards ${municipality}` : `Direction ${direction}`,
+      hourlyAverages: averages.map((average, hour) => toHourlyData(average, distributions[hour])),
     };
+  });
+
+  // Filter hourlyAveragesByName to include only traffic count and speed sensors, labelled with the direction municipalities
+  const directionLabels = Object.fromEntries(directions.map(direction => [direction.direction, direction.label]));
+  const filteredHourlyAveragesByName = hourlyAveragesByName
+    .filter(sensor => isRollupSensor(sensor))
+    .map(sensor => ({ ...sensor, label: getSensorLabel(sensor.descriptor, directionLabels) }));
+
+  return {
+    hourlyAverages: hourlyData,
+    directions,
+    sensorData: filteredHourlyAveragesByName,
+    coverage: summarizeCoverage(expected, trafficCountSamples)
+  };
+};
+
+/**
+ * Converts raw sensor values into hourly samples of the time zone. Used for
+ * dates collected before the processor started writing hourly rollups,
+ * and for time zones other than the Finnish time of the rollups.
+ */
+const toHourlySamples = (items: SensorValue[], timeZone: string): HourlySample[] => {
+  return items
+    .filter(item => isRollupSensor(item))
+    .map(item => {
+      const local = toLocalTime(item.timeWindowStart || item.measuredTime, timeZone);
+      const value = item.value || 0;
+      return {
+        date: local.date,
+        hour: local.hour,
+        name: item.name,
+        unit: item.unit || '',
+        sum: value,
+        count: 1,
+        zeros: value === 0 ? 1 : 0,
+        min: value,
+        max: value
+      };
+    });
+};
+
+/**
+ * Reads the raw values of the local dates from start to end and converts
+ * them into hourly samples of the time zone
+ */
+const queryRawSamples = async (stationId: number, start: string, end: string, timeZone: string): Promise<HourlySample[]> => {
+  // Values are keyed by measuredTime at the end of the window, so query one extra hour
+  const periodStart = localToUtc(start, 0, timeZone);
+  const periodEnd = localToUtc(addDays(end, 1), 0, timeZone);
+  const items = (await querySensorValues(stationId, periodStart, new Date(periodEnd.getTime() + 60 * 60 * 1000)))
+    .filter(item => {
+      const time = new Date(item.timeWindowStart || item.measuredTime);
+      return time >= periodStart && time < periodEnd;
+    });
+  console.log(`Found ${items.length} raw records for station ${stationId} from ${start} to ${end}`);
+  return toHourlySamples(items, timeZone);
+};
+
+/**
+ * Groups sorted dates into ranges of consecutive dates
+ */
+const toDateRanges = (dates: string[]): { start: string; end: string }[] => {
+  const ranges: { start: string; end: string }[] = [];
+  for (const date of dates) {
+    const last = ranges[ranges.length - 1];
+    if (last && addDays(last.end, 1) === date) {
+      last.end = date;
+    } else {
+      ranges.push({ start: date, end: date });
+    }
+  }
+  return ranges;
+};
+
+const getSampleDayType = (sample: { date: string }, groupBy: GroupBy): string => {
+  return groupBy === 'weekday' ? getWeekdayType(sample.date) : getDayType(sample.date);
+};
+
+// Longest averaging period that can be requested
+const MAX_PERIOD_DAYS = 366;
+
+// Raw values expire after this many days, see the processor
+const RAW_RETENTION_DAYS = parseInt(process.env.RAW_RETENTION_DAYS || '0', 10) || undefined;
+
+/**
+ * Resolves the averaging period from from/to or days query parameters.
+ * Without parameters the period is the last month.
+ */
+const getPeriod = (params: GetHourlyAverageParams, timeZone: string): { start: string; end: string } => {
+  const { from, to, days } = params;
+
+  if (days !== undefined && from !== undefined && to !== undefined) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Use either from and to, or days, but not all three');
+  }
+
+  const today = toLocalTime(new Date(), timeZone).date;
+  let start: string;
+  let end: string;
+
+  if (days !== undefined) {
+    if (from) {
+      start = from;
+      end = addDays(from, days - 1);
+    } else {
+      end = to || today;
+      start = addDays(end, -(days - 1));
+    }
+  } else if (from || to) {
+    end = to || today;
+    start = from || addDays(end, -30);
+  } else {
+    // Default period is the last month
+    start = addMonths(today, -1);
+    end = today;
+  }
+
+  if (start > end) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Parameter from must not be after to');
+  }
+  if (daysBetween(start, end) + 1 > MAX_PERIOD_DAYS) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Period must not be longer than ${MAX_PERIOD_DAYS} days`);
   }
-}
\ No newline at end of file
+
+  // Other time zones are calculated from raw values, which do not exist for older dates
+  if (timeZone !== FINNISH_TIME_ZONE && RAW_RETENTION_DAYS) {
+    const firstRawDate = addDays(today, -(RAW_RETENTION_DAYS - 1));
+    if (start < firstRawDate) {
+      throw new ApiError(400, 'INVALID_PARAMETER',
+        `Periods in time zones other than ${FINNISH_TIME_ZONE} must not start before ${firstRawDate}, raw values are kept for ${RAW_RETENTION_DAYS} days`);
+    }
+  }
+
+  return { start, end };
+};
+
+/**
+ * API handler for getting hourly average traffic data for a specific station
+ * over a period, by default the last month
+ * Endpoint: GET /traffic/station/{stationId}/hourly-average?from=YYYY-MM-DD&to=YYYY-MM-DD&days=N&groupBy=dayType|weekday&dayType=TYPE&tz=Europe/Helsinki
+ *
+ * Dates and hours are local times of tz, by default Finnish time. Rollups are
+ * kept in Finnish time, so other time zones are calculated from raw values and
+ * limited to the last RAW_RETENTION_DAYS days. Dates without rollups fall back
+ * to raw values, source tells whether rollups, raw values or both were used.
+ * groupBy adds separate profiles per day type: weekday/saturday/sundayOrHoliday,
+ * or individual weekdays with holidays separated. dayType limits all profiles to one day type.
+ */
+export const handler = apiHandler<GetHourlyAverageParams & { format?: ExportFormat }>(async ({ params }) => {
+  const { stationId, groupBy, format } = params;
+  const dayTypeFilter = params.dayType;
+  const dayTypeFilterIsWeekday = (WEEKDAY_TYPES as string[]).includes(dayTypeFilter || '');
+  const timeZone = params.tz || FINNISH_TIME_ZONE;
+  
+  const { start: startDate, end: endDate } = getPeriod(params, timeZone);
+  
+  console.log(`Getting hourly average data for station ${stationId} from ${startDate} to ${endDate} in ${timeZone}`);
+  
+  // Read pre-aggregated hourly rollups written by the processor
+  let expected = getExpectedHours(startDate, endDate, new Date(), timeZone);
+  let rollupSamples: HourlySample[] = [];
+  let missingDates = Array.from(new Set(expected.map(hour => hour.date)));
+  if (timeZone === FINNISH_TIME_ZONE) {
+    // Rollups written before they were limited to the profile sensors also have other windows
+    rollupSamples = (await queryHourlySamples(parseInt(stationId, 10), startDate, endDate)).filter(isRollupSensor);
+    console.log(`Found ${rollupSamples.length} hourly rollup samples for station ${stationId}`);
+    const rollupDates = new Set(rollupSamples.map(sample => sample.date));
+    missingDates = missingDates.filter(date => !rollupDates.has(date));
+  }
+  
+  // Fall back to raw values for the dates that have no rollups
+  let rawSamples: HourlySample[] = [];
+  for (const range of toDateRanges(missingDates)) {
+    rawSamples = rawSamples.concat(await queryRawSamples(parseInt(stationId, 10), range.start, range.end, timeZone));
+  }
+  const usesRaw = timeZone !== FINNISH_TIME_ZONE || rawSamples.length > 0;
+  const source = usesRaw && rollupSamples.length > 0 ? 'mixed' : usesRaw ? 'raw' : 'rollup';
+  let samples = rollupSamples.concat(rawSamples);
+  
+  // Limit to the requested day type
+  if (dayTypeFilter) {
+    const filterGroupBy = dayTypeFilterIsWeekday ? 'weekday' : 'dayType';
+    samples = samples.filter(sample => getSampleDayType(sample, filterGroupBy) === dayTypeFilter);
+    expected = expected.filter(hour => getSampleDayType(hour, filterGroupBy) === dayTypeFilter);
+    console.log(`${samples.length} samples on day type ${dayTypeFilter}`);
+  }
+  
+  // Direction labels come from the station registry, averages are returned without them if it is not available
+  let station: Station | undefined = undefined;
+  try {
+    station = await getRegistryStation(parseInt(stationId, 10));
+  } catch (registryError) {
+    console.error(`Failed to read station ${stationId} from the registry:`, registryError);
+  }
+  
+  const profile = buildProfile(samples, expected, station);
+  console.log('Calculated hourly profile');
+  
+  // Separate profiles per day type
+  let profiles: ({ dayType: string; days: number } & HourlyProfile)[] | undefined = undefined;
+  if (groupBy) {
+    const samplesByDayType: { [dayType: string]: HourlySample[] } = {};
+    const datesByDayType: { [dayType: string]: Set<string> } = {};
+    for (const sample of samples) {
+      const dayType = getSampleDayType(sample, groupBy);
+      (samplesByDayType[dayType] = samplesByDayType[dayType] || []).push(sample);
+      (datesByDayType[dayType] = datesByDayType[dayType] || new Set()).add(sample.date);
+    }
+    const dayTypes: string[] = groupBy === 'weekday' ? WEEKDAY_TYPES : DAY_TYPES;
+    profiles = dayTypes
+      .filter(dayType => samplesByDayType[dayType])
+      .map(dayType => ({
+        dayType,
+        days: datesByDayType[dayType].size,
+        ...buildProfile(samplesByDayType[dayType], expected.filter(hour => getSampleDayType(hour, groupBy) === dayType), station)
+      }));
+    console.log(`Calculated ${profiles.length} day type profiles`);
+  }
+
+  // Build the enhanced response
+  const response = {
+    stationId,
+    period: {
+      start: startDate,
+      end: endDate
+    },
+    dayType: dayTypeFilter,
+    timeZone,
+    source,
+    hourlyAverages: profile.hourlyAverages,
+    directions: profile.directions,
+    sensorData: profile.sensorData,
+    coverage: profile.coverage,
+    profiles
+  };
+  
+  // Profiles as CSV or NDJSON rows, day type profiles replace the combined profile when grouped
+  if (format) {
+    const columns = { stationId, periodStart: startDate, periodEnd: endDate, timeZone };
+    const rows = profiles
+      ? profiles.flatMap(dayTypeProfile => toExportRows(dayTypeProfile, { ...columns, dayType: dayTypeProfile.dayType }))
+      : toExportRows(profile, { ...columns, dayType: dayTypeFilter || 'all' });
+    return exportResponse(format, EXPORT_COLUMNS, rows, `station-${stationId}-hourly-average-${startDate}-${endDate}`);
+  }
+  
+  return jsonResponse(200, response);
+});
@@ -0,0 +1,12 @@
+import { getRegions, parseRegionIds } from '../../../../../common/regions';
+import { apiHandler, jsonResponse } from '../../../common/http';
+
+/**
+ * API handler for listing the active monitoring regions
+ * Endpoint: GET /traffic/regions
+ */
+export const handler = apiHandler(async () => {
+  const regions = getRegions(parseRegionIds(process.env.ACTIVE_REGIONS));
+
+  return jsonResponse(200, { regions });
+});
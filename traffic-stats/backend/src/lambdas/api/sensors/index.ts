@@ -0,0 +1,20 @@
+import { ListSensorsParams } from '../../../../../common/api/types';
+import { getSensorLabel } from '../../../../../common/sensors';
+import { apiHandler, jsonResponse } from '../../../common/http';
+import { getSensorCatalogue } from '../../../common/sensorCatalogue';
+
+/**
+ * API handler for the sensor catalogue: Digitraffic TMS sensors with
+ * descriptors parsed from their names
+ * Endpoint: GET /traffic/sensors?quantity=trafficCount|averageSpeed|unknown&windowMinutes=60
+ */
+export const handler = apiHandler<ListSensorsParams>(async ({ params }) => {
+  const { quantity, windowMinutes } = params;
+
+  const sensors = (await getSensorCatalogue())
+    .filter(sensor => !quantity || sensor.quantity === quantity)
+    .filter(sensor => windowMinutes === undefined || sensor.windowMinutes === windowMinutes)
+    .map(sensor => ({ ...sensor, label: getSensorLabel(sensor) }));
+
+  return jsonResponse(200, { count: sensors.length, sensors });
+});
@@ -0,0 +1,42 @@
+import { GetStationParams, ListStationsParams } from '../../../../../common/api/types';
+import { parseRegionIds } from '../../../../../common/regions';
+import { fileResponse, toGeoJson } from '../../../common/export';
+import { ApiError, apiHandler, jsonResponse } from '../../../common/http';
+import { getRegistryStation, getRegistryStations } from '../../../common/stationRegistry';
+
+/**
+ * API handler for the station registry maintained by the collector
+ * Endpoints:
+ *   GET /traffic/stations?region=tampere&format=geojson
+ *   GET /traffic/stations/{stationId}
+ */
+export const handler = apiHandler<Partial<GetStationParams> & ListStationsParams & { format?: 'geojson' }>(async ({ params }) => {
+  const { stationId, format } = params;
+  if (stationId) {
+    const station = await getRegistryStation(parseInt(stationId, 10));
+    if (!station) {
+      throw new ApiError(404, 'NOT_FOUND', `Station ${stationId} not found`);
+    }
+    return jsonResponse(200, station);
+  }
+
+  const activeRegionIds = parseRegionIds(process.env.ACTIVE_REGIONS);
+  const requestedRegion = params.region?.toLowerCase();
+
+  if (requestedRegion && !activeRegionIds.includes(requestedRegion)) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Unknown or inactive region: ${requestedRegion}`);
+  }
+
+  const regionIds = requestedRegion ? [requestedRegion] : activeRegionIds;
+  console.log(`Getting registry stations for regions ${regionIds.join(', ')}`);
+
+  const stations = (await getRegistryStations())
+    .filter(station => station.regions?.some(region => regionIds.includes(region)))
+    .sort((a, b) => (a.fullName || a.name).localeCompare(b.fullName || b.name));
+
+  if (format) {
+    return fileResponse(JSON.stringify(toGeoJson(stations)), format, `stations-${regionIds.join('-')}.geojson`);
+  }
+
+  return jsonResponse(200, { regions: regionIds, stations });
+});
@@ -0,0 +1,166 @@
+import { GetTimeSeriesParams } from '../../../../../common/api/types';
+import { FINNISH_TIME_ZONE, addDays, daysBetween, isValidDate, localToUtc, startOfWeek, toLocalTime } from '../../../../../common/time';
+import { ApiError, apiHandler, jsonResponse } from '../../../common/http';
+import { querySensorValues } from '../../../common/sensorValues';
+
+type Resolution = '5min' | 'hour' | 'day' | 'week';
+
+// Number of local days returned per page for each resolution
+const PAGE_DAYS: { [resolution in Resolution]: number } = {
+  '5min': 1,
+  hour: 7,
+  day: 92,
+  week: 364,
+};
+
+const MAX_RANGE_DAYS = 3 * 366;
+
+interface Bucket {
+  time: string;
+  start: string;
+  samples: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const FIVE_MINUTES_MS = 5 * MINUTE_MS;
+
+const getBucketDate = (localDate: string, resolution: Resolution): string => {
+  return resolution === 'week' ? startOfWeek(localDate) : localDate;
+};
+
+/**
+ * Local label and UTC start of the bucket of a time. Five minute and hour
+ * buckets are keyed by their UTC start, so the repeated hour at the end of
+ * daylight saving time does not merge two hours into the same buckets: both
+ * have the same local label but a different start.
+ */
+const getBucket = (time: Date, resolution: Resolution, timeZone: string): { key: string; time: string; start: Date } => {
+  if (resolution === '5min') {
+    const start = new Date(Math.floor(time.getTime() / FIVE_MINUTES_MS) * FIVE_MINUTES_MS);
+    const local = toLocalTime(start, timeZone);
+    const label = `${local.date}T${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`;
+    return { key: start.toISOString(), time: label, start };
+  }
+
+  const local = toLocalTime(time, timeZone);
+  const bucketDate = getBucketDate(local.date, resolution);
+  if (resolution === 'hour') {
+    const label = `${bucketDate}T${String(local.hour).padStart(2, '0')}:00`;
+    const start = new Date(Math.floor(time.getTime() / MINUTE_MS) * MINUTE_MS - local.minute * MINUTE_MS);
+    return { key: start.toISOString(), time: label, start };
+  }
+  return { key: bucketDate, time: bucketDate, start: localToUtc(bucketDate, 0, timeZone) };
+};
+
+const encodeToken = (date: string): string => Buffer.from(date).toString('base64url');
+const decodeToken = (token: string): string => Buffer.from(token, 'base64url').toString('utf8');
+
+/**
+ * API handler for measured values of a station grouped into local time buckets
+ * Endpoint: GET /traffic/station/{stationId}/timeseries?from=YYYY-MM-DD&to=YYYY-MM-DD&sensor=NAME&resolution=5min|hour|day|week&tz=Europe/Helsinki
+ * Dates and buckets are local times of tz, by default Finnish time.
+ * Long ranges are returned in pages, next page is requested with ?nextToken=
+ * 5min resolution is meant for the 5 minute sliding window sensors collected in the high-frequency mode.
+ */
+export const handler = apiHandler<GetTimeSeriesParams>(async ({ params }) => {
+  const { stationId } = params;
+  const timeZone = params.tz || FINNISH_TIME_ZONE;
+  const today = toLocalTime(new Date(), timeZone).date;
+  const to = params.to || today;
+  const from = params.from || addDays(to, -6);
+  const resolution: Resolution = params.resolution || 'hour';
+  const sensorNames = params.sensor ? params.sensor.split(',').map(name => name.trim()).filter(name => name) : undefined;
+
+  if (from > to) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Parameter from must not be after to');
+  }
+  if (daysBetween(from, to) >= MAX_RANGE_DAYS) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Date range must be shorter than ${MAX_RANGE_DAYS} days`);
+  }
+
+  // Page covers local days [pageFrom, pageEnd), week pages start on Monday so that weeks are not split
+  const pageFrom = params.nextToken ? decodeToken(params.nextToken) : from;
+  if (!isValidDate(pageFrom) || pageFrom < from || pageFrom > to) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Invalid nextToken');
+  }
+  const pageStartDay = resolution === 'week' ? startOfWeek(pageFrom) : pageFrom;
+  const lastDayExclusive = addDays(to, 1);
+  const pageEndCandidate = addDays(pageStartDay, PAGE_DAYS[resolution]);
+  const pageEnd = pageEndCandidate < lastDayExclusive ? pageEndCandidate : lastDayExclusive;
+
+  const pageStartTime = localToUtc(pageFrom, 0, timeZone);
+  const pageEndTime = localToUtc(pageEnd, 0, timeZone);
+
+  console.log(`Getting ${resolution} time series for station ${stationId} from ${pageFrom} to ${pageEnd}`);
+
+  // Values are keyed by measuredTime which is at the end of the window, so query one extra hour
+  const items = await querySensorValues(
+    parseInt(stationId, 10),
+    pageStartTime,
+    new Date(pageEndTime.getTime() + 60 * 60 * 1000),
+    sensorNames
+  );
+  console.log(`Found ${items.length} records for station ${stationId}`);
+
+  const sensors: { [name: string]: { unit: string; buckets: Map<string, Bucket> } } = {};
+
+  for (const item of items) {
+    if (item.value === undefined || item.value === null) continue;
+
+    const time = new Date(item.timeWindowStart || item.measuredTime);
+    if (time < pageStartTime || time >= pageEndTime) continue;
+
+    const bucketTime = getBucket(time, resolution, timeZone);
+
+    if (!sensors[item.name]) {
+      sensors[item.name] = { unit: item.unit || '', buckets: new Map() };
+    }
+    const buckets = sensors[item.name].buckets;
+    let bucket = buckets.get(bucketTime.key);
+    if (!bucket) {
+      bucket = { time: bucketTime.time, start: bucketTime.start.toISOString(), samples: 0, sum: 0, min: item.value, max: item.value };
+      buckets.set(bucketTime.key, bucket);
+    }
+    bucket.samples++;
+    bucket.sum += item.value;
+    bucket.min = Math.min(bucket.min, item.value);
+    bucket.max = Math.max(bucket.max, item.value);
+  }
+
+  const series = Object.entries(sensors)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, sensor]) => ({
+      name,
+      unit: sensor.unit,
+      points: Array.from(sensor.buckets.values())
+        .sort((a, b) => a.start.localeCompare(b.start))
+        .map(bucket => ({
+          time: bucket.time,
+          start: bucket.start,
+          samples: bucket.samples,
+          mean: Number((bucket.sum / bucket.samples).toFixed(1)),
+          sum: Number(bucket.sum.toFixed(1)),
+          min: bucket.min,
+          max: bucket.max,
+        })),
+    }));
+
+  const response = {
+    stationId,
+    from,
+    to,
+    resolution,
+    timeZone,
+    page: {
+      from: pageFrom,
+      to: addDays(pageEnd, -1),
+    },
+    nextToken: pageEnd < lastDayExclusive ? encodeToken(pageEnd) : undefined,
+    series,
+  };
+
+  return jsonResponse(200, response);
+});
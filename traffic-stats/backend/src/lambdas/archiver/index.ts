@@ -0,0 +1,105 @@
+import { Handler } from 'aws-lambda';
+import { addDays, isValidDate, toLocalTime } from '../../../../common/time';
+import { archiveStationDay, listCheckedDays } from '../../common/archive';
+import { mapWithConcurrency } from '../../common/retry';
+import { getRegistryStations } from '../../common/stationRegistry';
+
+// Days are archived once late messages are no longer expected
+const ARCHIVE_AFTER_DAYS = parseInt(process.env.ARCHIVE_AFTER_DAYS || '2', 10);
+const ARCHIVE_CONCURRENCY = 5;
+
+// Raw values expire after this many days, see the processor
+const RAW_RETENTION_DAYS = parseInt(process.env.RAW_RETENTION_DAYS || '0', 10) || undefined;
+
+interface ArchiverEvent {
+  // Local date to archive again, by default the missing days are archived
+  date?: string;
+  stationIds?: number[];
+}
+
+interface ArchiveTask {
+  stationId: number;
+  date: string;
+}
+
+/**
+ * Local dates from first to last that have neither an archive object nor an
+ * empty day marker of the station
+ */
+const getMissingDays = async (stationId: number, first: string, last: string): Promise<string[]> => {
+  const archived = new Set(await listCheckedDays(stationId, first, last));
+  const days: string[] = [];
+  for (let date = first; date <= last; date = addDays(date, 1)) {
+    if (!archived.has(date)) {
+      days.push(date);
+    }
+  }
+  return days;
+};
+
+/**
+ * Lambda function that archives raw sensor values of the registry stations
+ * to S3 before they expire from DynamoDB. Runs daily and archives every day
+ * from the start of the raw value retention to ARCHIVE_AFTER_DAYS ago that
+ * has no archive yet, so days of failed runs are archived by the next run.
+ * Days without values are marked empty and are not checked again, so the
+ * days of stations that no longer gather are queried only once. Can be invoked
+ * manually with { "date": "YYYY-MM-DD" } to archive a specific day again.
+ */
+export const handler: Handler<ArchiverEvent> = async (event) => {
+  if (event?.date && !isValidDate(event.date)) {
+    throw new Error(`Invalid date ${event.date}, expected YYYY-MM-DD`);
+  }
+
+  const stationIds = event?.stationIds?.length
+    ? event.stationIds
+    : (await getRegistryStations()).map(station => Number(station.id));
+
+  const failed: string[] = [];
+  let tasks: ArchiveTask[];
+  if (event?.date) {
+    const date = event.date;
+    tasks = stationIds.map(stationId => ({ stationId, date }));
+  } else {
+    const today = toLocalTime(new Date()).date;
+    const last = addDays(today, -ARCHIVE_AFTER_DAYS);
+    const first = RAW_RETENTION_DAYS ? addDays(today, -(RAW_RETENTION_DAYS - 1)) : last;
+    console.log(`Finding days without archive from ${first} to ${last} for ${stationIds.length} stations`);
+
+    const missing = await mapWithConcurrency(stationIds, ARCHIVE_CONCURRENCY, stationId => getMissingDays(stationId, first, last));
+    tasks = missing.flatMap((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Failed to list the archive of station ${stationIds[index]}:`, result.reason);
+        failed.push(String(stationIds[index]));
+        return [];
+      }
+      return result.value.map(date => ({ stationId: stationIds[index], date }));
+    });
+  }
+
+  console.log(`Archiving ${tasks.length} days of ${stationIds.length} stations`);
+
+  const results = await mapWithConcurrency(tasks, ARCHIVE_CONCURRENCY, task => archiveStationDay(task.stationId, task.date));
+
+  let archivedDays = 0;
+  let archivedValues = 0;
+  results.forEach((result, index) => {
+    const { stationId, date } = tasks[index];
+    if (result.status === 'fulfilled') {
+      archivedDays += 1;
+      archivedValues += result.value;
+    } else {
+      console.error(`Failed to archive station ${stationId} for ${date}:`, result.reason);
+      failed.push(`${stationId} ${date}`);
+    }
+  });
+
+  console.log(`Archived ${archivedValues} values of ${archivedDays} station days`);
+
+  // Failing the invocation makes Lambda retry, archiving the same day again is safe
+  if (failed.length > 0) {
+    throw new Error(`Failed to archive ${failed.length} stations or station days: ${failed.join(', ')}`);
+  }
+
+  return { archivedDays, stationsCount: stationIds.length, archivedValues };
+};
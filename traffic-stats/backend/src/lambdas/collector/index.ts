@@ -1,54 +1,309 @@
-import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { SendMessageBatchRequestEntry } from '@aws-sdk/client-sqs';
+import { randomUUID } from 'crypto';
 import axios from 'axios';
 import { Handler } from 'aws-lambda';
-import { Station, TrafficData, TrafficDataSQSMessage } from '../../../../common/interfaces';
-import { getTampereStations } from '../../../../common/common';
+import { CollectionMode, SensorValue, Station, TrafficData, TrafficDataSQSMessage } from '../../../../common/interfaces';
+import { DIGITRAFFIC_TMS_URL, enrichStationDetails, fetchStations, getRegionStations } from '../../../../common/common';
+import { getRegions, parseRegionIds } from '../../../../common/regions';
+import { isHourlySensor, parseSensorName } from '../../../../common/sensors';
+import { getMessageQueue } from '../../common/queue';
+import { getRegistryStations, saveRegistryStations } from '../../common/stationRegistry';
+import { RetryError, RetryableError, mapWithConcurrency, withRetry } from '../../common/retry';
 
-const sqsClient = new SQSClient({ region: process.env.AWS_REGION });
+// Limits for fetching station data from Digitraffic
+const FETCH_CONCURRENCY = parseInt(process.env.FETCH_CONCURRENCY || '5', 10);
+const REQUEST_TIMEOUT_MS = parseInt(process.env.REQUEST_TIMEOUT_MS || '10000', 10);
+
+// SQS limits a message and a whole SendMessageBatch request to 256 KB, keep some margin
+const MAX_CHUNK_BYTES = 200 * 1024;
+const MAX_BATCH_BYTES = 250 * 1024;
+const MAX_BATCH_ENTRIES = 10;
+
+export interface FailedStation {
+  stationId: string;
+  name: string;
+  attempts: number;
+  error: string;
+}
+
+// Station details rarely change, so they are fetched from Digitraffic again only once a day
+const REGISTRY_REFRESH_HOURS = 24;
+
+// Details are not part of the station list, so they are kept from the registry until they are refreshed
+const keepRegistryDetails = (station: Station, existing: Station): void => {
+  station.municipality = station.municipality || existing.municipality;
+  station.direction1Municipality = existing.direction1Municipality;
+  station.direction2Municipality = existing.direction2Municipality;
+  station.roadNumber = existing.roadNumber;
+  station.tmsNumber = existing.tmsNumber;
+  station.sensors = existing.sensors;
+  station.updatedAt = existing.updatedAt;
+};
+
+/**
+ * Stores the collected stations into the station registry. Details of stations
+ * that are missing from the registry or are outdated are fetched from Digitraffic.
+ * Stations whose details cannot be fetched keep their registry details and
+ * update time, so they are refreshed again on the next run. Registry stations
+ * that are no longer collected get their current collection status from the
+ * list of all stations.
+ */
+const updateStationRegistry = async (stations: Station[], allStations: Station[]): Promise<void> => {
+  const registry = new Map((await getRegistryStations()).map(station => [station.id, station]));
+  const now = new Date();
+  const staleStations: Station[] = [];
+
+  for (const station of stations) {
+    const existing = registry.get(String(station.id));
+    const age = existing?.updatedAt ? now.getTime() - new Date(existing.updatedAt).getTime() : Infinity;
+    // Stations stored before the sensors were added to the registry are refreshed
+    if (existing?.sensors && age < REGISTRY_REFRESH_HOURS * 60 * 60 * 1000) {
+      keepRegistryDetails(station, existing);
+    } else {
+      staleStations.push(station);
+    }
+  }
+
+  console.log(`Refreshing registry details for ${staleStations.length} stations`);
+  const refreshed = new Set(await enrichStationDetails(staleStations));
+  staleStations.forEach(station => {
+    const existing = registry.get(String(station.id));
+    if (refreshed.has(station)) {
+      station.updatedAt = now.toISOString();
+    } else if (existing) {
+      keepRegistryDetails(station, existing);
+    }
+  });
+  if (refreshed.size < staleStations.length) {
+    console.error(`Failed to refresh registry details for ${staleStations.length - refreshed.size} stations`);
+  }
+
+  const collectedIds = new Set(stations.map(station => String(station.id)));
+  const statuses = new Map(allStations.map(station => [String(station.id), station.collectionStatus]));
+  const statusChanges = Array.from(registry.values())
+    .filter(station => !collectedIds.has(station.id) && statuses.has(station.id) && statuses.get(station.id) !== station.collectionStatus)
+    .map(station => ({ ...station, collectionStatus: statuses.get(station.id) }));
+  if (statusChanges.length > 0) {
+    console.log(`Collection status changed for stations ${statusChanges.map(station => station.id).join(', ')}`);
+  }
+
+  await saveRegistryStations([...stations, ...statusChanges]);
+  console.log(`Station registry updated with ${stations.length} stations`);
+};
+
+/**
+ * Gathering registry stations of the given regions, as stored by the last hourly run
+ */
+const getGatheringRegistryStations = async (regionIds: string[]): Promise<Station[]> => {
+  return (await getRegistryStations())
+    .filter(station => station.collectionStatus === 'GATHERING')
+    .filter(station => station.regions?.some(regionId => regionIds.includes(regionId)));
+};
+
+const byteLength = (message: TrafficDataSQSMessage): number => Buffer.byteLength(JSON.stringify(message), 'utf8');
+
+/**
+ * Splits the collected data into messages that fit into the SQS message size
+ * limit. Each message carries the run ID and its position among the chunks.
+ */
+const buildChunks = (trafficData: TrafficData[], collected: string, runId: string, mode: CollectionMode): TrafficDataSQSMessage[] => {
+  // Size of the message without station data, with room for the chunk numbers
+  const overhead = byteLength({ collected, mode, runId, chunkIndex: 99999, chunkTotal: 99999, stationCount: 99999, trafficData: [] });
+  const chunkData: TrafficData[][] = [];
+  let current: TrafficData[] = [];
+  let currentBytes = overhead;
+
+  for (const data of trafficData) {
+    // Each station adds its JSON and a separating comma
+    const dataBytes = Buffer.byteLength(JSON.stringify(data), 'utf8') + 1;
+    if (currentBytes + dataBytes > MAX_CHUNK_BYTES && current.length > 0) {
+      chunkData.push(current);
+      current = [];
+      currentBytes = overhead;
+    }
+    current.push(data);
+    currentBytes += dataBytes;
+  }
+  if (current.length > 0) {
+    chunkData.push(current);
+  }
+
+  return chunkData.map((data, chunkIndex) => ({
+    collected,
+    mode,
+    runId,
+    chunkIndex,
+    chunkTotal: chunkData.length,
+    stationCount: data.length,
+    trafficData: data,
+  }));
+};
+
+export interface SendResult {
+  sentChunks: number;
+  failedChunks: number[];
+}
+
+/**
+ * Sends the messages with SendMessageBatch, packing as many messages into
+ * each request as the entry count and request size limits allow. A batch
+ * that fails after its retries does not stop the later batches, the chunk
+ * indexes of the failed batches are returned.
+ */
+export const sendChunks = async (queueUrl: string, messages: TrafficDataSQSMessage[]): Promise<SendResult> => {
+  const batches: SendMessageBatchRequestEntry[][] = [];
+  let batch: SendMessageBatchRequestEntry[] = [];
+  let batchBytes = 0;
+
+  for (const message of messages) {
+    const body = JSON.stringify(message);
+    const bytes = Buffer.byteLength(body, 'utf8');
+    if (bytes > MAX_BATCH_BYTES) {
+      throw new Error(`Chunk ${message.chunkIndex} of run ${message.runId} is too large for SQS (${bytes} bytes)`);
+    }
+    if (batch.length === MAX_BATCH_ENTRIES || (batch.length > 0 && batchBytes + bytes > MAX_BATCH_BYTES)) {
+      batches.push(batch);
+      batch = [];
+      batchBytes = 0;
+    }
+    batch.push({ Id: `chunk-${message.chunkIndex}`, MessageBody: body });
+    batchBytes += bytes;
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+
+  const result: SendResult = { sentChunks: 0, failedChunks: [] };
+  for (const entries of batches) {
+    let pending = entries;
+    try {
+      // Resend only the entries SQS reported as failed
+      await withRetry(async () => {
+        const failedIds = new Set(await getMessageQueue().sendBatch(queueUrl, pending));
+        pending = pending.filter(entry => failedIds.has(entry.Id as string));
+        if (pending.length > 0) {
+          throw new RetryableError(`Failed to send ${pending.length} chunks: ${Array.from(failedIds).join(', ')}`);
+        }
+      });
+    } catch (error) {
+      console.error(`Failed to send ${pending.length} of ${entries.length} chunks to SQS queue:`, error);
+    }
+    const failedIds = new Set(pending.map(entry => entry.Id));
+    entries.forEach(entry => {
+      if (failedIds.has(entry.Id)) {
+        result.failedChunks.push(Number((entry.Id as string).replace('chunk-', '')));
+      } else {
+        result.sentChunks += 1;
+      }
+    });
+    console.log(`Sent ${entries.length - pending.length} chunks to SQS queue`);
+  }
+  return result;
+};
+
+// Five minute runs collect only the sensors whose window is moved every minute
+const isFiveMinuteSlidingSensor = (sensor: SensorValue): boolean => {
+  const descriptor = parseSensorName(sensor.name);
+  return descriptor.window === 'sliding' && descriptor.windowMinutes === 5;
+};
 
 /**
  * Lambda function that collects traffic data from Digitraffic API
- * and sends it to an SQS queue for further processing
+ * and sends it to an SQS queue for further processing.
+ * Scheduled hourly, and every five minutes with event { "mode": "fiveMinute" }
+ * when the high-frequency mode is enabled.
  */
 export const handler: Handler = async (event) => {
   try {
-    console.log('Starting to fetch traffic data from Digitraffic');
+    const mode: CollectionMode = event?.mode === 'fiveMinute' ? 'fiveMinute' : 'hourly';
+    console.log(`Starting to fetch traffic data from Digitraffic, ${mode} run`);
     
-    // Fetch stations from Digitraffic API
-    const tampereStations = await getTampereStations();
+    // Hourly runs fetch stations of the active regions from Digitraffic API and update the registry,
+    // five minute runs read them from the registry
+    const regions = getRegions(parseRegionIds(process.env.ACTIVE_REGIONS));
+    let regionStations: Station[];
+    if (mode === 'hourly') {
+      const allStations = await withRetry(() => fetchStations());
+      regionStations = await withRetry(() => getRegionStations(regions, allStations));
+      
+      // Registry failures must not prevent collecting traffic data
+      try {
+        await updateStationRegistry(regionStations, allStations);
+      } catch (error) {
+        console.error('Error updating station registry:', error);
+      }
+    } else {
+      regionStations = await getGatheringRegistryStations(regions.map(region => region.id));
+    }
     
-    console.log(`Found ${tampereStations.length} stations near Tampere`);
-    console.log('Station IDs:', tampereStations.map(station => station.id).join(', '));
+    console.log(`Found ${regionStations.length} stations in regions ${regions.map(region => region.id).join(', ')}`);
+    regions.forEach(region => {
+      const count = regionStations.filter(station => station.regions?.includes(region.id)).length;
+      console.log(`Region ${region.id}: ${count} stations`);
+    });
+    console.log('Station IDs:', regionStations.map(station => station.id).join(', '));
     
-    // Fetch traffic data for each station
-    const trafficDataPromises = tampereStations.map(async station => {
+    // Fetch traffic data for each station, a few stations at a time with retries
+    const results = await mapWithConcurrency(regionStations, FETCH_CONCURRENCY, async station => {
       console.log(`Fetching data for station ${station.id}: ${station.name}`);
-      const response = await axios.get(`https://tie.digitraffic.fi/api/tms/v1/stations/${station.id}/data`);
+      const response = await withRetry(attempt => {
+        if (attempt > 1) {
+          console.log(`Retrying station ${station.id}, attempt ${attempt}`);
+        }
+        return axios.get(`${DIGITRAFFIC_TMS_URL}/stations/${station.id}/data`, {
+          timeout: REQUEST_TIMEOUT_MS,
+        });
+      });
       
-      // Log any 60MIN sensor values found in the response
+      // Log any 60 minute sensor values found in the response
       const data = response.data as TrafficData;
-      const sixtyMinSensors = data.sensorValues.filter(sensor => sensor.name.includes('60MIN'));
-      if (sixtyMinSensors.length > 0) {
-        console.log(`Found ${sixtyMinSensors.length} sensors with 60MIN in name for station ${station.id}`);
-        console.log('Sample 60MIN sensor:', JSON.stringify(sixtyMinSensors[0], null, 2));
+      const hourlySensors = data.sensorValues.filter(isHourlySensor);
+      if (hourlySensors.length > 0) {
+        console.log(`Found ${hourlySensors.length} 60 minute sensors for station ${station.id}`);
+        console.log('Sample 60 minute sensor:', JSON.stringify(hourlySensors[0], null, 2));
       }
       
       // Filter sensorValues to include only those with timeWindowStart
       data.sensorValues = data.sensorValues.filter(sensor => sensor.timeWindowStart);
+      if (mode === 'fiveMinute') {
+        data.sensorValues = data.sensorValues.filter(isFiveMinuteSlidingSensor);
+      }
       
       return data;
     });
     
-    const trafficData = await Promise.all(trafficDataPromises);
+    // Stations that failed are reported, the others are still sent forward
+    const trafficData: TrafficData[] = [];
+    const failedStations: FailedStation[] = [];
+    results.forEach((result, index) => {
+      const station = regionStations[index];
+      if (result.status === 'fulfilled') {
+        trafficData.push(result.value);
+      } else {
+        failedStations.push({
+          stationId: String(station.id),
+          name: station.name,
+          attempts: result.reason instanceof RetryError ? result.reason.attempts : 1,
+          error: String(result.reason instanceof RetryError ? result.reason.lastError : result.reason),
+        });
+      }
+    });
     console.log(`Successfully fetched data for ${trafficData.length} stations`);
+    if (failedStations.length > 0) {
+      console.error(`Failed to fetch data for ${failedStations.length} stations:`, JSON.stringify(failedStations));
+    }
+    
+    if (trafficData.length === 0 && regionStations.length > 0) {
+      throw new Error(`Failed to fetch data for all ${regionStations.length} stations`);
+    }
     
-    // Count total 60MIN sensor values across all stations
-    let total60MinSensors = 0;
+    // Count total 60 minute sensor values across all stations
+    let totalHourlySensors = 0;
     trafficData.forEach(data => {
-      const count = data.sensorValues.filter(sensor => sensor.name.includes('60MIN')).length;
-      total60MinSensors += count;
+      const count = data.sensorValues.filter(isHourlySensor).length;
+      totalHourlySensors += count;
     });
-    console.log(`Total 60MIN sensor values found: ${total60MinSensors}`);
+    console.log(`Total 60 minute sensor values found: ${totalHourlySensors}`);
     
     // Send each station's data to the SQS queue for further processing
     const queueUrl = process.env.SQS_QUEUE_URL;
@@ -58,12 +313,11 @@ export const handler: Handler = async (event) => {
     
     // Add timestamp for when the data was collected
     const timestamp = new Date().toISOString();
-    console.log(`Data collection timestamp: ${timestamp}`);
+    const runId = randomUUID();
+    console.log(`Data collection timestamp: ${timestamp}, run ID: ${runId}`);
     
-    const dataWithTimestamp: TrafficDataSQSMessage = {
-      collected: timestamp,
-      trafficData: trafficData
-    };
+    const messages = buildChunks(trafficData, timestamp, runId, mode);
+    console.log(`Split data of ${trafficData.length} stations into ${messages.length} chunks`);
     
     // Log some basic stats about the data
     let totalSensorValues = 0;
@@ -87,18 +341,32 @@ export const handler: Handler = async (event) => {
     }
     
     console.log(`Sending data to SQS queue: ${queueUrl}`);
-    await sqsClient.send(new SendMessageCommand({
-      QueueUrl: queueUrl,
-      MessageBody: JSON.stringify(dataWithTimestamp),
-    }));
-    
-    console.log('Data successfully sent to SQS queue');
+    const { sentChunks, failedChunks } = await sendChunks(queueUrl, messages);
+    // The processor has already received the sent chunks, so the run is reported as partially sent
+    if (sentChunks === 0 && failedChunks.length > 0) {
+      throw new Error(`Failed to send all ${failedChunks.length} chunks of run ${runId}`);
+    }
+    if (failedChunks.length > 0) {
+      console.error(`Sent ${sentChunks} of ${messages.length} chunks of run ${runId}, failed chunks: ${failedChunks.join(', ')}`);
+    } else {
+      console.log('Data successfully sent to SQS queue');
+    }
     
     return {
       statusCode: 200,
       body: JSON.stringify({
-        message: 'Traffic data has been successfully collected and sent to SQS queue',
-        stationsCount: trafficData.length
+        message: failedChunks.length > 0
+          ? 'Traffic data has been collected but only partially sent to SQS queue'
+          : failedStations.length > 0
+            ? 'Traffic data has been partially collected and sent to SQS queue'
+            : 'Traffic data has been successfully collected and sent to SQS queue',
+        runId,
+        mode,
+        chunks: messages.length,
+        sentChunks,
+        failedChunks,
+        stationsCount: trafficData.length,
+        failedStations
       })
     };
   } catch (error) {
@@ -1,23 +1,32 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
 import { SQSEvent, SQSHandler, SQSBatchResponse } from 'aws-lambda';
 import { TrafficDataSQSMessage } from '../../../../common/interfaces';
+import { AlertRule, evaluateAlertRules, getAlertRules } from '../../common/alerts';
+import { storeSensorValues } from '../../common/sensorValues';
 
-const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
-const docClient = DynamoDBDocumentClient.from(dynamoClient);
+// Days raw values are kept in DynamoDB, older values are read from the S3 archive
+const RAW_RETENTION_DAYS = parseInt(process.env.RAW_RETENTION_DAYS || '0', 10) || undefined;
+
+// 5 minute sliding window values are only needed for recent intra-hour analysis
+const SLIDING_RETENTION_DAYS = parseInt(process.env.SLIDING_RETENTION_DAYS || '0', 10) || undefined;
 
 /**
  * Lambda function that processes traffic data from SQS queue
- * and stores it in DynamoDB for later retrieval
+ * and stores it in DynamoDB for later retrieval. Values of the traffic
+ * count and speed sensors are also added to the hourly rollups, and alert
+ * rules of the stations are evaluated after the values have been stored.
+ * Writes are idempotent, so a redelivered message overwrites the values
+ * it stored earlier. Only messages whose values could not be stored are
+ * reported as failed and retried by SQS.
  */
 export const handler: SQSHandler = async (event: SQSEvent): Promise<SQSBatchResponse> => {
   const batchItemFailures: { itemIdentifier: string; }[] = [];
+  // Alert rules are read once per invocation, not for every message
+  let alertRules: Promise<AlertRule[]> | undefined = undefined;
 
   try {
     console.log(`Processing ${event.Records.length} messages`);
     
-    const tableName = process.env.DYNAMODB_TABLE_NAME;
-    if (!tableName) {
+    if (!process.env.DYNAMODB_TABLE_NAME) {
       throw new Error('DYNAMODB_TABLE_NAME environment variable is not defined');
     }
     
@@ -25,80 +34,44 @@ export const handler: SQSHandler = async (event: SQSEvent): Promise<SQSBatchResp
     for (const record of event.Records) {
       try {
         const body: TrafficDataSQSMessage = JSON.parse(record.body);
-        const { collected, trafficData } = body;
-        
-        console.log(`Processing traffic data collected at ${collected} with ${trafficData.length} stations`);
+        const { collected, trafficData, runId, chunkIndex, chunkTotal, stationCount, mode } = body;
         
-        // Count and log 60MIN sensors specifically
-        let total60MinSensors = 0;
-        trafficData.forEach(data => {
-          const count = data.sensorValues.filter(sensor => sensor.name.includes('60MIN')).length;
-          total60MinSensors += count;
-        });
-        console.log(`Processing ${total60MinSensors} sensor values with 60MIN in name`);
+        console.log(`Processing ${mode || 'hourly'} traffic data collected at ${collected} with ${trafficData.length} stations`);
         
-        // Debug log the first station's data structure
-        if (trafficData.length > 0 && trafficData[0].sensorValues.length > 0) {
-          console.log('Sample sensor value data structure:', 
-                      JSON.stringify(trafficData[0].sensorValues[0], null, 2));
+        // Verify chunk metadata, messages sent before chunking have none
+        if (runId !== undefined) {
+          console.log(`Chunk ${(chunkIndex ?? 0) + 1}/${chunkTotal} of collection run ${runId}`);
+          if (chunkIndex === undefined || chunkTotal === undefined || chunkIndex < 0 || chunkIndex >= chunkTotal) {
+            console.error(`Invalid chunk position ${chunkIndex}/${chunkTotal} in run ${runId}, message ${record.messageId}`);
+          }
+          if (stationCount !== trafficData.length) {
+            console.error(`Chunk ${chunkIndex} of run ${runId} should contain ${stationCount} stations but contains ${trafficData.length}`);
+          }
         }
+        
+        const sensorValues = trafficData.flatMap(stationData => stationData.sensorValues);
+        const result = await storeSensorValues(sensorValues, {
+          retentionDays: RAW_RETENTION_DAYS,
+          slidingRetentionDays: SLIDING_RETENTION_DAYS,
+        });
+        console.log(`Stored ${result.stored} of ${sensorValues.length} sensor values from message ${record.messageId}`);
 
-        // Store each sensor value in DynamoDB
-        let stored60MinCount = 0;
-        for (const stationData of trafficData) {
-          for (const sensorValue of stationData.sensorValues) {
-            try {
-              const is60Min = sensorValue.name.includes('60MIN');
-              
-              // Special logging for 60MIN sensors
-              if (is60Min) {
-                console.log(`Processing 60MIN sensor: ${sensorValue.name}, stationId: ${sensorValue.stationId}, id: ${sensorValue.id}`);
-                console.log(`60MIN sensor fields:`, {
-                  stationId: sensorValue.stationId,
-                  timeWindowStart: sensorValue.timeWindowStart,
-                  timeWindowEnd: sensorValue.timeWindowEnd,
-                  measuredTime: sensorValue.measuredTime || collected,
-                  value: sensorValue.value
-                });
-              }
-
-              // Create a composite key to ensure uniqueness
-              const compositeKey = `${sensorValue.stationId}#${sensorValue.measuredTime}#${sensorValue.name}`;
-
-              // Create the item ensuring all fields are preserved
-              const item = {
-                ...sensorValue,
-                compositeKey
-              };
+        if (result.failed > 0 || result.rollupsFailed > 0) {
+          console.error(`Message ${record.messageId} failed: ${result.failed} values and ${result.rollupsFailed} rollup updates could not be stored`);
+          batchItemFailures.push({ itemIdentifier: record.messageId });
+          continue;
+        }
 
-              // Log the item being stored in DynamoDB
-              console.log('Storing item in DynamoDB:', JSON.stringify(item, null, 2));
-              
-              await docClient.send(new PutCommand({
-                TableName: tableName,
-                Item: item
-              }));
-              
-              if (is60Min) {
-                stored60MinCount++;
-                console.log(`Successfully stored 60MIN sensor, running count: ${stored60MinCount}`);
-              }
-            } catch (sensorError) {
-              const is60Min = sensorValue.name.includes('60MIN');
-              if (is60Min) {
-                console.error(`Error storing 60MIN sensor value (stationId: ${sensorValue.stationId}, id: ${sensorValue.id}):`, sensorError);
-              } else {
-                console.error(`Error storing sensor value (stationId: ${sensorValue.stationId}, id: ${sensorValue.id}):`, sensorError);
-              }
-              // Mark the entire message as failed if any sensor value fails
-              if (!batchItemFailures.find(failure => failure.itemIdentifier === record.messageId)) {
-                batchItemFailures.push({ itemIdentifier: record.messageId });
-              }
-            }
+        // Values are stored, so failing alerts do not return the message to the queue
+        try {
+          alertRules = alertRules || getAlertRules();
+          const alertsSent = await evaluateAlertRules(sensorValues, await alertRules);
+          if (alertsSent > 0) {
+            console.log(`Sent ${alertsSent} alerts for message ${record.messageId}`);
           }
+        } catch (alertError) {
+          console.error(`Failed to evaluate alert rules for message ${record.messageId}:`, alertError);
         }
-        
-        console.log(`Successfully stored ${stored60MinCount} of ${total60MinSensors} 60MIN sensor values`);
       } catch (error) {
         console.error('Error processing record:', error);
         batchItemFailures.push({ itemIdentifier: record.messageId });
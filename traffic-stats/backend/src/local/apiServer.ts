@@ -0,0 +1,138 @@
+import { APIGatewayProxyEvent, APIGatewayProxyHandler, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import openapi from '../../../common/api/openapi.json';
+import { OpenApiDocument, getOperations } from '../../../common/api/spec';
+import { ErrorResponse } from '../../../common/api/types';
+import { jsonResponse } from '../common/http';
+import { handler as alertRulesHandler } from '../lambdas/api/alert-rules';
+import { handler as anomaliesHandler } from '../lambdas/api/anomalies';
+import { handler as archiveHandler } from '../lambdas/api/archive';
+import { handler as compareHandler } from '../lambdas/api/compare';
+import { handler as corridorsHandler } from '../lambdas/api/corridors';
+import { handler as coverageHandler } from '../lambdas/api/coverage';
+import { handler as dailyDataHandler } from '../lambdas/api/daily-data';
+import { handler as exportHandler } from '../lambdas/api/export';
+import { handler as hourlyAverageHandler } from '../lambdas/api/hourly-average';
+import { handler as regionsHandler } from '../lambdas/api/regions';
+import { handler as sensorsHandler } from '../lambdas/api/sensors';
+import { handler as stationsHandler } from '../lambdas/api/stations';
+import { handler as timeseriesHandler } from '../lambdas/api/timeseries';
+import { listen, readBody } from './server';
+
+const document = openapi as unknown as OpenApiDocument;
+
+// Handler of each operation, as routed in TrafficStatsStack
+export const API_HANDLERS: { [operationId: string]: APIGatewayProxyHandler } = {
+  getDailyData: dailyDataHandler,
+  getHourlyAverage: hourlyAverageHandler,
+  getTimeSeries: timeseriesHandler,
+  getStationCoverage: coverageHandler,
+  exportRawValues: exportHandler,
+  getArchive: archiveHandler,
+  listRegions: regionsHandler,
+  getRegionCoverage: coverageHandler,
+  listAnomalies: anomaliesHandler,
+  compareStations: compareHandler,
+  listCorridors: corridorsHandler,
+  getCorridorTravelTime: corridorsHandler,
+  listSensors: sensorsHandler,
+  listAlertRules: alertRulesHandler,
+  createAlertRule: alertRulesHandler,
+  getAlertRule: alertRulesHandler,
+  updateAlertRule: alertRulesHandler,
+  deleteAlertRule: alertRulesHandler,
+  listStations: stationsHandler,
+  getStation: stationsHandler,
+};
+
+export interface LocalRequest {
+  method: string;
+  // Path relative to the API root, e.g. /traffic/station/23001/daily
+  path: string;
+  query?: { [name: string]: string };
+  headers?: { [name: string]: string };
+  body?: string | null;
+}
+
+// Routes of the document with a pattern matching their paths, path parameters as groups
+const routes = Array.from(new Set(getOperations(document).map(({ path }) => path))).map(resource => ({
+  resource,
+  parameterNames: Array.from(resource.matchAll(/\{(\w+)\}/g), match => match[1]),
+  pattern: new RegExp(`^${resource.replace(/\{\w+\}/g, '([^/]+)')}$`),
+}));
+
+const matchRoute = (path: string) => {
+  for (const route of routes) {
+    const match = path.match(route.pattern);
+    if (match) {
+      const pathParameters = Object.fromEntries(route.parameterNames.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+      return { resource: route.resource, pathParameters };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Invokes the lambda of the request's route with an API Gateway proxy event,
+ * as API Gateway does in the stack. Requests to unknown paths are answered
+ * with NOT_FOUND.
+ */
+export const invokeApi = async ({ method, path, query = {}, headers = {}, body = null }: LocalRequest): Promise<APIGatewayProxyResult> => {
+  const requestId = randomUUID();
+  const route = matchRoute(path);
+  const operation = route && getOperations(document).find(entry => entry.path === route.resource);
+  const handler = operation && API_HANDLERS[operation.operation.operationId];
+  if (!route || !handler) {
+    const error: ErrorResponse = { code: 'NOT_FOUND', message: `Unknown route ${path}`, requestId };
+    return jsonResponse(404, error);
+  }
+
+  const event = {
+    httpMethod: method,
+    resource: route.resource,
+    path,
+    pathParameters: Object.keys(route.pathParameters).length > 0 ? route.pathParameters : null,
+    queryStringParameters: Object.keys(query).length > 0 ? query : null,
+    multiValueQueryStringParameters: null,
+    headers,
+    multiValueHeaders: {},
+    body,
+    isBase64Encoded: false,
+    stageVariables: null,
+    requestContext: { requestId, httpMethod: method, resourcePath: route.resource, path, stage: 'local' },
+  } as unknown as APIGatewayProxyEvent;
+
+  return await handler(event, { awsRequestId: requestId } as Context, () => undefined) as APIGatewayProxyResult;
+};
+
+/**
+ * Starts a plain Node HTTP server that serves the API with the lambda
+ * handlers, so the frontend and API clients can use it like the deployed API
+ */
+export const startApiServer = async (port: number): Promise<http.Server> => {
+  const server = http.createServer(async (request, response) => {
+    // The frontend joins the API URL and paths with a double slash
+    const url = new URL((request.url || '/').replace(/^\/{2,}/, '/'), 'http://localhost');
+    try {
+      const result = await invokeApi({
+        method: request.method || 'GET',
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers: request.headers as { [name: string]: string },
+        body: request.method === 'GET' || request.method === 'OPTIONS' ? null : await readBody(request),
+      });
+      response.writeHead(result.statusCode, result.headers as http.OutgoingHttpHeaders);
+      response.end(result.isBase64Encoded ? Buffer.from(result.body, 'base64') : result.body);
+      console.log(`${request.method} ${url.pathname}${url.search} ${result.statusCode}`);
+    } catch (error) {
+      console.error(`${request.method} ${url.pathname} failed:`, error);
+      response.writeHead(500);
+      response.end();
+    }
+  });
+
+  await listen(server, port);
+  console.log(`API at http://localhost:${port}`);
+  return server;
+};
@@ -0,0 +1,93 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import { TrafficData } from '../../../common/interfaces';
+import { listen, sendJson } from './server';
+
+export const DIGITRAFFIC_FIXTURE_DIR = path.join(__dirname, '../../fixtures/digitraffic');
+
+const DIGITRAFFIC_URL = 'https://tie.digitraffic.fi';
+const TMS_PATH = '/api/tms/v1';
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface DigitrafficMockOptions {
+  port: number;
+  fixtureDir?: string;
+  // Fetch responses from Digitraffic and save them as fixtures
+  record?: boolean;
+}
+
+/**
+ * Fixture file of a request path, e.g. /api/tms/v1/stations/23001/data is
+ * stations/23001/data.json. Undefined for paths outside the TMS API.
+ */
+const getFixtureFile = (fixtureDir: string, urlPath: string): string | undefined => {
+  const relative = urlPath.startsWith(`${TMS_PATH}/`) ? urlPath.slice(TMS_PATH.length + 1).replace(/\/$/, '') : '';
+  return /^[\w-]+(\/[\w-]+)*$/.test(relative) ? path.join(fixtureDir, `${relative}.json`) : undefined;
+};
+
+/**
+ * Moves the times of recorded station data by whole hours so that the data
+ * looks collected in the current hour. Repeated collections store the same
+ * values for each new hour, as if the traffic repeated itself.
+ */
+export const shiftDataTimes = (data: TrafficData, now: Date): TrafficData => {
+  const recordedHour = Math.floor(Date.parse(data.dataUpdatedTime) / HOUR_MS) * HOUR_MS;
+  const offset = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS - recordedHour;
+  const shift = (time: string) => new Date(Date.parse(time) + offset).toISOString();
+
+  return {
+    ...data,
+    dataUpdatedTime: shift(data.dataUpdatedTime),
+    sensorValues: data.sensorValues.map(value => ({
+      ...value,
+      timeWindowStart: value.timeWindowStart && shift(value.timeWindowStart),
+      timeWindowEnd: value.timeWindowEnd && shift(value.timeWindowEnd),
+      measuredTime: value.measuredTime && shift(value.measuredTime),
+    })),
+  };
+};
+
+const recordFixture = async (urlPath: string, file: string): Promise<void> => {
+  const response = await axios.get(`${DIGITRAFFIC_URL}${urlPath}`, { timeout: 60000 });
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(response.data, null, 2)}\n`);
+  console.log(`Recorded ${urlPath} to ${file}`);
+};
+
+/**
+ * Starts a server that answers the Digitraffic TMS API requests of the
+ * collector and the station lookups with fixture files. Station data
+ * responses are moved to the current hour with shiftDataTimes.
+ */
+export const startDigitrafficMock = async ({ port, fixtureDir = DIGITRAFFIC_FIXTURE_DIR, record = false }: DigitrafficMockOptions): Promise<http.Server> => {
+  const server = http.createServer(async (request, response) => {
+    const urlPath = new URL(request.url || '/', 'http://localhost').pathname;
+    const file = getFixtureFile(fixtureDir, urlPath);
+    try {
+      if (request.method !== 'GET' || !file) {
+        return sendJson(response, 404, { message: `No fixture for ${request.method} ${urlPath}` });
+      }
+      if (record) {
+        await recordFixture(urlPath, file);
+      }
+      if (!fs.existsSync(file)) {
+        console.log(`Digitraffic mock: no fixture ${path.relative(fixtureDir, file)}`);
+        return sendJson(response, 404, { message: `No fixture for ${urlPath}` });
+      }
+
+      const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+      sendJson(response, 200, /\/stations\/\d+\/data$/.test(urlPath) ? shiftDataTimes(data, new Date()) : data);
+    } catch (error) {
+      console.error(`Digitraffic mock: ${urlPath} failed:`, error);
+      sendJson(response, 500, { message: String(error) });
+    }
+  });
+
+  await listen(server, port);
+  // Port 0 listens on a free port
+  console.log(`Digitraffic mock at http://localhost:${(server.address() as AddressInfo).port}${TMS_PATH} serving ${fixtureDir}${record ? ', recording responses' : ''}`);
+  return server;
+};
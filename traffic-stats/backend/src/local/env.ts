@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const LOCAL_API_PORT = 3000;
+export const LOCAL_DIGITRAFFIC_PORT = 3001;
+
+// Lambda environment of the local development server, tables are created in DynamoDB Local
+const LOCAL_ENVIRONMENT: { [name: string]: string } = {
+  AWS_REGION: 'eu-north-1',
+  // DynamoDB Local accepts any credentials
+  AWS_ACCESS_KEY_ID: 'local',
+  AWS_SECRET_ACCESS_KEY: 'local',
+  DYNAMODB_ENDPOINT: 'http://localhost:8000',
+  DIGITRAFFIC_TMS_URL: `http://localhost:${LOCAL_DIGITRAFFIC_PORT}/api/tms/v1`,
+  DYNAMODB_TABLE_NAME: 'TrafficData',
+  STATION_REGISTRY_TABLE_NAME: 'StationRegistry',
+  ANOMALY_TABLE_NAME: 'Anomalies',
+  ALERT_RULES_TABLE_NAME: 'AlertRules',
+  SQS_QUEUE_URL: 'local',
+  MESSAGE_QUEUE: 'local',
+  ALERT_NOTIFIER: 'local',
+  ACTIVE_REGIONS: 'tampere,helsinki',
+  RAW_RETENTION_DAYS: '90',
+  SLIDING_RETENTION_DAYS: '14',
+  BASELINE_DAYS: '56',
+  // Sample corridors over the fixture stations, the distances are not measured
+  CORRIDORS: fs.readFileSync(path.join(__dirname, '../../fixtures/corridors.json'), 'utf8'),
+};
+
+/**
+ * Sets the environment variables of the local mode that are not set yet, so
+ * e.g. DYNAMODB_ENDPOINT=http://localhost:8001 is kept. Lambda modules read
+ * their environment when they are loaded, so this must be called before
+ * loading them.
+ */
+export const applyLocalEnvironment = (): void => {
+  for (const [name, value] of Object.entries(LOCAL_ENVIRONMENT)) {
+    if (process.env[name] === undefined) {
+      process.env[name] = value;
+    }
+  }
+};
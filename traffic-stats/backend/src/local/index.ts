@@ -0,0 +1,47 @@
+import * as http from 'http';
+import { startApiServer } from './apiServer';
+import { startDigitrafficMock } from './digitrafficMock';
+import { LOCAL_DIGITRAFFIC_PORT } from './env';
+import { runCollection } from './pipeline';
+import { close } from './server';
+import { createLocalTables } from './tables';
+
+export { API_HANDLERS, invokeApi } from './apiServer';
+export { runCollection } from './pipeline';
+export { createLocalTables, deleteLocalTables } from './tables';
+
+export interface LocalEnvironmentOptions {
+  // Port of the API server, the API is not served without one
+  apiPort?: number;
+  // Fetch Digitraffic responses and save them as fixtures before serving them
+  record?: boolean;
+}
+
+export interface LocalEnvironment {
+  close(): Promise<void>;
+}
+
+/**
+ * Starts the Digitraffic mock, creates the tables in DynamoDB Local and
+ * collects the fixture data once, then starts the API server. Expects the
+ * environment of applyLocalEnvironment.
+ */
+export const startLocalEnvironment = async ({ apiPort, record = false }: LocalEnvironmentOptions): Promise<LocalEnvironment> => {
+  const servers: http.Server[] = [await startDigitrafficMock({ port: LOCAL_DIGITRAFFIC_PORT, record })];
+  const closeAll = async () => {
+    await Promise.all(servers.map(close));
+  };
+
+  try {
+    await createLocalTables();
+    await runCollection('hourly');
+    if (apiPort !== undefined) {
+      servers.push(await startApiServer(apiPort));
+    }
+  } catch (error) {
+    await closeAll();
+    throw error;
+  }
+
+  return { close: closeAll };
+};
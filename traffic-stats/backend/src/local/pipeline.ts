@@ -0,0 +1,31 @@
+import { Context, SQSBatchResponse } from 'aws-lambda';
+import { CollectionMode } from '../../../common/interfaces';
+import { localQueue } from '../common/queue';
+import { handler as anomalyDetectorHandler } from '../lambdas/anomaly-detector';
+import { handler as collectorHandler } from '../lambdas/collector';
+import { handler as processorHandler } from '../lambdas/processor';
+
+const context = { awsRequestId: 'local' } as Context;
+
+/**
+ * Runs the collector and passes the messages it queued to the processor, as
+ * SQS does in the stack. Hourly runs are followed by the anomaly detector,
+ * like the scheduled detector runs after each collected hour.
+ */
+export const runCollection = async (mode: CollectionMode = 'hourly'): Promise<void> => {
+  const result = await collectorHandler({ mode }, context, () => undefined);
+  if (result?.statusCode !== 200) {
+    throw new Error(`Collection failed: ${result?.body}`);
+  }
+
+  const records = localQueue.receive();
+  const response = await processorHandler({ Records: records }, context, () => undefined) as SQSBatchResponse;
+  if (response.batchItemFailures.length > 0) {
+    throw new Error(`Processor failed to store ${response.batchItemFailures.length} of ${records.length} messages`);
+  }
+  console.log(`Processed ${records.length} messages of the ${mode} collection`);
+
+  if (mode === 'hourly') {
+    await anomalyDetectorHandler({}, context, () => undefined);
+  }
+};
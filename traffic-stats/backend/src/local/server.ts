@@ -0,0 +1,32 @@
+import * as http from 'http';
+
+/**
+ * Starts listening on the port, rejects if the port is in use
+ */
+export const listen = (server: http.Server, port: number): Promise<http.Server> => {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+};
+
+export const close = (server: http.Server): Promise<void> => {
+  return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+};
+
+export const readBody = (request: http.IncomingMessage): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+};
+
+export const sendJson = (response: http.ServerResponse, statusCode: number, body: unknown): void => {
+  response.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
@@ -0,0 +1,123 @@
+import {
+  CreateTableCommand,
+  CreateTableCommandInput,
+  DeleteTableCommand,
+  DescribeTableCommand,
+  DynamoDBClient,
+  ResourceNotFoundException,
+  UpdateTimeToLiveCommand,
+} from '@aws-sdk/client-dynamodb';
+import { getRequiredEnv } from '../common/env';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION, endpoint: process.env.DYNAMODB_ENDPOINT });
+
+interface TableDefinition extends CreateTableCommandInput {
+  timeToLiveAttribute?: string;
+}
+
+// Keys, indexes and time to live of the tables in TrafficStatsStack
+const getTableDefinitions = (): TableDefinition[] => [
+  {
+    TableName: getRequiredEnv('DYNAMODB_TABLE_NAME'),
+    KeySchema: [
+      { AttributeName: 'stationId', KeyType: 'HASH' },
+      { AttributeName: 'compositeKey', KeyType: 'RANGE' },
+    ],
+    AttributeDefinitions: [
+      { AttributeName: 'stationId', AttributeType: 'N' },
+      { AttributeName: 'compositeKey', AttributeType: 'S' },
+      { AttributeName: 'measuredTime', AttributeType: 'S' },
+    ],
+    GlobalSecondaryIndexes: [{
+      IndexName: 'MeasuredTimeIndex',
+      KeySchema: [
+        { AttributeName: 'measuredTime', KeyType: 'HASH' },
+        { AttributeName: 'stationId', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+    }],
+    BillingMode: 'PAY_PER_REQUEST',
+    timeToLiveAttribute: 'expiresAt',
+  },
+  {
+    TableName: getRequiredEnv('STATION_REGISTRY_TABLE_NAME'),
+    KeySchema: [{ AttributeName: 'stationId', KeyType: 'HASH' }],
+    AttributeDefinitions: [{ AttributeName: 'stationId', AttributeType: 'N' }],
+    BillingMode: 'PAY_PER_REQUEST',
+  },
+  {
+    TableName: getRequiredEnv('ANOMALY_TABLE_NAME'),
+    KeySchema: [
+      { AttributeName: 'date', KeyType: 'HASH' },
+      { AttributeName: 'anomalyKey', KeyType: 'RANGE' },
+    ],
+    AttributeDefinitions: [
+      { AttributeName: 'date', AttributeType: 'S' },
+      { AttributeName: 'anomalyKey', AttributeType: 'S' },
+    ],
+    BillingMode: 'PAY_PER_REQUEST',
+  },
+  {
+    TableName: getRequiredEnv('ALERT_RULES_TABLE_NAME'),
+    KeySchema: [{ AttributeName: 'ruleId', KeyType: 'HASH' }],
+    AttributeDefinitions: [{ AttributeName: 'ruleId', AttributeType: 'S' }],
+    BillingMode: 'PAY_PER_REQUEST',
+  },
+];
+
+const tableExists = async (tableName: string): Promise<boolean> => {
+  try {
+    await dynamoClient.send(new DescribeTableCommand({ TableName: tableName }));
+    return true;
+  } catch (error) {
+    if (error instanceof ResourceNotFoundException) {
+      return false;
+    }
+    if ((error as NodeJS.ErrnoException).code === 'ECONNREFUSED') {
+      throw new Error(`DynamoDB Local is not running at ${process.env.DYNAMODB_ENDPOINT}, start it with docker compose up -d dynamodb-local`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Creates the tables of the stack that do not exist yet. Only creates tables
+ * in DynamoDB Local, so DYNAMODB_ENDPOINT must be set.
+ */
+export const createLocalTables = async (): Promise<void> => {
+  if (!process.env.DYNAMODB_ENDPOINT) {
+    throw new Error('DYNAMODB_ENDPOINT must point to DynamoDB Local to create local tables');
+  }
+
+  for (const { timeToLiveAttribute, ...definition } of getTableDefinitions()) {
+    const tableName = definition.TableName as string;
+    if (await tableExists(tableName)) {
+      console.log(`Table ${tableName} exists`);
+      continue;
+    }
+    await dynamoClient.send(new CreateTableCommand(definition));
+    if (timeToLiveAttribute) {
+      await dynamoClient.send(new UpdateTimeToLiveCommand({
+        TableName: tableName,
+        TimeToLiveSpecification: { AttributeName: timeToLiveAttribute, Enabled: true },
+      }));
+    }
+    console.log(`Created table ${tableName}`);
+  }
+};
+
+/**
+ * Deletes the tables of the stack from DynamoDB Local, e.g. the tables of a
+ * test run with its own table names
+ */
+export const deleteLocalTables = async (): Promise<void> => {
+  if (!process.env.DYNAMODB_ENDPOINT) {
+    throw new Error('DYNAMODB_ENDPOINT must point to DynamoDB Local to delete local tables');
+  }
+
+  for (const { TableName } of getTableDefinitions()) {
+    if (await tableExists(TableName as string)) {
+      await dynamoClient.send(new DeleteTableCommand({ TableName }));
+    }
+  }
+};
@@ -0,0 +1,102 @@
+// Generated from openapi.json by bin/generate-api.ts, do not edit.
+import type {
+  AlertRule,
+  AlertRuleInput,
+  AlertRuleList,
+  AnomalyList,
+  ArchiveFileList,
+  ArchivedDay,
+  CompareStationsParams,
+  Comparison,
+  CorridorList,
+  CorridorTravelTime,
+  DailyData,
+  DeleteAlertRuleParams,
+  DeletedAlertRule,
+  ExportRawValuesParams,
+  GetAlertRuleParams,
+  GetArchiveParams,
+  GetCorridorTravelTimeParams,
+  GetDailyDataParams,
+  GetHourlyAverageParams,
+  GetRegionCoverageParams,
+  GetStationCoverageParams,
+  GetStationParams,
+  GetTimeSeriesParams,
+  HourlyAverageResponse,
+  ListAlertRulesParams,
+  ListAnomaliesParams,
+  ListCorridorsParams,
+  ListSensorsParams,
+  ListStationsParams,
+  RegionCoverage,
+  RegionList,
+  SensorList,
+  Station,
+  StationCoverage,
+  StationList,
+  TimeSeriesResponse,
+  UpdateAlertRuleParams,
+} from './types';
+
+export interface ApiRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // Path relative to the API root, e.g. /traffic/regions
+  path: string;
+  query?: { [name: string]: string | number | undefined };
+  body?: unknown;
+}
+
+/**
+ * Sends a request and resolves with the parsed response body. Requests
+ * are sent by the caller, so the client works with any HTTP library.
+ */
+export type RequestFunction = <T>(request: ApiRequest) => Promise<T>;
+
+/**
+ * Typed client with a method for each operation of the API
+ */
+export const createApiClient = (request: RequestFunction) => ({
+  /** Raw values of one local day */
+  getDailyData: (params: GetDailyDataParams) => request<DailyData>({ method: 'GET', path: `/traffic/station/${encodeURIComponent(params.stationId)}/daily`, query: { date: params.date, tz: params.tz } }),
+  /** Hourly traffic count and speed profile */
+  getHourlyAverage: (params: GetHourlyAverageParams) => request<HourlyAverageResponse>({ method: 'GET', path: `/traffic/station/${encodeURIComponent(params.stationId)}/hourly-average`, query: { from: params.from, to: params.to, days: params.days, dayType: params.dayType, groupBy: params.groupBy, tz: params.tz } }),
+  /** Measured values grouped into local time buckets */
+  getTimeSeries: (params: GetTimeSeriesParams) => request<TimeSeriesResponse>({ method: 'GET', path: `/traffic/station/${encodeURIComponent(params.stationId)}/timeseries`, query: { from: params.from, to: params.to, sensor: params.sensor, resolution: params.resolution, tz: params.tz, nextToken: params.nextToken } }),
+  /** Data completeness of a station */
+  getStationCoverage: (params: GetStationCoverageParams) => request<StationCoverage>({ method: 'GET', path: `/traffic/station/${encodeURIComponent(params.stationId)}/coverage`, query: { from: params.from, to: params.to } }),
+  /** Raw values as CSV or NDJSON. Large files respond with 303 and a Location header, the request function must follow the redirect */
+  exportRawValues: (params: ExportRawValuesParams) => request<string>({ method: 'GET', path: `/traffic/station/${encodeURIComponent(params.stationId)}/export`, query: { from: params.from, to: params.to, sensor: params.sensor, format: params.format, tz: params.tz } }),
+  /** Archived raw values */
+  getArchive: (params: GetArchiveParams) => request<ArchiveFileList | ArchivedDay>({ method: 'GET', path: `/traffic/station/${encodeURIComponent(params.stationId)}/archive`, query: { from: params.from, to: params.to, date: params.date } }),
+  /** Active monitoring regions */
+  listRegions: () => request<RegionList>({ method: 'GET', path: '/traffic/regions' }),
+  /** Data completeness of the stations of a region */
+  getRegionCoverage: (params: GetRegionCoverageParams) => request<RegionCoverage>({ method: 'GET', path: `/traffic/regions/${encodeURIComponent(params.regionId)}/coverage`, query: { from: params.from, to: params.to } }),
+  /** Detected anomalies, newest first */
+  listAnomalies: (params: ListAnomaliesParams = {}) => request<AnomalyList>({ method: 'GET', path: '/traffic/anomalies', query: { region: params.region, from: params.from, to: params.to, type: params.type } }),
+  /** Hourly profiles of several stations */
+  compareStations: (params: CompareStationsParams) => request<Comparison>({ method: 'GET', path: '/traffic/compare', query: { stations: params.stations, sensor: params.sensor, from: params.from, to: params.to, dayType: params.dayType } }),
+  /** Corridors of the active regions */
+  listCorridors: (params: ListCorridorsParams = {}) => request<CorridorList>({ method: 'GET', path: '/traffic/corridors', query: { region: params.region } }),
+  /** Hourly travel time, flow and bottleneck of a corridor */
+  getCorridorTravelTime: (params: GetCorridorTravelTimeParams) => request<CorridorTravelTime>({ method: 'GET', path: `/traffic/corridors/${encodeURIComponent(params.corridorId)}/travel-time`, query: { from: params.from, to: params.to, dayType: params.dayType } }),
+  /** Sensor catalogue */
+  listSensors: (params: ListSensorsParams = {}) => request<SensorList>({ method: 'GET', path: '/traffic/sensors', query: { quantity: params.quantity, windowMinutes: params.windowMinutes } }),
+  /** Alert rules */
+  listAlertRules: (params: ListAlertRulesParams = {}) => request<AlertRuleList>({ method: 'GET', path: '/traffic/alerts/rules', query: { stationId: params.stationId } }),
+  /** Create an alert rule */
+  createAlertRule: (body: AlertRuleInput) => request<AlertRule>({ method: 'POST', path: '/traffic/alerts/rules', body }),
+  /** Alert rule */
+  getAlertRule: (params: GetAlertRuleParams) => request<AlertRule>({ method: 'GET', path: `/traffic/alerts/rules/${encodeURIComponent(params.ruleId)}` }),
+  /** Replace an alert rule */
+  updateAlertRule: (params: UpdateAlertRuleParams, body: AlertRuleInput) => request<AlertRule>({ method: 'PUT', path: `/traffic/alerts/rules/${encodeURIComponent(params.ruleId)}`, body }),
+  /** Delete an alert rule */
+  deleteAlertRule: (params: DeleteAlertRuleParams) => request<DeletedAlertRule>({ method: 'DELETE', path: `/traffic/alerts/rules/${encodeURIComponent(params.ruleId)}` }),
+  /** Registry stations of the active regions */
+  listStations: (params: ListStationsParams = {}) => request<StationList>({ method: 'GET', path: '/traffic/stations', query: { region: params.region } }),
+  /** Registry station */
+  getStation: (params: GetStationParams) => request<Station>({ method: 'GET', path: `/traffic/stations/${encodeURIComponent(params.stationId)}` }),
+});
+
+export type ApiClient = ReturnType<typeof createApiClient>;
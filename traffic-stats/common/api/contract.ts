@@ -0,0 +1,69 @@
+import { OpenApiDocument, Operation, getJsonSchema } from './spec';
+import { validateSchema } from './validate';
+
+/**
+ * Contract checks of API responses against openapi.json, shared by
+ * npm run contract and the contract test
+ */
+
+export interface ContractResponse {
+  statusCode: number;
+  contentType?: string;
+  body: string;
+}
+
+/**
+ * Path and query parameters of the operation from the parameter examples,
+ * undefined if a required parameter has no example
+ */
+export const getExampleParameters = ({ operation }: Operation) => {
+  const pathParameters: { [name: string]: string } = {};
+  const queryParameters: { [name: string]: string } = {};
+
+  for (const parameter of operation.parameters || []) {
+    if (parameter.example === undefined) {
+      if (parameter.required) {
+        return undefined;
+      }
+      continue;
+    }
+    if (parameter.in === 'path') {
+      pathParameters[parameter.name] = parameter.example;
+    } else {
+      queryParameters[parameter.name] = parameter.example;
+    }
+  }
+
+  return { pathParameters, queryParameters };
+};
+
+/**
+ * Errors of the response against the documented responses of the operation
+ */
+export const checkResponse = (document: OpenApiDocument, { operation }: Operation, response: ContractResponse): string[] => {
+  const status = String(response.statusCode);
+  const documented = operation.responses[status];
+  if (!documented) {
+    return [`status ${status} is not documented, body: ${response.body.slice(0, 200)}`];
+  }
+  if (!status.startsWith('2')) {
+    return [`expected a successful response, got ${status}: ${response.body.slice(0, 200)}`];
+  }
+
+  const schema = getJsonSchema(operation, status);
+  if (!schema) {
+    const contentTypes = Object.keys(documented.content || {});
+    const contentType = response.contentType?.split(';')[0];
+    return contentTypes.length > 0 && (!contentType || !contentTypes.includes(contentType))
+      ? [`content type ${response.contentType} is not one of ${contentTypes.join(', ')}`]
+      : [];
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(response.body);
+  } catch {
+    return ['response body is not JSON'];
+  }
+  return validateSchema(document, schema, body);
+};
@@ -0,0 +1,91 @@
+/**
+ * Parts of the OpenAPI 3.0 document used by openapi.json, read by the
+ * generator and the contract check
+ */
+export interface SchemaObject {
+  $ref?: string;
+  type?: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
+  format?: string;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+  enum?: string[];
+  nullable?: boolean;
+  oneOf?: SchemaObject[];
+  items?: SchemaObject;
+  properties?: { [name: string]: SchemaObject };
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+}
+
+export interface ParameterObject {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: SchemaObject;
+  example?: string;
+}
+
+export interface MediaTypeObject {
+  schema: SchemaObject;
+}
+
+export interface HeaderObject {
+  description?: string;
+  schema: SchemaObject;
+}
+
+export interface ResponseObject {
+  description: string;
+  headers?: { [name: string]: HeaderObject };
+  content?: { [mediaType: string]: MediaTypeObject };
+}
+
+export interface OperationObject {
+  operationId: string;
+  summary?: string;
+  tags?: string[];
+  parameters?: ParameterObject[];
+  requestBody?: { required: boolean; content: { [mediaType: string]: MediaTypeObject } };
+  security?: { [scheme: string]: string[] }[];
+  responses: { [status: string]: ResponseObject };
+}
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  paths: { [path: string]: { [method in HttpMethod]?: OperationObject } };
+  components: { schemas: { [name: string]: SchemaObject } };
+}
+
+export interface Operation {
+  path: string;
+  method: HttpMethod;
+  operation: OperationObject;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'delete'];
+
+/**
+ * Operations of the document in document order
+ */
+export const getOperations = (document: OpenApiDocument): Operation[] => {
+  return Object.entries(document.paths).flatMap(([path, item]) =>
+    HTTP_METHODS.flatMap(method => {
+      const operation = item[method];
+      return operation ? [{ path, method, operation }] : [];
+    })
+  );
+};
+
+/**
+ * Schema of the successful JSON response, undefined for file responses
+ */
+export const getJsonSchema = (operation: OperationObject, status?: string): SchemaObject | undefined => {
+  const responseStatus = status || Object.keys(operation.responses).find(code => code.startsWith('2'));
+  return responseStatus ? operation.responses[responseStatus]?.content?.['application/json']?.schema : undefined;
+};
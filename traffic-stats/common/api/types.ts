@@ -0,0 +1,626 @@
+// Generated from openapi.json by bin/generate-api.ts, do not edit.
+
+/** Error of a request, with the request ID for finding it in the logs */
+export interface ErrorResponse {
+  /** Machine-readable error code */
+  code: 'INVALID_PARAMETER' | 'INVALID_BODY' | 'NOT_FOUND' | 'METHOD_NOT_ALLOWED' | 'PAYLOAD_TOO_LARGE' | 'INTERNAL_ERROR';
+  message: string;
+  requestId: string;
+  /** Validation errors of the parameters or the body */
+  details?: string[];
+}
+
+/** Day type or weekday type of the days averaged */
+export type DayTypeFilter = 'weekday' | 'saturday' | 'sundayOrHoliday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'sunday' | 'holiday';
+
+/** Station of the registry maintained by the collector */
+export interface Station {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  fullName?: string;
+  description?: string;
+  collectionStatus?: string;
+  municipality?: string;
+  direction1Municipality?: string;
+  direction2Municipality?: string;
+  roadNumber?: number;
+  tmsNumber?: number;
+  /** IDs of the sensors of the station, see /traffic/sensors */
+  sensors?: number[];
+  regions?: string[];
+  updatedAt?: string;
+}
+
+export interface StationList {
+  regions: string[];
+  stations: Station[];
+}
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+export interface BoundingBoxRegionDefinition {
+  type: 'bbox';
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+export interface PolygonRegionDefinition {
+  type: 'polygon';
+  /** GeoJSON rings of [lon, lat] pairs */
+  coordinates: number[][][];
+}
+
+export interface MunicipalityRegionDefinition {
+  type: 'municipalities';
+  municipalities: string[];
+  bounds?: BoundingBox;
+}
+
+export interface StationListRegionDefinition {
+  type: 'stations';
+  stationIds: string[];
+}
+
+export type RegionDefinition = BoundingBoxRegionDefinition | PolygonRegionDefinition | MunicipalityRegionDefinition | StationListRegionDefinition;
+
+export interface Region {
+  id: string;
+  name: string;
+  definition: RegionDefinition;
+}
+
+export interface RegionList {
+  regions: Region[];
+}
+
+/** Measured value of a sensor as returned by Digitraffic */
+export interface SensorValue {
+  id: number;
+  stationId: number;
+  name: string;
+  shortName: string;
+  timeWindowStart: string;
+  timeWindowEnd: string;
+  measuredTime: string;
+  value: number;
+  unit: string;
+}
+
+export interface DailyData {
+  stationId: string;
+  date: string;
+  timeZone: string;
+  sensorValues: SensorValue[];
+}
+
+/** Distribution of the daily values of an hour over the period */
+export interface Distribution {
+  samples: number;
+  mean: number;
+  median: number;
+  p15: number;
+  p85: number;
+  min: number;
+  max: number;
+  /** Population standard deviation */
+  std: number;
+}
+
+export interface HourlyData {
+  hour: number;
+  trafficCount: number;
+  avgSpeed: number;
+  trafficCountStats?: Distribution;
+  avgSpeedStats?: Distribution;
+}
+
+/** Sensor name parsed into its parts */
+export interface SensorDescriptor {
+  name: string;
+  quantity: 'trafficCount' | 'averageSpeed' | 'unknown';
+  windowMinutes?: number;
+  window?: 'fixed' | 'sliding';
+  direction?: number;
+  variant?: string;
+  unit?: string;
+}
+
+export interface SensorHourlyValue {
+  hour: number;
+  value: number;
+  stats?: Distribution;
+}
+
+export interface SensorHourlyData {
+  name: string;
+  unit: string;
+  descriptor: SensorDescriptor;
+  label: string;
+  hourlyData: SensorHourlyValue[];
+}
+
+export interface DirectionProfile {
+  direction: number;
+  municipality?: string;
+  label: string;
+  hourlyAverages: HourlyData[];
+}
+
+export interface CoverageSummary {
+  expectedHours: number;
+  receivedHours: number;
+  /** Percentage, null when no hours are expected */
+  completeness: number | null;
+}
+
+export interface DayTypeProfile {
+  dayType: string;
+  days: number;
+  hourlyAverages: HourlyData[];
+  directions: DirectionProfile[];
+  sensorData: SensorHourlyData[];
+  coverage: CoverageSummary;
+}
+
+export interface Period {
+  start: string;
+  end: string;
+}
+
+export interface HourlyAverageResponse {
+  stationId: string;
+  period: Period;
+  dayType?: string;
+  timeZone: string;
+  /** Whether the averages were calculated from hourly rollups, from raw values, or both when some dates of the period have no rollups */
+  source: 'rollup' | 'raw' | 'mixed';
+  hourlyAverages: HourlyData[];
+  directions: DirectionProfile[];
+  sensorData: SensorHourlyData[];
+  coverage: CoverageSummary;
+  profiles?: DayTypeProfile[];
+}
+
+export interface TimeSeriesPoint {
+  /** Local label of the bucket */
+  time: string;
+  /** UTC start of the bucket */
+  start: string;
+  samples: number;
+  mean: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+export interface TimeSeries {
+  name: string;
+  unit: string;
+  points: TimeSeriesPoint[];
+}
+
+export interface TimeSeriesResponse {
+  stationId: string;
+  from: string;
+  to: string;
+  resolution: '5min' | 'hour' | 'day' | 'week';
+  timeZone: string;
+  page: {
+    from: string;
+    to: string;
+  };
+  nextToken?: string;
+  series: TimeSeries[];
+}
+
+export interface MissingRange {
+  start: string;
+  end: string;
+  hours: number;
+}
+
+export interface SensorCoverage {
+  name: string;
+  unit: string;
+  expectedHours: number;
+  receivedHours: number;
+  completeness: number | null;
+  missingRanges: MissingRange[];
+}
+
+export interface StationCoverage {
+  stationId: string;
+  from: string;
+  to: string;
+  expectedHours: number;
+  receivedHours: number;
+  completeness: number | null;
+  missingRanges: MissingRange[];
+  sensors: SensorCoverage[];
+}
+
+export interface RegionStationCoverage {
+  stationId: string;
+  name: string;
+  expectedHours: number;
+  receivedHours: number;
+  completeness: number | null;
+  sensors: {
+    name: string;
+    expectedHours: number;
+    receivedHours: number;
+    completeness: number | null;
+  }[];
+}
+
+export interface RegionCoverage {
+  regionId: string;
+  from: string;
+  to: string;
+  expectedHours: number;
+  stations: RegionStationCoverage[];
+}
+
+export interface ArchiveFile {
+  date: string;
+  size: number;
+  /** Presigned download URL */
+  url: string;
+}
+
+export interface ArchiveFileList {
+  stationId: string;
+  from: string;
+  to: string;
+  format: string;
+  files: ArchiveFile[];
+}
+
+export interface ArchivedDay {
+  stationId: string;
+  date: string;
+  count: number;
+  values: SensorValue[];
+}
+
+export interface Anomaly {
+  date: string;
+  hour: number;
+  stationId: number;
+  stationName?: string;
+  regions?: string[];
+  sensor: string;
+  unit: string;
+  dayType: 'weekday' | 'saturday' | 'sundayOrHoliday';
+  type: 'lowFlow' | 'spike' | 'speedDrop';
+  value: number;
+  median: number;
+  mad: number;
+  /** Robust z-score */
+  score: number;
+  baselineSamples: number;
+  detectedAt: string;
+}
+
+export interface AnomalyList {
+  from: string;
+  to: string;
+  region?: string;
+  type?: string;
+  count: number;
+  anomalies: Anomaly[];
+}
+
+export interface StationProfile {
+  stationId: string;
+  name?: string;
+  fullName: string;
+  days: number;
+  hourlyData: {
+    hour: number;
+    value: number | null;
+  }[];
+}
+
+export interface Comparison {
+  from: string;
+  to: string;
+  dayType?: string;
+  sensor: string;
+  quantity: 'trafficCount' | 'averageSpeed';
+  unit?: string;
+  stations: StationProfile[];
+}
+
+export interface CorridorStation {
+  stationId: string;
+  direction: number;
+  distanceToNextKm?: number;
+  name?: string;
+  fullName: string;
+}
+
+export interface Corridor {
+  id: string;
+  name: string;
+  regionId: string;
+  lengthKm: number;
+  stations: CorridorStation[];
+}
+
+export interface CorridorList {
+  corridors: Corridor[];
+}
+
+export interface SegmentEstimate {
+  fromStationId: string;
+  toStationId: string;
+  distanceKm: number;
+  speed: number;
+  travelTimeMinutes: number;
+}
+
+export interface CorridorHour {
+  hour: number;
+  travelTimeMinutes: number | null;
+  averageSpeed: number | null;
+  flow: number | null;
+  vehicleKm: number | null;
+  bottleneck: SegmentEstimate | null;
+  missingStations: string[];
+}
+
+export interface CorridorTravelTime {
+  corridor: Corridor;
+  from: string;
+  to: string;
+  dayType?: string;
+  hourlyData: CorridorHour[];
+}
+
+export interface CatalogueSensor {
+  id: number;
+  name: string;
+  quantity: 'trafficCount' | 'averageSpeed' | 'unknown';
+  windowMinutes?: number;
+  window?: 'fixed' | 'sliding';
+  direction?: number;
+  variant?: string;
+  unit?: string;
+  shortName?: string;
+  description?: string;
+  accuracy?: number;
+  label: string;
+}
+
+export interface SensorList {
+  count: number;
+  sensors: CatalogueSensor[];
+}
+
+export interface SnsChannel {
+  type: 'sns';
+}
+
+export interface WebhookChannel {
+  type: 'webhook';
+  /** https URL on one of the hosts of ALERT_WEBHOOK_HOSTS */
+  url: string;
+}
+
+export type NotifierChannel = SnsChannel | WebhookChannel;
+
+export interface AlertRuleInput {
+  name?: string;
+  stationId: number;
+  /** Sensor name or prefix of names, e.g. KESKINOPEUS_60MIN */
+  sensor: string;
+  operator: 'above' | 'below';
+  threshold: number;
+  consecutiveHours?: number;
+  channel?: NotifierChannel;
+  enabled?: boolean;
+}
+
+export interface AlertSensorState {
+  lastHour: string;
+  breachedHours: number;
+  notifiedAt?: string;
+}
+
+export interface AlertRule {
+  ruleId: string;
+  name?: string;
+  stationId: number;
+  sensor: string;
+  operator: 'above' | 'below';
+  threshold: number;
+  consecutiveHours: number;
+  channel: NotifierChannel;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  state?: { [key: string]: AlertSensorState };
+}
+
+export interface AlertRuleList {
+  rules: AlertRule[];
+}
+
+export interface DeletedAlertRule {
+  ruleId: string;
+  deleted: boolean;
+}
+
+export interface GetDailyDataParams {
+  /** Station ID */
+  stationId: string;
+  /** Local date, defaults to today */
+  date?: string;
+  /** IANA time zone of dates and hours, defaults to Europe/Helsinki */
+  tz?: string;
+}
+
+export interface GetHourlyAverageParams {
+  /** Station ID */
+  stationId: string;
+  /** First local date YYYY-MM-DD */
+  from?: string;
+  /** Last local date YYYY-MM-DD */
+  to?: string;
+  /** Length of the period ending today, instead of from and to */
+  days?: number;
+  /** Day type or weekday type */
+  dayType?: DayTypeFilter;
+  /** Return separate profiles for each day type */
+  groupBy?: 'dayType' | 'weekday';
+  /** IANA time zone of dates and hours, defaults to Europe/Helsinki. Other zones are calculated from raw values, so their periods must start within RAW_RETENTION_DAYS (90) of today */
+  tz?: string;
+}
+
+export interface GetTimeSeriesParams {
+  /** Station ID */
+  stationId: string;
+  /** First local date YYYY-MM-DD */
+  from?: string;
+  /** Last local date YYYY-MM-DD */
+  to?: string;
+  /** Comma separated sensor names */
+  sensor?: string;
+  /** Bucket length, defaults to hour */
+  resolution?: '5min' | 'hour' | 'day' | 'week';
+  /** IANA time zone of dates and hours, defaults to Europe/Helsinki */
+  tz?: string;
+  /** Token of the next page */
+  nextToken?: string;
+}
+
+export interface GetStationCoverageParams {
+  /** Station ID */
+  stationId: string;
+  /** First local date YYYY-MM-DD */
+  from?: string;
+  /** Last local date YYYY-MM-DD */
+  to?: string;
+}
+
+export interface ExportRawValuesParams {
+  /** Station ID */
+  stationId: string;
+  /** First local date YYYY-MM-DD */
+  from?: string;
+  /** Last local date YYYY-MM-DD */
+  to?: string;
+  /** Comma separated sensor names */
+  sensor?: string;
+  /** File format, defaults to csv */
+  format?: 'csv' | 'ndjson';
+  /** IANA time zone of dates and hours, defaults to Europe/Helsinki */
+  tz?: string;
+}
+
+export interface GetArchiveParams {
+  /** Station ID */
+  stationId: string;
+  /** First local date YYYY-MM-DD */
+  from?: string;
+  /** Last local date YYYY-MM-DD */
+  to?: string;
+  /** Return the archived values of one day instead of the file list */
+  date?: string;
+}
+
+export interface GetRegionCoverageParams {
+  /** Region ID */
+  regionId: string;
+  /** First local date YYYY-MM-DD */
+  from?: string;
+  /** Last local date YYYY-MM-DD */
+  to?: string;
+}
+
+export interface ListAnomaliesParams {
+  /** Region ID */
+  region?: string;
+  /** First local date YYYY-MM-DD */
+  from?: string;
+  /** Last local date YYYY-MM-DD */
+  to?: string;
+  /** Anomaly type */
+  type?: 'lowFlow' | 'spike' | 'speedDrop';
+}
+
+export interface CompareStationsParams {
+  /** Comma separated station IDs, at most 10 */
+  stations: string;
+  /** trafficCount, averageSpeed or a 60 minute fixed window sensor name, defaults to trafficCount */
+  sensor?: string;
+  /** First local date YYYY-MM-DD */
+  from?: string;
+  /** Last local date YYYY-MM-DD */
+  to?: string;
+  /** Day type or weekday type */
+  dayType?: DayTypeFilter;
+}
+
+export interface ListCorridorsParams {
+  /** Region ID */
+  region?: string;
+}
+
+export interface GetCorridorTravelTimeParams {
+  /** Corridor ID */
+  corridorId: string;
+  /** First local date YYYY-MM-DD */
+  from?: string;
+  /** Last local date YYYY-MM-DD */
+  to?: string;
+  /** Day type or weekday type */
+  dayType?: DayTypeFilter;
+}
+
+export interface ListSensorsParams {
+  /** Measured quantity */
+  quantity?: 'trafficCount' | 'averageSpeed' | 'unknown';
+  /** Window length in minutes */
+  windowMinutes?: number;
+}
+
+export interface ListAlertRulesParams {
+  /** Station ID */
+  stationId?: string;
+}
+
+export interface GetAlertRuleParams {
+  /** Rule ID */
+  ruleId: string;
+}
+
+export interface UpdateAlertRuleParams {
+  /** Rule ID */
+  ruleId: string;
+}
+
+export interface DeleteAlertRuleParams {
+  /** Rule ID */
+  ruleId: string;
+}
+
+export interface ListStationsParams {
+  /** Region ID */
+  region?: string;
+}
+
+export interface GetStationParams {
+  /** Station ID */
+  stationId: string;
+}
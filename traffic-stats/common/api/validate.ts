@@ -0,0 +1,105 @@
+import { isValidDate, isValidTimeZone } from '../time';
+import { OpenApiDocument, SchemaObject } from './spec';
+
+// String formats that are checked, other formats are only documentation
+const FORMATS: { [format: string]: { description: string; isValid: (value: string) => boolean } } = {
+  date: { description: 'a date in format YYYY-MM-DD', isValid: isValidDate },
+  'time-zone': { description: 'an IANA time zone, e.g. Europe/Helsinki', isValid: isValidTimeZone },
+};
+
+const getTypeName = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (type: SchemaObject['type'], value: unknown): boolean => {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+/**
+ * Validates a value against a schema of the document. Returns the errors with
+ * JSON paths, e.g. "$.stations[0].lat: expected number, got string". Covers the
+ * schema keywords used in openapi.json; properties not in the schema are
+ * allowed as in OpenAPI.
+ */
+export const validateSchema = (document: OpenApiDocument, schema: SchemaObject, value: unknown, path = '$'): string[] => {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    const target = document.components.schemas[name];
+    if (!target) {
+      return [`${path}: unknown schema ${schema.$ref}`];
+    }
+    return validateSchema(document, schema.nullable ? { ...target, nullable: true } : target, value, path);
+  }
+  if (value === null) {
+    return schema.nullable ? [] : [`${path}: must not be null`];
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(option => validateSchema(document, option, value, path).length === 0).length;
+    return matches === 1 ? [] : [`${path}: matches ${matches} of ${schema.oneOf.length} oneOf schemas, expected exactly one`];
+  }
+  if (schema.type && !matchesType(schema.type, value)) {
+    return [`${path}: expected ${schema.type}, got ${getTypeName(value)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path}: ${JSON.stringify(value)} is not one of ${schema.enum.join(', ')}`];
+  }
+
+  if (typeof value === 'string') {
+    const format = schema.format ? FORMATS[schema.format] : undefined;
+    if (format && !format.isValid(value)) {
+      return [`${path}: must be ${format.description}`];
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      return [`${path}: ${JSON.stringify(value)} does not match ${schema.pattern}`];
+    }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return [`${path}: must be at least ${schema.minimum}`];
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return [`${path}: must be at most ${schema.maximum}`];
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    const items = schema.items;
+    return (value as unknown[]).flatMap((item, index) => validateSchema(document, items, item, `${path}[${index}]`));
+  }
+
+  if (schema.type === 'object') {
+    const record = value as { [name: string]: unknown };
+    const errors = (schema.required || [])
+      .filter(name => record[name] === undefined)
+      .map(name => `${path}.${name}: is required`);
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      if (record[name] !== undefined) {
+        errors.push(...validateSchema(document, property, record[name], `${path}.${name}`));
+      }
+    }
+    const additional = schema.additionalProperties;
+    if (additional && typeof additional === 'object') {
+      for (const [name, item] of Object.entries(record)) {
+        if (!schema.properties?.[name]) {
+          errors.push(...validateSchema(document, additional, item, `${path}.${name}`));
+        }
+      }
+    }
+    return errors;
+  }
+
+  return [];
+};
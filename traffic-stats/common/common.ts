@@ -1,26 +1,115 @@
-import { Station } from './interfaces';
+import { Region, Station } from './interfaces';
+import { isStationInRegion, needsMunicipality } from './regions';
+
+// Overridden in local development to use the Digitraffic mock server
+export const DIGITRAFFIC_TMS_URL = process.env.DIGITRAFFIC_TMS_URL || 'https://tie.digitraffic.fi/api/tms/v1';
+
+// Number of parallel station detail requests
+const DETAILS_CONCURRENCY = 5;
+
+/**
+ * Non-OK HTTP response of a fetch request, the status tells whether a retry can help
+ */
+export class HttpStatusError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+export type StationDetails = Pick<Station, 'municipality' | 'direction1Municipality' | 'direction2Municipality' | 'roadNumber' | 'tmsNumber' | 'sensors'>;
 
-export const getTampereStations = async (): Promise<Station[]> => {
-  // Fetch basic station data
-  const stationsResponse = await fetch('https://tie.digitraffic.fi/api/tms/v1/stations').then(r => r.json()) as any;
-  const stations: Station[] = stationsResponse.features.map((feature: any) => ({
+/**
+ * Fetches the details that are not included in the station list:
+ * municipalities, road number, the LAM number used in raw data file names
+ * and the IDs of the station's sensors
+ */
+export const fetchStationDetails = async (stationId: string): Promise<StationDetails | undefined> => {
+  try {
+    const response = await fetch(`${DIGITRAFFIC_TMS_URL}/stations/${stationId}`);
+    if (!response.ok) {
+      throw new HttpStatusError(`Digitraffic responded with ${response.status}`, response.status);
+    }
+    const details = await response.json() as any;
+    if (!details?.properties) {
+      return undefined;
+    }
+    return {
+      municipality: details.properties.municipality,
+      direction1Municipality: details.properties.direction1Municipality,
+      direction2Municipality: details.properties.direction2Municipality,
+      roadNumber: details.properties.roadAddress?.roadNumber,
+      tmsNumber: details.properties.tmsNumber,
+      sensors: details.properties.sensors || [],
+    };
+  } catch (error) {
+    console.error(`Failed to fetch details for station ${stationId}:`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Adds station details to the given stations in place, a few stations at a time.
+ * Returns the stations whose details were fetched, the others are left as they were.
+ */
+export const enrichStationDetails = async (stations: Station[]): Promise<Station[]> => {
+  const enriched: Station[] = [];
+  for (let i = 0; i < stations.length; i += DETAILS_CONCURRENCY) {
+    await Promise.all(stations.slice(i, i + DETAILS_CONCURRENCY).map(async station => {
+      const details = await fetchStationDetails(station.id);
+      if (details) {
+        Object.assign(station, details);
+        enriched.push(station);
+      }
+    }));
+  }
+  return enriched;
+};
+
+/**
+ * Fetches the basic data of all TMS stations, whatever their collection status
+ */
+export const fetchStations = async (): Promise<Station[]> => {
+  const response = await fetch(`${DIGITRAFFIC_TMS_URL}/stations`);
+  if (!response.ok) {
+    throw new HttpStatusError(`Failed to fetch stations: ${response.status}`, response.status);
+  }
+  const stationsResponse = await response.json() as any;
+  return stationsResponse.features.map((feature: any) => ({
     id: feature.properties.id,
     name: feature.properties.name,
     lat: feature.geometry.coordinates[1],
     lon: feature.geometry.coordinates[0],
     fullName: feature.properties.name, // Default to name initially
-    direction1Municipality: undefined, // set when station is selected
-    direction2Municipality: undefined, // set when station is selected
-    municipality: undefined, // set when station is selected
+    direction1Municipality: undefined, // set by enrichStationDetails
+    direction2Municipality: undefined, // set by enrichStationDetails
+    municipality: undefined, // set by enrichStationDetails
     collectionStatus: feature.properties.collectionStatus,
   }));
+};
 
-  // Filter stations near Tampere and with collectionStatus "GATHERING"
-  const tampereStations = stations.filter(station => {
-    return station.lat >= 61.4 && station.lat <= 61.6 && station.lon >= 23.6 && station.lon <= 23.9 && station.collectionStatus === 'GATHERING';
+/**
+ * Fetches gathering stations that belong to at least one of the given regions.
+ * Each returned station lists the IDs of the regions it belongs to. Stations
+ * already fetched with fetchStations can be given to avoid fetching them again.
+ */
+export const getRegionStations = async (regions: Region[], allStations?: Station[]): Promise<Station[]> => {
+  // Copies, as the returned stations are enriched in place
+  const stations = (allStations || await fetchStations()).map(station => ({ ...station }));
+
+  const gatheringStations = stations.filter(station => station.collectionStatus === 'GATHERING');
+
+  // Municipality is not part of the station list, so look it up only for stations that may need it
+  const municipalityCandidates = gatheringStations.filter(station => needsMunicipality(station, regions));
+  await enrichStationDetails(municipalityCandidates);
+
+  // Keep stations inside at least one of the regions
+  const regionStations = gatheringStations.filter(station => {
+    station.regions = regions.filter(region => isStationInRegion(station, region)).map(region => region.id);
+    return station.regions.length > 0;
   });
 
-  console.log('Fetched basic station data:', tampereStations);
+  console.log('Fetched basic station data:', regionStations);
 
   try {
     // Fetch detailed station data from DATEX2 API
@@ -28,18 +117,18 @@ export const getTampereStations = async (): Promise<Station[]> => {
     let datex2Response;
 
     try {
-      datex2Response = await fetch('https://tie.digitraffic.fi/api/tms/v1/stations/datex2').then(r => r.json()) as any;
+      datex2Response = await fetch(`${DIGITRAFFIC_TMS_URL}/stations/datex2`).then(r => r.json()) as any;
       console.log('DATEX2 data received');
     } catch (error) {
       console.error('Failed to fetch DATEX2 data:', error);
-      return tampereStations;
+      return regionStations;
     }
 
     // Verify that measurementSiteTable exists in the response
     if (!datex2Response?.measurementSiteTable?.length ||
       !datex2Response.measurementSiteTable[0]?.measurementSite?.length) {
       console.error('Invalid DATEX2 response structure');
-      return tampereStations;
+      return regionStations;
     }
 
     const measurementSites = datex2Response.measurementSiteTable[0].measurementSite;
@@ -66,8 +155,8 @@ export const getTampereStations = async (): Promise<Station[]> => {
       siteMap.set(siteId, siteInfo);
     });
 
-    // Enhance Tampere stations with DATEX2 data
-    tampereStations.forEach(station => {
+    // Enhance region stations with DATEX2 data
+    regionStations.forEach(station => {
       // Convert station ID to string for consistent comparison
       const stationIdStr = String(station.id);
       const siteInfo = siteMap.get(stationIdStr);
@@ -93,7 +182,7 @@ export const getTampereStations = async (): Promise<Station[]> => {
     console.error('Error processing station data:', error);
   }
 
-  return tampereStations;
+  return regionStations;
 };
 
 // Helper function to extract the fullName from a measurement site
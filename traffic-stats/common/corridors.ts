@@ -0,0 +1,79 @@
+import { Corridor, CorridorStation } from './interfaces';
+import { getRegion } from './regions';
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Checks one corridor of the configuration and returns what is wrong with it
+ */
+const validateCorridor = (corridor: Partial<Corridor>): string | undefined => {
+  if (typeof corridor.id !== 'string' || !/^[a-z0-9-]+$/.test(corridor.id)) {
+    return 'id must consist of lowercase letters, digits and dashes';
+  }
+  if (typeof corridor.name !== 'string' || corridor.name.length === 0) {
+    return 'name is required';
+  }
+  if (typeof corridor.regionId !== 'string' || !getRegion(corridor.regionId)) {
+    return `unknown region ${corridor.regionId}`;
+  }
+  if (!Array.isArray(corridor.stations) || corridor.stations.length < 2) {
+    return 'at least two stations are required';
+  }
+  const lastIndex = corridor.stations.length - 1;
+  const invalidIndex = corridor.stations.findIndex((station: Partial<CorridorStation>, index) =>
+    typeof station.stationId !== 'string' || !/^\d+$/.test(station.stationId)
+    || (station.direction !== 1 && station.direction !== 2)
+    || (index < lastIndex ? !isPositiveNumber(station.distanceToNextKm) : station.distanceToNextKm !== undefined));
+  if (invalidIndex >= 0) {
+    return `station ${invalidIndex + 1} needs a numeric stationId, direction 1 or 2 and, except for the last station, a positive distanceToNextKm`;
+  }
+  return undefined;
+};
+
+/**
+ * Parses the corridors of the CORRIDORS environment variable, a JSON array
+ * of corridors with stations in driving order. Distances are measured along
+ * the road, e.g. from the road addresses of the stations. No corridors are
+ * served when the variable is not set. Throws if the configuration is invalid.
+ */
+export const parseCorridors = (value: string | undefined): Corridor[] => {
+  if (!value) {
+    return [];
+  }
+
+  let corridors: unknown;
+  try {
+    corridors = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`CORRIDORS is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(corridors)) {
+    throw new Error('CORRIDORS must be a JSON array of corridors');
+  }
+
+  const ids = new Set<string>();
+  for (const [index, corridor] of corridors.entries()) {
+    const error = corridor && typeof corridor === 'object' ? validateCorridor(corridor) : 'corridor must be an object';
+    if (error) {
+      throw new Error(`Invalid corridor ${corridor?.id || index + 1}: ${error}`);
+    }
+    if (ids.has(corridor.id)) {
+      throw new Error(`Duplicate corridor ${corridor.id}`);
+    }
+    ids.add(corridor.id);
+  }
+
+  return corridors as Corridor[];
+};
+
+export const getCorridor = (corridors: Corridor[], corridorId: string): Corridor | undefined => {
+  return corridors.find(corridor => corridor.id === corridorId);
+};
+
+export const getCorridorsOfRegions = (corridors: Corridor[], regionIds: string[]): Corridor[] => {
+  return corridors.filter(corridor => regionIds.includes(corridor.regionId));
+};
+
+export const getCorridorLength = (corridor: Corridor): number => {
+  return corridor.stations.reduce((length, station) => length + (station.distanceToNextKm || 0), 0);
+};
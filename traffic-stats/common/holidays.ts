@@ -0,0 +1,118 @@
+import { addDays } from './time';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+/**
+ * Day types used to split traffic profiles. Sundays and public holidays
+ * have similar traffic, so they share the same day type.
+ */
+export type DayType = 'weekday' | 'saturday' | 'sundayOrHoliday';
+
+/**
+ * Calendar weekday, except that public holidays falling on Monday-Saturday
+ * are classified as 'holiday' so they do not distort the weekday profiles.
+ */
+export type WeekdayType = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday' | 'holiday';
+
+export const DAY_TYPES: DayType[] = ['weekday', 'saturday', 'sundayOrHoliday'];
+
+export const WEEKDAY_TYPES: WeekdayType[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'holiday'];
+
+const WEEKDAY_NAMES: WeekdayType[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toDate = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+const getWeekday = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Anonymous Gregorian algorithm for the date of Easter Sunday
+const getEasterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDate(year, month, day);
+};
+
+// First date on or after the given date that falls on the weekday (0 = Sunday)
+const nextWeekday = (date: string, weekday: number): string => {
+  return addDays(date, (weekday - getWeekday(date) + 7) % 7);
+};
+
+const holidayCache: { [year: number]: Holiday[] } = {};
+
+/**
+ * Finnish public holidays of a year. Midsummer Eve and Christmas Eve are
+ * not official holidays but are treated as such since most workplaces are closed.
+ */
+export const getFinnishHolidays = (year: number): Holiday[] => {
+  if (holidayCache[year]) {
+    return holidayCache[year];
+  }
+
+  const easter = getEasterSunday(year);
+  const holidays: Holiday[] = [
+    { date: toDate(year, 1, 1), name: 'Uudenvuodenpäivä' },
+    { date: toDate(year, 1, 6), name: 'Loppiainen' },
+    { date: addDays(easter, -2), name: 'Pitkäperjantai' },
+    { date: easter, name: 'Pääsiäispäivä' },
+    { date: addDays(easter, 1), name: '2. pääsiäispäivä' },
+    { date: toDate(year, 5, 1), name: 'Vappu' },
+    { date: addDays(easter, 39), name: 'Helatorstai' },
+    { date: addDays(easter, 49), name: 'Helluntaipäivä' },
+    { date: nextWeekday(toDate(year, 6, 19), 5), name: 'Juhannusaatto' },
+    { date: nextWeekday(toDate(year, 6, 20), 6), name: 'Juhannuspäivä' },
+    { date: nextWeekday(toDate(year, 10, 31), 6), name: 'Pyhäinpäivä' },
+    { date: toDate(year, 12, 6), name: 'Itsenäisyyspäivä' },
+    { date: toDate(year, 12, 24), name: 'Jouluaatto' },
+    { date: toDate(year, 12, 25), name: 'Joulupäivä' },
+    { date: toDate(year, 12, 26), name: 'Tapaninpäivä' },
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  holidayCache[year] = holidays;
+  return holidays;
+};
+
+export const getFinnishHoliday = (date: string): Holiday | undefined => {
+  return getFinnishHolidays(parseInt(date.substring(0, 4), 10)).find(holiday => holiday.date === date);
+};
+
+export const getDayType = (date: string): DayType => {
+  const weekday = getWeekday(date);
+  if (weekday === 0 || getFinnishHoliday(date)) {
+    return 'sundayOrHoliday';
+  }
+  return weekday === 6 ? 'saturday' : 'weekday';
+};
+
+export const getWeekdayType = (date: string): WeekdayType => {
+  const weekday = getWeekday(date);
+  if (weekday !== 0 && getFinnishHoliday(date)) {
+    return 'holiday';
+  }
+  return WEEKDAY_NAMES[weekday];
+};
+
+/**
+ * Whether a date is of a day type or weekday type, e.g. 'weekday' or 'monday'.
+ * 'saturday' is in both and matches Saturdays that are not holidays.
+ */
+export const isDateOfType = (date: string, type: string): boolean => {
+  return (WEEKDAY_TYPES as string[]).includes(type) && !(DAY_TYPES as string[]).includes(type)
+    ? getWeekdayType(date) === type
+    : getDayType(date) === type;
+};
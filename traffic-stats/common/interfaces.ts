@@ -1,24 +1,6 @@
-export interface Station {
-    id: string;
-    name: string;
-    lat: number;
-    lon: number;
-    fullName?: string;
-    description?: string;
-    collectionStatus?: undefined,
-}
-
-export interface SensorValue {
-    id: number;
-    stationId: number;
-    name: string;
-    shortName: string;
-    timeWindowStart: string;
-    timeWindowEnd: string;
-    measuredTime: string;
-    value: number;
-    unit: string;
-}
+// Station and SensorValue are part of the API contract, generated from api/openapi.json
+import type { SensorValue } from './api/types';
+export type { SensorValue, Station } from './api/types';
 
 export interface TrafficData {
     id: number;
@@ -27,7 +9,67 @@ export interface TrafficData {
     sensorValues: SensorValue[];
 }
 
+/**
+ * Hourly runs collect all sensors, five minute runs only the 5 minute sliding window sensors
+ */
+export type CollectionMode = 'hourly' | 'fiveMinute';
+
+/**
+ * Collected data is split into chunks that fit into one SQS message.
+ * runId identifies the collection run, chunkIndex is 0-based.
+ */
 export interface TrafficDataSQSMessage {
     collected: string;
+    mode?: CollectionMode;
+    runId?: string;
+    chunkIndex?: number;
+    chunkTotal?: number;
+    stationCount?: number;
     trafficData: TrafficData[]
 }
+
+export interface BoundingBox {
+    minLat: number;
+    maxLat: number;
+    minLon: number;
+    maxLon: number;
+}
+
+/**
+ * Region definition. Polygon coordinates follow GeoJSON: rings of [lon, lat]
+ * pairs, the first ring being the outer boundary and the rest holes.
+ * Municipality regions may give `bounds` to limit which stations have their
+ * municipality looked up from Digitraffic.
+ */
+export type RegionDefinition =
+    | ({ type: 'bbox' } & BoundingBox)
+    | { type: 'polygon'; coordinates: number[][][] }
+    | { type: 'municipalities'; municipalities: string[]; bounds?: BoundingBox }
+    | { type: 'stations'; stationIds: string[] };
+
+export interface Region {
+    id: string;
+    name: string;
+    definition: RegionDefinition;
+}
+
+/**
+ * Station of a corridor. Direction is the sensor direction (SUUNTA1 or
+ * SUUNTA2) that runs along the corridor, distanceToNextKm the road distance
+ * to the next station and omitted on the last station.
+ */
+export interface CorridorStation {
+    stationId: string;
+    direction: number;
+    distanceToNextKm?: number;
+}
+
+/**
+ * Named stretch of road, stations in driving order
+ */
+export interface Corridor {
+    id: string;
+    name: string;
+    regionId: string;
+    stations: CorridorStation[];
+}
@@ -0,0 +1,125 @@
+import { BoundingBox, Region, Station } from './interfaces';
+
+/**
+ * Built-in monitoring regions. Which of them are collected is controlled by
+ * the ACTIVE_REGIONS environment variable of the collector.
+ */
+export const REGIONS: Region[] = [
+  {
+    id: 'tampere',
+    name: 'Tampere',
+    definition: { type: 'bbox', minLat: 61.4, maxLat: 61.6, minLon: 23.6, maxLon: 23.9 },
+  },
+  {
+    id: 'helsinki',
+    name: 'Helsinki capital region',
+    definition: { type: 'bbox', minLat: 60.1, maxLat: 60.35, minLon: 24.5, maxLon: 25.25 },
+  },
+  {
+    id: 'turku',
+    name: 'Turku',
+    definition: {
+      type: 'polygon',
+      coordinates: [[
+        [22.05, 60.38],
+        [22.35, 60.36],
+        [22.48, 60.42],
+        [22.45, 60.55],
+        [22.15, 60.56],
+        [22.05, 60.38],
+      ]],
+    },
+  },
+];
+
+export const DEFAULT_REGION_ID = 'tampere';
+
+export const getRegion = (regionId: string): Region | undefined => {
+  return REGIONS.find(region => region.id === regionId);
+};
+
+/**
+ * Parses a comma separated list of region IDs, e.g. "tampere,helsinki".
+ * Throws if the list names a region that is not defined.
+ */
+export const parseRegionIds = (value: string | undefined, fallback: string[] = [DEFAULT_REGION_ID]): string[] => {
+  const ids = (value || '').split(',').map(id => id.trim().toLowerCase()).filter(id => id.length > 0);
+  if (ids.length === 0) {
+    return fallback;
+  }
+
+  const unknown = ids.filter(id => !getRegion(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown region(s): ${unknown.join(', ')}`);
+  }
+
+  return Array.from(new Set(ids));
+};
+
+export const getRegions = (regionIds: string[]): Region[] => {
+  return regionIds.map(id => {
+    const region = getRegion(id);
+    if (!region) {
+      throw new Error(`Unknown region: ${id}`);
+    }
+    return region;
+  });
+};
+
+export const isInBoundingBox = (lat: number, lon: number, box: BoundingBox): boolean => {
+  return lat >= box.minLat && lat <= box.maxLat && lon >= box.minLon && lon <= box.maxLon;
+};
+
+// Ray casting test against a single GeoJSON ring of [lon, lat] pairs
+const isInRing = (lat: number, lon: number, ring: number[][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lonI, latI] = ring[i];
+    const [lonJ, latJ] = ring[j];
+    const crosses = (latI > lat) !== (latJ > lat) &&
+      lon < (lonJ - lonI) * (lat - latI) / (latJ - latI) + lonI;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInPolygon = (lat: number, lon: number, coordinates: number[][][]): boolean => {
+  if (coordinates.length === 0 || !isInRing(lat, lon, coordinates[0])) {
+    return false;
+  }
+  // Remaining rings are holes
+  return !coordinates.slice(1).some(hole => isInRing(lat, lon, hole));
+};
+
+/**
+ * Checks whether a station belongs to a region. Municipality regions need
+ * the station's municipality to be known, otherwise the station is not matched.
+ */
+export const isStationInRegion = (station: Station, region: Region): boolean => {
+  const definition = region.definition;
+  switch (definition.type) {
+    case 'bbox':
+      return isInBoundingBox(station.lat, station.lon, definition);
+    case 'polygon':
+      return isInPolygon(station.lat, station.lon, definition.coordinates);
+    case 'municipalities':
+      if (definition.bounds && !isInBoundingBox(station.lat, station.lon, definition.bounds)) {
+        return false;
+      }
+      return !!station.municipality && definition.municipalities
+        .some(municipality => municipality.toLowerCase() === station.municipality!.toLowerCase());
+    case 'stations':
+      return definition.stationIds.includes(String(station.id));
+  }
+};
+
+/**
+ * Municipality regions are the only ones that need station details
+ * from Digitraffic. Returns true if the station could match such a region.
+ */
+export const needsMunicipality = (station: Station, regions: Region[]): boolean => {
+  return regions.some(region => region.definition.type === 'municipalities' &&
+    (!region.definition.bounds || isInBoundingBox(station.lat, station.lon, region.definition.bounds)));
+};
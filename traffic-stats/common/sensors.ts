@@ -0,0 +1,157 @@
+import { DIGITRAFFIC_TMS_URL, HttpStatusError } from './common';
+
+/**
+ * Digitraffic TMS sensor names describe the measured quantity, window and direction,
+ * e.g. OHITUKSET_60MIN_KIINTEA_SUUNTA1 or KESKINOPEUS_5MIN_LIUKUVA_SUUNTA2_VVAPAAS:
+ *   OHITUKSET = passing vehicles, KESKINOPEUS = average speed
+ *   5MIN / 60MIN = window length, KIINTEA = fixed window, LIUKUVA = sliding window
+ *   SUUNTA1 / SUUNTA2 = direction, optional suffix for a variant such as
+ *   VVAPAAS, speed relative to free flow speed
+ */
+
+export type SensorQuantity = 'trafficCount' | 'averageSpeed' | 'unknown';
+
+export type SensorWindow = 'fixed' | 'sliding';
+
+export interface SensorDescriptor {
+  name: string;
+  quantity: SensorQuantity;
+  windowMinutes?: number;
+  window?: SensorWindow;
+  direction?: number;
+  variant?: string;
+  unit?: string;
+}
+
+export interface SensorMetadata extends SensorDescriptor {
+  id: number;
+  shortName?: string;
+  description?: string;
+  accuracy?: number;
+}
+
+// Sensor of the Digitraffic /sensors response, accuracy is null for most sensors
+interface DigitrafficSensor {
+  id: number;
+  name: string;
+  shortName?: string;
+  unit?: string;
+  accuracy?: number | null;
+  description?: string;
+  descriptions?: { [language: string]: string };
+}
+
+interface DigitrafficSensorsResponse {
+  sensors?: DigitrafficSensor[];
+}
+
+const QUANTITIES: { [prefix: string]: SensorQuantity } = {
+  OHITUKSET: 'trafficCount',
+  KESKINOPEUS: 'averageSpeed',
+};
+
+const WINDOWS: { [name: string]: SensorWindow } = {
+  KIINTEA: 'fixed',
+  LIUKUVA: 'sliding',
+};
+
+// Units of the plain traffic count and speed sensors, variants are measured in other units
+export const QUANTITY_UNITS: { [quantity in SensorQuantity]?: string } = {
+  trafficCount: 'kpl/h',
+  averageSpeed: 'km/h',
+};
+
+const SENSOR_NAME_PATTERN = /^([A-Z]+)_(\d+)MIN_([A-Z]+)_SUUNTA(\d)(?:_(.+))?$/;
+
+/**
+ * Parses a sensor name into a descriptor. Names that do not follow the
+ * pattern get quantity 'unknown'.
+ */
+export const parseSensorName = (name: string, unit?: string): SensorDescriptor => {
+  const match = name.match(SENSOR_NAME_PATTERN);
+  if (!match) {
+    return { name, quantity: 'unknown', unit };
+  }
+  return {
+    name,
+    quantity: QUANTITIES[match[1]] || 'unknown',
+    windowMinutes: parseInt(match[2], 10),
+    window: WINDOWS[match[3]],
+    direction: parseInt(match[4], 10),
+    variant: match[5],
+    unit,
+  };
+};
+
+/**
+ * Builds the Digitraffic name of a sensor
+ */
+export const formatSensorName = (descriptor: Pick<SensorDescriptor, 'quantity' | 'windowMinutes' | 'window' | 'direction' | 'variant'>): string => {
+  const prefix = Object.keys(QUANTITIES).find(key => QUANTITIES[key] === descriptor.quantity);
+  const window = Object.keys(WINDOWS).find(key => WINDOWS[key] === descriptor.window);
+  if (!prefix || !window || !descriptor.windowMinutes || !descriptor.direction) {
+    throw new Error(`Cannot format sensor name of ${JSON.stringify(descriptor)}`);
+  }
+  const name = `${prefix}_${descriptor.windowMinutes}MIN_${window}_SUUNTA${descriptor.direction}`;
+  return descriptor.variant ? `${name}_${descriptor.variant}` : name;
+};
+
+/**
+ * Hourly profiles use the 60 minute fixed window values without variant. Other
+ * windows of the same quantity, e.g. the 5 minute sliding windows collected
+ * every five minutes, would outnumber them in the averages.
+ */
+const isPlainQuantity = (sensor: { name: string; unit: string }, quantity: SensorQuantity): boolean => {
+  const descriptor = parseSensorName(sensor.name, sensor.unit);
+  return descriptor.quantity === quantity && !descriptor.variant && sensor.unit === QUANTITY_UNITS[quantity]
+    && descriptor.windowMinutes === 60 && descriptor.window === 'fixed';
+};
+
+export const isTrafficCountSensor = (sensor: { name: string; unit: string }) => isPlainQuantity(sensor, 'trafficCount');
+export const isSpeedSensor = (sensor: { name: string; unit: string }) => isPlainQuantity(sensor, 'averageSpeed');
+
+// Only the sensors used by the hourly profiles are rolled up
+export const isRollupSensor = (sensor: { name: string; unit: string }) => isTrafficCountSensor(sensor) || isSpeedSensor(sensor);
+
+export const isHourlySensor = (sensor: { name: string }) => parseSensorName(sensor.name).windowMinutes === 60;
+
+/**
+ * Human readable label, e.g. "Traffic count, 60 min fixed, direction 1".
+ * Window parts missing from the descriptor are left out, e.g. "Traffic count, 60 min".
+ */
+export const getSensorLabel = (descriptor: SensorDescriptor, directionLabels?: { [direction: number]: string }): string => {
+  if (descriptor.quantity === 'unknown') {
+    return descriptor.name;
+  }
+  const parts = [descriptor.quantity === 'trafficCount' ? 'Traffic count' : 'Average speed'];
+  const window = [descriptor.windowMinutes && `${descriptor.windowMinutes} min`, descriptor.window].filter(part => part).join(' ');
+  if (window) {
+    parts.push(window);
+  }
+  if (descriptor.direction) {
+    parts.push(directionLabels?.[descriptor.direction] || `direction ${descriptor.direction}`);
+  }
+  if (descriptor.variant) {
+    parts.push(descriptor.variant);
+  }
+  return parts.join(', ');
+};
+
+/**
+ * Fetches the TMS sensor metadata of Digitraffic with parsed descriptors
+ */
+export const fetchSensorMetadata = async (init?: RequestInit): Promise<SensorMetadata[]> => {
+  const response = await fetch(`${DIGITRAFFIC_TMS_URL}/sensors`, init);
+  if (!response.ok) {
+    throw new HttpStatusError(`Failed to fetch sensor metadata: ${response.status}`, response.status);
+  }
+  const data = await response.json() as DigitrafficSensorsResponse;
+
+  return (data.sensors || []).map(sensor => ({
+    ...parseSensorName(sensor.name, sensor.unit),
+    id: sensor.id,
+    shortName: sensor.shortName,
+    description: sensor.descriptions?.en || sensor.description,
+    accuracy: sensor.accuracy ?? undefined,
+  }));
+};
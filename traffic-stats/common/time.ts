@@ -0,0 +1,129 @@
+export const FINNISH_TIME_ZONE = 'Europe/Helsinki';
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+}
+
+const formatters: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+  }
+  return formatters[timeZone];
+};
+
+// Wall clock time of the zone expressed as milliseconds since epoch
+const getWallClockTime = (time: Date, timeZone: string): number => {
+  const parts: { [type: string]: number } = {};
+  getFormatter(timeZone).formatToParts(time).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  });
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+/**
+ * Returns the UTC offset of the time zone at the given instant in minutes
+ */
+export const getUtcOffsetMinutes = (time: Date, timeZone: string = FINNISH_TIME_ZONE): number => {
+  const instant = Math.floor(time.getTime() / 1000) * 1000;
+  return (getWallClockTime(new Date(instant), timeZone) - instant) / 60000;
+};
+
+/**
+ * Converts an instant into local date, hour and weekday of the time zone
+ */
+export const toLocalTime = (time: string | Date, timeZone: string = FINNISH_TIME_ZONE): LocalTime => {
+  const wallClock = new Date(getWallClockTime(new Date(time), timeZone));
+  return {
+    date: wallClock.toISOString().split('T')[0],
+    hour: wallClock.getUTCHours(),
+    minute: wallClock.getUTCMinutes(),
+    weekday: wallClock.getUTCDay(),
+  };
+};
+
+/**
+ * ISO 8601 local time of the zone with its UTC offset, e.g. 2025-03-14T12:05:00+02:00
+ */
+export const formatLocalTimestamp = (time: string | Date, timeZone: string = FINNISH_TIME_ZONE): string => {
+  const instant = new Date(time);
+  const offset = getUtcOffsetMinutes(instant, timeZone);
+  const wallClock = new Date(getWallClockTime(instant, timeZone)).toISOString().substring(0, 19);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${wallClock}${sign}${hours}:${minutes}`;
+};
+
+/**
+ * Converts local date and hour of the time zone into an instant. Hours skipped
+ * by a DST transition resolve to the instant after the transition.
+ */
+export const localToUtc = (date: string, hour: number = 0, timeZone: string = FINNISH_TIME_ZONE): Date => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const wallClock = Date.UTC(year, month - 1, day, hour);
+  const guess = wallClock - getUtcOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  return new Date(wallClock - getUtcOffsetMinutes(new Date(guess), timeZone) * 60000);
+};
+
+/**
+ * Whether the name is an IANA time zone known to the runtime, e.g. Europe/Helsinki
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidDate = (date: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return false;
+  }
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+};
+
+export const addDays = (date: string, days: number): string => {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return parsed.toISOString().split('T')[0];
+};
+
+/**
+ * Adds calendar months to a date, days past the end of the month are clamped to its last day
+ */
+export const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().split('T')[0];
+};
+
+export const daysBetween = (start: string, end: string): number => {
+  return Math.round((new Date(`${end}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / 86400000);
+};
+
+/**
+ * Returns the Monday of the week of a date
+ */
+export const startOfWeek = (date: string): string => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+};
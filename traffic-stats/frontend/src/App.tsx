@@ -1,38 +1,85 @@
 import * as React from 'react';
 import { useState, useEffect } from 'react';
-import { getTampereStations } from '../../common/common';
+import API_URL from './config';
+import api from './api';
+import type { Region, Station } from '../../common/api/types';
 import StationSelector from './StationSelector';
+import CorridorView from './CorridorView';
 import './App.css';
 
-interface Station {
-  id: string;
-  name: string;
-  lat: number;
-  lon: number;
-  fullName?: string;
-  description?: string;
-  collectionStatus?: string;
-}
+// Region can be preselected with ?region=tampere
+const getInitialRegion = (): string => {
+  return new URLSearchParams(window.location.search).get('region') || '';
+};
 
 const App: React.FC = () => {
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [selectedRegion, setSelectedRegion] = useState<string>(getInitialRegion());
   const [stations, setStations] = useState<Station[]>([]);
 
   useEffect(() => {
+    const fetchRegions = async () => {
+      try {
+        const activeRegions = (await api.listRegions()).regions;
+        setRegions(activeRegions);
+        if (!activeRegions.some(region => region.id === selectedRegion) && activeRegions.length > 0) {
+          setSelectedRegion(activeRegions[0].id);
+        }
+      } catch (error) {
+        console.error('Error fetching regions:', error);
+      }
+    };
+    fetchRegions();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedRegion || !regions.some(region => region.id === selectedRegion)) {
+      return;
+    }
     const fetchStations = async () => {
+      setStations([]);
       try {
-        const tampereStations = await getTampereStations();
-        setStations(tampereStations);
+        const response = await api.listStations({ region: selectedRegion });
+        setStations(response.stations);
       } catch (error) {
         console.error('Error fetching stations:', error);
       }
     };
     fetchStations();
-  }, []);
+
+    // Keep the selected region in the URL so that views can be shared
+    const url = new URL(window.location.href);
+    url.searchParams.set('region', selectedRegion);
+    window.history.replaceState(null, '', url.toString());
+  }, [selectedRegion, regions]);
 
   return (
     <div className="App">
       <h1>Traffic Stats</h1>
-      <StationSelector stations={stations} />
+      {regions.length > 1 && (
+        <div style={{ marginBottom: '10px' }}>
+          <label htmlFor="region" style={{ fontWeight: 'bold', marginRight: '10px' }}>Region:</label>
+          <select
+            id="region"
+            value={selectedRegion}
+            onChange={(e) => setSelectedRegion(e.target.value)}
+            style={{ padding: '6px', fontSize: '16px', borderRadius: '4px' }}
+          >
+            {regions.map(region => (
+              <option key={region.id} value={region.id}>{region.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      {selectedRegion && (
+        <div style={{ marginBottom: '10px' }}>
+          <a href={`${API_URL}/traffic/stations?region=${selectedRegion}&format=geojson`} download>
+            Download stations as GeoJSON
+          </a>
+        </div>
+      )}
+      <StationSelector key={selectedRegion} stations={stations} />
+      {selectedRegion && <CorridorView key={`corridors-${selectedRegion}`} region={selectedRegion} />}
       <footer style={{ fontSize: 'small', textAlign: 'center', marginTop: '20px' }}>
         <p>Liikennetietojen lähde Fintraffic / <a href="https://digitraffic.fi">digitraffic.fi</a>, lisenssi <a href="https://creativecommons.org/licenses/by/4.0/">CC 4.0 BY</a></p>
         <p>Esitettävät tiedot on jalostettu Fintrafficin / Digitrafficin tiedoista laskemalla ja tietojen oikeellisuutta ei taata.</p>
@@ -0,0 +1,236 @@
+import * as React from "react";
+import { useState, useEffect } from "react";
+import api from "./api";
+import type { Corridor, CorridorHour, CorridorTravelTime } from "../../common/api/types";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+interface CorridorViewProps {
+  region: string;
+}
+
+const formatHourLabel = (hour: number): string => `${hour}:00`;
+
+/**
+ * Hourly travel time and flow of a corridor, with the bottleneck segment of
+ * the slowest hour
+ */
+const CorridorView: React.FC<CorridorViewProps> = ({ region }) => {
+  const [corridors, setCorridors] = useState<Corridor[]>([]);
+  const [selectedCorridor, setSelectedCorridor] = useState<string>("");
+  const [travelTime, setTravelTime] = useState<CorridorTravelTime | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCorridors = async () => {
+      try {
+        const response = await api.listCorridors({ region: region || undefined });
+        setCorridors(response.corridors);
+      } catch (error) {
+        console.error("Error fetching corridors:", error);
+      }
+    };
+    fetchCorridors();
+  }, [region]);
+
+  useEffect(() => {
+    if (!selectedCorridor) {
+      setTravelTime(null);
+      return;
+    }
+    const fetchTravelTime = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setTravelTime(
+          await api.getCorridorTravelTime({ corridorId: selectedCorridor })
+        );
+      } catch (error) {
+        console.error("Error fetching corridor travel time:", error);
+        setError("Failed to fetch data. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchTravelTime();
+  }, [selectedCorridor]);
+
+  // Region has no corridors defined
+  if (corridors.length === 0) {
+    return null;
+  }
+
+  const stationNames = new Map(
+    (travelTime?.corridor.stations ?? []).map((station) => [
+      station.stationId,
+      station.fullName,
+    ])
+  );
+  const slowestHour = (travelTime?.hourlyData ?? []).reduce<CorridorHour | null>(
+    (slowest, data) =>
+      data.travelTimeMinutes !== null &&
+      (!slowest || data.travelTimeMinutes > (slowest.travelTimeMinutes ?? 0))
+        ? data
+        : slowest,
+    null
+  );
+
+  return (
+    <div style={styles.corridorView}>
+      <label htmlFor="corridor" style={styles.label}>
+        Corridor:
+      </label>
+      <select
+        id="corridor"
+        value={selectedCorridor}
+        onChange={(e) => setSelectedCorridor(e.target.value)}
+        style={styles.dropdown}
+      >
+        <option value="">-- Select a corridor --</option>
+        {corridors.map((corridor) => (
+          <option key={corridor.id} value={corridor.id}>
+            {corridor.name} ({corridor.lengthKm} km)
+          </option>
+        ))}
+      </select>
+
+      {loading && <div style={styles.loading}>Loading data...</div>}
+      {error && <div style={styles.error}>{error}</div>}
+
+      {travelTime && !loading && (
+        <div style={styles.chartWrapper}>
+          <h3 style={styles.h3}>Travel Time of {travelTime.corridor.name}</h3>
+          <div style={styles.period}>
+            {travelTime.from} to {travelTime.to},{" "}
+            {travelTime.corridor.stations
+              .map((station) => station.fullName)
+              .join(" → ")}
+          </div>
+          <ResponsiveContainer width="100%" height={350}>
+            <ComposedChart
+              data={travelTime.hourlyData}
+              margin={{
+                top: 5,
+                right: 30,
+                left: 20,
+                bottom: 5,
+              }}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="hour" tickFormatter={formatHourLabel} />
+              <YAxis
+                yAxisId="time"
+                label={{
+                  value: "min",
+                  angle: -90,
+                  position: "insideLeft",
+                }}
+              />
+              <YAxis
+                yAxisId="flow"
+                orientation="right"
+                label={{
+                  value: "kpl/h",
+                  angle: 90,
+                  position: "insideRight",
+                }}
+              />
+              <RechartsTooltip labelFormatter={formatHourLabel} />
+              <Legend />
+              <Bar
+                yAxisId="flow"
+                dataKey="flow"
+                name="Corridor flow (kpl/h)"
+                fill="#d0d4f5"
+              />
+              <Line
+                yAxisId="time"
+                dataKey="travelTimeMinutes"
+                name="Travel time (min)"
+                stroke="#e8590c"
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+          {slowestHour?.bottleneck && (
+            <div style={styles.bottleneck}>
+              Slowest at {formatHourLabel(slowestHour.hour)}:{" "}
+              {slowestHour.travelTimeMinutes} min. Bottleneck{" "}
+              {stationNames.get(slowestHour.bottleneck.fromStationId)} →{" "}
+              {stationNames.get(slowestHour.bottleneck.toStationId)},{" "}
+              {slowestHour.bottleneck.speed} km/h
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Define styles as JavaScript object
+import { CSSProperties } from "react";
+
+const styles: { [key: string]: CSSProperties } = {
+  corridorView: {
+    fontFamily: "Arial, sans-serif",
+    maxWidth: "1200px",
+    margin: "0 auto",
+    padding: "20px",
+  },
+  label: {
+    fontWeight: "bold",
+    marginRight: "10px",
+  },
+  dropdown: {
+    padding: "8px",
+    fontSize: "16px",
+    borderRadius: "4px",
+    minWidth: "250px",
+  },
+  chartWrapper: {
+    marginTop: "20px",
+    backgroundColor: "white",
+    color: "black",
+    padding: "20px",
+    borderRadius: "8px",
+    boxShadow: "0 2px 4px rgba(0,0,0,0.1)",
+  },
+  h3: {
+    color: "#444",
+    marginBottom: "10px",
+  },
+  period: {
+    color: "#666",
+    fontStyle: "italic",
+    marginBottom: "10px",
+  },
+  bottleneck: {
+    marginTop: "10px",
+    color: "#555",
+  },
+  loading: {
+    padding: "20px",
+    textAlign: "center",
+    color: "#666",
+  },
+  error: {
+    padding: "20px",
+    textAlign: "center",
+    backgroundColor: "#ffebee",
+    color: "#c62828",
+    borderRadius: "4px",
+  },
+};
+
+export default CorridorView;
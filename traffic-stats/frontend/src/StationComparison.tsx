@@ -0,0 +1,203 @@
+import * as React from "react";
+import { useState, useEffect } from "react";
+import axios from "axios";
+import api from "./api";
+import type { Comparison, DayTypeFilter } from "../../common/api/types";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+interface StationComparisonProps {
+  stationIds: string[];
+  sensor: string;
+  dayType: DayTypeFilter | "";
+  periodFrom: string;
+  periodTo: string;
+}
+
+const stationColors = [
+  "#8884d8",
+  "#82ca9d",
+  "#ffa94d",
+  "#e599f7",
+  "#4dabf7",
+  "#ff6b6b",
+  "#51cf66",
+  "#fcc419",
+  "#868e96",
+  "#20c997",
+];
+
+const sensorLabels: { [sensor: string]: string } = {
+  trafficCount: "traffic count",
+  averageSpeed: "average speed",
+};
+
+const formatHourLabel = (hour: number): string => `${hour}:00`;
+
+/**
+ * Hourly profiles of several stations overlaid in one chart
+ */
+const StationComparison: React.FC<StationComparisonProps> = ({
+  stationIds,
+  sensor,
+  dayType,
+  periodFrom,
+  periodTo,
+}) => {
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (stationIds.length === 0) {
+      setComparison(null);
+      return;
+    }
+    const fetchComparison = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setComparison(
+          await api.compareStations({
+            stations: stationIds.join(","),
+            sensor,
+            dayType: dayType || undefined,
+            from: periodFrom || undefined,
+            to: periodTo || undefined,
+          })
+        );
+      } catch (error) {
+        console.error("Error fetching comparison:", error);
+        if (axios.isAxiosError(error) && error.response?.status === 400) {
+          setError(error.response.data?.message || "Invalid parameters.");
+        } else {
+          setError("Failed to fetch data. Please try again.");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchComparison();
+  }, [stationIds, sensor, dayType, periodFrom, periodTo]);
+
+  if (stationIds.length === 0) {
+    return <div style={styles.hint}>Select stations to compare.</div>;
+  }
+  if (loading) {
+    return <div style={styles.loading}>Loading data...</div>;
+  }
+  if (error) {
+    return <div style={styles.error}>{error}</div>;
+  }
+  if (!comparison) {
+    return null;
+  }
+
+  // One row per hour with the value of each station as station<ID>
+  const chartData = Array.from({ length: 24 }, (_, hour) => {
+    const row: { [key: string]: number | null } = { hour };
+    for (const station of comparison.stations) {
+      row[`station${station.stationId}`] =
+        station.hourlyData[hour]?.value ?? null;
+    }
+    return row;
+  });
+  const unit = comparison.unit || "";
+
+  return (
+    <div style={styles.chartWrapper}>
+      <h3 style={styles.h3}>
+        Station Comparison ({sensorLabels[sensor] || sensor})
+      </h3>
+      <div style={styles.period}>
+        {comparison.from} to {comparison.to}
+      </div>
+      <ResponsiveContainer width="100%" height={350}>
+        <LineChart
+          data={chartData}
+          margin={{
+            top: 5,
+            right: 30,
+            left: 20,
+            bottom: 5,
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="hour" tickFormatter={formatHourLabel} />
+          <YAxis
+            label={{
+              value: unit,
+              angle: -90,
+              position: "insideLeft",
+            }}
+          />
+          <RechartsTooltip
+            formatter={(value, name) => [`${value} ${unit}`, name]}
+            labelFormatter={formatHourLabel}
+          />
+          <Legend />
+          {comparison.stations.map((station, index) => (
+            <Line
+              key={station.stationId}
+              dataKey={`station${station.stationId}`}
+              name={station.fullName}
+              stroke={stationColors[index % stationColors.length]}
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+// Define styles as JavaScript object
+import { CSSProperties } from "react";
+
+const styles: { [key: string]: CSSProperties } = {
+  chartWrapper: {
+    backgroundColor: "white",
+    padding: "20px",
+    borderRadius: "8px",
+    boxShadow: "0 2px 4px rgba(0,0,0,0.1)",
+    marginBottom: "20px",
+  },
+  h3: {
+    color: "#555",
+    marginBottom: "10px",
+  },
+  period: {
+    color: "#666",
+    marginBottom: "10px",
+  },
+  hint: {
+    color: "#666",
+    padding: "20px",
+    textAlign: "center",
+  },
+  loading: {
+    textAlign: "center",
+    padding: "20px",
+    color: "#666",
+    fontSize: "18px",
+  },
+  error: {
+    textAlign: "center",
+    padding: "20px",
+    color: "#d32f2f",
+    backgroundColor: "#ffebee",
+    borderRadius: "4px",
+  },
+};
+
+export default StationComparison;
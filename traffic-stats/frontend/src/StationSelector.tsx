@@ -2,9 +2,14 @@ import * as React from "react";
 import { useState, useEffect, useRef } from "react";
 import axios from "axios";
 import API_URL from "./config";
+import api from "./api";
+import type { DayTypeFilter, HourlyAverageResponse, Station } from "../../common/api/types";
 import {
   BarChart,
   Bar,
+  ComposedChart,
+  Area,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -15,6 +20,7 @@ import {
 import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
 import L from "leaflet";
+import StationComparison from "./StationComparison";
 
 // Fix for Leaflet marker icon issue in React
 // This is needed because Leaflet's default icon relies on assets that aren't properly loaded in React
@@ -26,46 +32,28 @@ L.Icon.Default.mergeOptions({
   shadowUrl: "https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png",
 });
 
-interface StationEnriched extends Station {
-  direction1Municipality?: string;
-  direction2Municipality?: string;
-  municipality?: string;
-}
-
-interface HourlyData {
-  hour: number;
-  trafficCount: number;
-  avgSpeed: number;
-}
+const COMPARE_SENSOR_OPTIONS: { value: string; label: string }[] = [
+  { value: "trafficCount", label: "Traffic count" },
+  { value: "averageSpeed", label: "Average speed" },
+];
 
-interface SensorHourlyData {
-  name: string;
-  unit: string;
-  hourlyData: {
-    hour: number;
-    value: number;
-  }[];
-}
+// Maximum number of stations in one comparison, same as in the API
+const MAX_COMPARED_STATIONS = 10;
 
-interface HourlyAverage {
-  stationId: string;
-  period: {
-    start: string;
-    end: string;
-  };
-  hourlyAverages: HourlyData[];
-  sensorData?: SensorHourlyData[];
-}
-
-interface Station {
-  id: string;
-  name: string;
-  lat: number;
-  lon: number;
-  fullName?: string;
-  description?: string;
-  collectionStatus?: string;
-}
+// Day types supported by the hourly-average endpoint
+const DAY_TYPE_OPTIONS: { value: DayTypeFilter | ""; label: string }[] = [
+  { value: "", label: "All days" },
+  { value: "weekday", label: "Weekdays (Mon-Fri)" },
+  { value: "saturday", label: "Saturdays" },
+  { value: "sundayOrHoliday", label: "Sundays and holidays" },
+  { value: "monday", label: "Monday" },
+  { value: "tuesday", label: "Tuesday" },
+  { value: "wednesday", label: "Wednesday" },
+  { value: "thursday", label: "Thursday" },
+  { value: "friday", label: "Friday" },
+  { value: "sunday", label: "Sunday" },
+  { value: "holiday", label: "Holidays on Mon-Sat" },
+];
 
 interface StationSelectorProps {
   stations: Station[];
@@ -98,9 +86,37 @@ const RecenterMap: React.FC<{ lat: number; lon: number }> = ({ lat, lon }) => {
   );
 };
 
+const EXPORT_FORMATS = ["csv", "ndjson"];
+
+// Export links download the file directly, large exports redirect to S3
+const DownloadButtons: React.FC<{
+  path: string;
+  params: { [key: string]: string | undefined };
+}> = ({ path, params }) => {
+  const definedParams = Object.fromEntries(
+    Object.entries(params).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== ""
+    )
+  );
+  return (
+    <span style={styles.downloadButtons}>
+      {EXPORT_FORMATS.map((format) => (
+        <a
+          key={format}
+          href={`${API_URL}${path}?${new URLSearchParams({ ...definedParams, format })}`}
+          style={styles.downloadButton}
+          download
+        >
+          {format.toUpperCase()}
+        </a>
+      ))}
+    </span>
+  );
+};
+
 const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
   const [selectedStation, setSelectedStation] = useState<string>("");
-  const [hourlyAverage, setHourlyAverage] = useState<HourlyAverage | null>(
+  const [hourlyAverage, setHourlyAverage] = useState<HourlyAverageResponse | null>(
     null
   );
   const [loading, setLoading] = useState<boolean>(false);
@@ -109,7 +125,15 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
   const [hoveredItem, setHoveredItem] = useState<string | null>(null);
   const [isDropdownHovered, setIsDropdownHovered] = useState<boolean>(false);
   const [selectedStationData, setSelectedStationData] =
-    useState<StationEnriched | null>(null);
+    useState<Station | null>(null);
+  const [dayType, setDayType] = useState<DayTypeFilter | "">("");
+  // Averaging period, empty values use the default period of the API
+  const [periodFrom, setPeriodFrom] = useState<string>("");
+  const [periodTo, setPeriodTo] = useState<string>("");
+  // Compare mode overlays the hourly profiles of several stations in one chart
+  const [compareMode, setCompareMode] = useState<boolean>(false);
+  const [comparedStations, setComparedStations] = useState<string[]>([]);
+  const [compareSensor, setCompareSensor] = useState<string>("trafficCount");
 
   // Reference to the dropdown element to handle outside clicks
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -136,20 +160,29 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
         setLoading(true);
         setError(null);
         try {
-          const response = await axios.get(
-            `${API_URL}/traffic/station/${selectedStation}/hourly-average`
+          setHourlyAverage(
+            await api.getHourlyAverage({
+              stationId: selectedStation,
+              dayType: dayType || undefined,
+              from: periodFrom || undefined,
+              to: periodTo || undefined,
+            })
           );
-          setHourlyAverage(response.data);
         } catch (error) {
           console.error("Error fetching hourly average:", error);
-          setError("Failed to fetch data. Please try again.");
+          // Show validation errors of the API, e.g. too long period
+          if (axios.isAxiosError(error) && error.response?.status === 400) {
+            setError(error.response.data?.message || "Invalid parameters.");
+          } else {
+            setError("Failed to fetch data. Please try again.");
+          }
         } finally {
           setLoading(false);
         }
       };
       fetchHourlyAverage();
     }
-  }, [selectedStation]);
+  }, [selectedStation, dayType, periodFrom, periodTo]);
 
   // Debug selected station data
   React.useEffect(() => {
@@ -163,40 +196,87 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
     return `${hour}:00`;
   };
 
-  const fetchStationDetails = async (stationId: string) => {
-    try {
-      const response = await axios.get(
-        `https://tie.digitraffic.fi/api/tms/v1/stations/${stationId}`
-      );
-      return response.data;
-    } catch (error) {
-      console.error("Failed to fetch station details:", error);
-      return null;
+  // Bidirectional totals with the values of each direction as direction1Count, direction1Speed, ...
+  const directions = hourlyAverage?.directions ?? [];
+  const chartData = (hourlyAverage?.hourlyAverages ?? []).map((data) => {
+    const row: { [key: string]: number } = {
+      hour: data.hour,
+      trafficCount: data.trafficCount,
+      avgSpeed: data.avgSpeed,
+    };
+    for (const direction of directions) {
+      const directionData = direction.hourlyAverages[data.hour];
+      row[`direction${direction.direction}Count`] = directionData?.trafficCount ?? 0;
+      row[`direction${direction.direction}Speed`] = directionData?.avgSpeed ?? 0;
     }
+    return row;
+  });
+  // Middle 70% of the daily traffic counts of each hour is drawn as a band around the median
+  const spreadData = (hourlyAverage?.hourlyAverages ?? []).map((data) => ({
+    hour: data.hour,
+    mean: data.trafficCountStats?.mean,
+    median: data.trafficCountStats?.median,
+    range: data.trafficCountStats
+      ? [data.trafficCountStats.p15, data.trafficCountStats.p85]
+      : undefined,
+  }));
+  const hasSpread = spreadData.some((data) => data.range !== undefined);
+  // Exports cover the same period and day type as the charts
+  const hourlyExportPath = `/traffic/station/${selectedStation}/hourly-average`;
+  const hourlyExportParams = {
+    dayType,
+    from: hourlyAverage?.period.start,
+    to: hourlyAverage?.period.end,
   };
+  const rawExportPath = `/traffic/station/${selectedStation}/export`;
+  const directionColors = ["#8884d8", "#ffa94d"];
+  const speedColors = ["#82ca9d", "#e599f7"];
 
-  const handleStationSelect = async (stationId: string) => {
-    setSelectedStation(stationId); // Set the selected station immediately
-    const stationDetails = await fetchStationDetails(stationId);
-    if (stationDetails && stationDetails.id) {
-      const station = stations.find((s) => s.id === stationId);
-      if (station) {
-        setSelectedStationData({
-          ...station,
-          direction1Municipality: stationDetails.properties.direction1Municipality,
-          direction2Municipality: stationDetails.properties.direction2Municipality,
-          municipality: stationDetails.properties.municipality,
-        });
-        console.log("Selected station details:", stationDetails);
-      }
+  // Station list from the registry already contains the station details
+  const handleStationSelect = (stationId: string) => {
+    setSelectedStation(stationId);
+    const station = stations.find((s) => String(s.id) === String(stationId));
+    setSelectedStationData(station || null);
+  };
+
+  const toggleComparedStation = (stationId: string) => {
+    setComparedStations((current) =>
+      current.includes(stationId)
+        ? current.filter((id) => id !== stationId)
+        : current.length < MAX_COMPARED_STATIONS
+          ? [...current, stationId]
+          : current
+    );
+  };
+
+  const getSelectedText = (): string => {
+    if (compareMode) {
+      return comparedStations.length > 0
+        ? `${comparedStations.length} stations selected`
+        : "Select stations";
     }
+    return selectedStation
+      ? stations.find((s) => s.id === selectedStation)?.fullName ||
+          stations.find((s) => s.id === selectedStation)?.name ||
+          "Select a station"
+      : "Select a station";
   };
 
   return (
     <div style={styles.stationSelector}>
       <div style={styles.selectorContainer}>
+        <label style={styles.compareToggle}>
+          <input
+            type="checkbox"
+            checked={compareMode}
+            onChange={(e) => setCompareMode(e.target.checked)}
+          />
+          Compare stations
+        </label>
         <label htmlFor="station" style={styles.selectorLabel}>
-          Select a traffic measurement station:
+          {compareMode
+            ? `Select up to ${MAX_COMPARED_STATIONS} traffic measurement stations:`
+            : "Select a traffic measurement station:"}
         </label>
 
         {/* Custom styled dropdown */}
@@ -210,13 +290,7 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
             onMouseEnter={() => setIsDropdownHovered(true)}
             onMouseLeave={() => setIsDropdownHovered(false)}
           >
-            <span style={styles.selectedText}>
-              {selectedStation
-                ? stations.find((s) => s.id === selectedStation)?.fullName ||
-                  stations.find((s) => s.id === selectedStation)?.name ||
-                  "Select a station"
-                : "Select a station"}
-            </span>
+            <span style={styles.selectedText}>{getSelectedText()}</span>
             <span style={styles.dropdownArrow}>{dropdownOpen ? "▲" : "▼"}</span>
           </div>
 
@@ -234,20 +308,26 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
                         : {}),
                     }}
                     onClick={() => {
-                      setSelectedStation("");
+                      if (compareMode) {
+                        setComparedStations([]);
+                      } else {
+                        setSelectedStation("");
+                      }
                       setDropdownOpen(false);
                     }}
                     onMouseEnter={() => setHoveredItem("default")}
                     onMouseLeave={() => setHoveredItem(null)}
                   >
-                    -- Select a station --
+                    {compareMode ? "-- Clear selection --" : "-- Select a station --"}
                   </div>
                   {stations.map((station) => (
                     <div
                       key={station.id}
                       style={{
                         ...styles.dropdownOption,
-                        ...(selectedStation === station.id
+                        ...((compareMode
+                          ? comparedStations.includes(station.id)
+                          : selectedStation === station.id)
                           ? styles.dropdownOptionSelected
                           : {}),
                         ...(hoveredItem === station.id
@@ -255,6 +335,11 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
                           : {}),
                       }}
                       onClick={() => {
+                        // Several stations can be picked without closing the dropdown
+                        if (compareMode) {
+                          toggleComparedStation(station.id);
+                          return;
+                        }
                         setSelectedStation(station.id);
                         setDropdownOpen(false);
                         handleStationSelect(station.id);
@@ -272,27 +357,120 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
         </div>
 
         {/* Keep the original select hidden for accessibility */}
+        {compareMode ? (
+          <select
+            id="station"
+            multiple
+            value={comparedStations}
+            onChange={(e) =>
+              setComparedStations(
+                Array.from(e.target.selectedOptions, (option) => option.value)
+                  .slice(0, MAX_COMPARED_STATIONS)
+              )
+            }
+            style={styles.hiddenSelect}
+            aria-hidden="true"
+          >
+            {stations.map((station) => (
+              <option key={station.id} value={station.id}>
+                {station.fullName ? `${station.fullName}` : station.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <select
+            id="station"
+            value={selectedStation}
+            onChange={(e) => handleStationSelect(e.target.value)}
+            style={styles.hiddenSelect}
+            aria-hidden="true"
+          >
+            <option value="">--Select a station--</option>
+            {stations.map((station) => (
+              <option key={station.id} value={station.id}>
+                {station.fullName ? `${station.fullName}` : station.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {compareMode && (
+          <>
+            <label htmlFor="compareSensor" style={styles.dayTypeLabel}>
+              Compared value:
+            </label>
+            <select
+              id="compareSensor"
+              value={compareSensor}
+              onChange={(e) => setCompareSensor(e.target.value)}
+              style={styles.stationDropdown}
+            >
+              {COMPARE_SENSOR_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+
+        <label htmlFor="dayType" style={styles.dayTypeLabel}>
+          Day type:
+        </label>
         <select
-          id="station"
-          value={selectedStation}
-          onChange={(e) => setSelectedStation(e.target.value)}
-          style={styles.hiddenSelect}
-          aria-hidden="true"
+          id="dayType"
+          value={dayType}
+          onChange={(e) => setDayType(e.target.value as DayTypeFilter | "")}
+          style={styles.stationDropdown}
         >
-          <option value="">--Select a station--</option>
-          {stations.map((station) => (
-            <option key={station.id} value={station.id}>
-              {station.fullName ? `${station.fullName}` : station.name}
+          {DAY_TYPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
             </option>
           ))}
         </select>
+
+        <div style={styles.periodContainer}>
+          <label htmlFor="periodFrom" style={styles.dayTypeLabel}>
+            From:
+          </label>
+          <input
+            id="periodFrom"
+            type="date"
+            value={periodFrom}
+            max={periodTo || undefined}
+            onChange={(e) => setPeriodFrom(e.target.value)}
+            style={styles.stationDropdown}
+          />
+          <label htmlFor="periodTo" style={styles.dayTypeLabel}>
+            To:
+          </label>
+          <input
+            id="periodTo"
+            type="date"
+            value={periodTo}
+            min={periodFrom || undefined}
+            onChange={(e) => setPeriodTo(e.target.value)}
+            style={styles.stationDropdown}
+          />
+        </div>
       </div>
 
-      {loading && <div style={styles.loading}>Loading data...</div>}
-      {error && <div style={styles.error}>{error}</div>}
+      {compareMode && (
+        <StationComparison
+          stationIds={comparedStations}
+          sensor={compareSensor}
+          dayType={dayType}
+          periodFrom={periodFrom}
+          periodTo={periodTo}
+        />
+      )}
+
+      {!compareMode && loading && <div style={styles.loading}>Loading data...</div>}
+      {!compareMode && error && <div style={styles.error}>{error}</div>}
 
       {/* Map display for selected station */}
-      {selectedStationData && !loading && (
+      {!compareMode && selectedStationData && !loading && (
         <details style={styles.mapDetails} open>
           <summary style={styles.mapSummary}>Station Location Map</summary>
           <div style={styles.mapContainer}>
@@ -335,13 +513,21 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
             <p><strong>Municipality:</strong> {selectedStationData.municipality}</p>
             <p><strong>Direction 1 Municipality:</strong> {selectedStationData.direction1Municipality}</p>
             <p><strong>Direction 2 Municipality:</strong> {selectedStationData.direction2Municipality}</p>
+            {selectedStationData.roadNumber !== undefined && (
+              <p><strong>Road:</strong> {selectedStationData.roadNumber}</p>
+            )}
             <p><strong>Period:</strong> {hourlyAverage?.period.start} to {hourlyAverage?.period.end}</p>
+            {hourlyAverage?.coverage && hourlyAverage.coverage.completeness !== null && (
+              <p>
+                <strong>Coverage:</strong> {hourlyAverage.coverage.completeness}% ({hourlyAverage.coverage.receivedHours} of {hourlyAverage.coverage.expectedHours} hours)
+              </p>
+            )}
             <p><strong>Collection Status:</strong> {selectedStationData.collectionStatus}</p>
           </div>
         </details>
       )}
 
-      {hourlyAverage && !loading && selectedStationData && (
+      {!compareMode && hourlyAverage && !loading && selectedStationData && (
         <div style={styles.chartsContainer}>
           <h2 style={styles.h2}>
             Traffic Data for Station:{" "}
@@ -349,10 +535,13 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
           </h2>
 
           <div style={styles.chartWrapper}>
-            <h3 style={styles.h3}>Hourly Traffic Count</h3>
+            <div style={styles.chartHeader}>
+              <h3 style={styles.h3}>Hourly Traffic Count</h3>
+              <DownloadButtons path={hourlyExportPath} params={hourlyExportParams} />
+            </div>
             <ResponsiveContainer width="100%" height={300}>
               <BarChart
-                data={hourlyAverage.hourlyAverages}
+                data={chartData}
                 margin={{
                   top: 5,
                   right: 30,
@@ -370,24 +559,104 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
                   }}
                 />
                 <RechartsTooltip
-                  formatter={(value) => [`${value} vehicles`, "Traffic Count"]}
-                  labelFormatter={formatHourLabel}
+                  formatter={(value, name) => [`${value} vehicles`, name]}
+                  labelFormatter={(hour: number) =>
+                    directions.length > 0
+                      ? `${formatHourLabel(hour)}, total ${chartData[hour]?.trafficCount ?? 0} vehicles`
+                      : formatHourLabel(hour)
+                  }
                 />
                 <Legend />
-                <Bar
-                  dataKey="trafficCount"
-                  name="Traffic Count"
-                  fill="#8884d8"
-                />
+                {directions.length > 0 ? (
+                  directions.map((direction, index) => (
+                    <Bar
+                      key={direction.direction}
+                      dataKey={`direction${direction.direction}Count`}
+                      name={direction.label}
+                      stackId="count"
+                      fill={directionColors[index % directionColors.length]}
+                    />
+                  ))
+                ) : (
+                  <Bar
+                    dataKey="trafficCount"
+                    name="Traffic Count"
+                    fill="#8884d8"
+                  />
+                )}
               </BarChart>
             </ResponsiveContainer>
           </div>
 
+          {hasSpread && (
+            <div style={styles.chartWrapper}>
+              <div style={styles.chartHeader}>
+                <h3 style={styles.h3}>Daily Variation of Traffic Count</h3>
+                <DownloadButtons path={hourlyExportPath} params={hourlyExportParams} />
+              </div>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart
+                  data={spreadData}
+                  margin={{
+                    top: 5,
+                    right: 30,
+                    left: 20,
+                    bottom: 5,
+                  }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="hour" tickFormatter={formatHourLabel} />
+                  <YAxis
+                    label={{
+                      value: "Vehicles per hour",
+                      angle: -90,
+                      position: "insideLeft",
+                    }}
+                  />
+                  <RechartsTooltip
+                    formatter={(value, name) => [
+                      Array.isArray(value)
+                        ? `${value[0]} - ${value[1]} vehicles`
+                        : `${value} vehicles`,
+                      name,
+                    ]}
+                    labelFormatter={formatHourLabel}
+                  />
+                  <Legend />
+                  <Area
+                    dataKey="range"
+                    name="15th - 85th percentile"
+                    stroke="none"
+                    fill="#8884d8"
+                    fillOpacity={0.25}
+                  />
+                  <Line
+                    dataKey="median"
+                    name="Median"
+                    stroke="#8884d8"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  <Line
+                    dataKey="mean"
+                    name="Mean"
+                    stroke="#ffa94d"
+                    strokeDasharray="5 5"
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
           <div style={styles.chartWrapper}>
-            <h3 style={styles.h3}>Average Vehicle Speed</h3>
+            <div style={styles.chartHeader}>
+              <h3 style={styles.h3}>Average Vehicle Speed</h3>
+              <DownloadButtons path={hourlyExportPath} params={hourlyExportParams} />
+            </div>
             <ResponsiveContainer width="100%" height={300}>
               <BarChart
-                data={hourlyAverage.hourlyAverages}
+                data={chartData}
                 margin={{
                   top: 5,
                   right: 30,
@@ -405,11 +674,22 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
                   }}
                 />
                 <RechartsTooltip
-                  formatter={(value) => [`${value} km/h`, "Average Speed"]}
+                  formatter={(value, name) => [`${value} km/h`, name]}
                   labelFormatter={formatHourLabel}
                 />
                 <Legend />
-                <Bar dataKey="avgSpeed" name="Average Speed" fill="#82ca9d" />
+                {directions.length > 0 ? (
+                  directions.map((direction, index) => (
+                    <Bar
+                      key={direction.direction}
+                      dataKey={`direction${direction.direction}Speed`}
+                      name={direction.label}
+                      fill={speedColors[index % speedColors.length]}
+                    />
+                  ))
+                ) : (
+                  <Bar dataKey="avgSpeed" name="Average Speed" fill="#82ca9d" />
+                )}
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -422,14 +702,24 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
               {hourlyAverage.sensorData
                 .filter(
                   (sensor) =>
-                    sensor.name.includes("OHITUKSET_60MIN") ||
-                    sensor.name.includes("KESKINOPEUS_60MIN")
+                    sensor.descriptor.windowMinutes === 60 &&
+                    sensor.descriptor.quantity !== "unknown"
                 )
                 .map((sensor) => (
                   <div key={sensor.name} style={styles.sensorChart}>
-                    <h4 style={styles.h4}>
-                      {sensor.name} ({sensor.unit})
-                    </h4>
+                    <div style={styles.chartHeader}>
+                      <h4 style={styles.h4}>
+                        {sensor.label} ({sensor.unit})
+                      </h4>
+                      <DownloadButtons
+                        path={rawExportPath}
+                        params={{
+                          from: hourlyAverage.period.start,
+                          to: hourlyAverage.period.end,
+                          sensor: sensor.name,
+                        }}
+                      />
+                    </div>
                     <ResponsiveContainer width="100%" height={250}>
                       <BarChart
                         data={sensor.hourlyData}
@@ -446,16 +736,16 @@ const StationSelector: React.FC<StationSelectorProps> = ({ stations }) => {
                         <RechartsTooltip
                           formatter={(value) => [
                             `${value} ${sensor.unit}`,
-                            sensor.name,
+                            sensor.label,
                           ]}
                           labelFormatter={formatHourLabel}
                         />
                         <Legend />
                         <Bar
                           dataKey="value"
-                          name={sensor.name}
+                          name={sensor.label}
                           fill={
-                            sensor.name.includes("OHITUKSET")
+                            sensor.descriptor.quantity === "trafficCount"
                               ? "#8884d8"
                               : "#82ca9d"
                           }
@@ -495,10 +785,25 @@ const styles: { [key: string]: CSSProperties } = {
     flexDirection: "column" as "column",
     alignItems: "center",
   },
+  compareToggle: {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    marginBottom: "15px",
+  },
   selectorLabel: {
     fontWeight: "bold",
     marginBottom: "10px",
   },
+  dayTypeLabel: {
+    fontWeight: "bold",
+    margin: "15px 0 10px",
+  },
+  periodContainer: {
+    display: "flex",
+    alignItems: "center",
+    gap: "10px",
+  },
   stationDropdown: {
     padding: "8px",
     fontSize: "16px",
@@ -539,6 +844,24 @@ const styles: { [key: string]: CSSProperties } = {
     color: "#666",
     fontStyle: "italic",
   },
+  chartHeader: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: "10px",
+  },
+  downloadButtons: {
+    display: "flex",
+    gap: "6px",
+  },
+  downloadButton: {
+    padding: "4px 10px",
+    fontSize: "13px",
+    border: "1px solid #8884d8",
+    borderRadius: "4px",
+    color: "#5c5fc4",
+    textDecoration: "none",
+  },
   h2: {
     color: "#333",
     marginBottom: "5px",
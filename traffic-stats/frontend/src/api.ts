@@ -0,0 +1,10 @@
+import axios from 'axios';
+import API_URL from './config';
+import { createApiClient } from '../../common/api/client';
+
+// Typed client of the traffic stats API, generated from common/api/openapi.json
+const api = createApiClient(({ method, path, query, body }) =>
+  axios.request({ method, url: `${API_URL}${path}`, params: query, data: body }).then(response => response.data)
+);
+
+export default api;
@@ -1,3 +1,4 @@
-const API_URL = 'https://c65lk8yv4c.execute-api.eu-north-1.amazonaws.com/api/';
+// npm run dev in the repository root sets VITE_API_URL to the local API server
+const API_URL = import.meta.env.VITE_API_URL || 'https://c65lk8yv4c.execute-api.eu-north-1.amazonaws.com/api/';
 
 export default API_URL;
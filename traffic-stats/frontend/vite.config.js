@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // API types and client are shared from traffic-stats/common
+    fs: { allow: ['..'] },
+  },
 })